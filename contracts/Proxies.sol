@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.2;
+
+// The proxies and proxy admin deployed by hardhat-upgrades, compiled from the same sources as the upgrades-core
+// artifacts (see the solidity overrides of hardhat.config.ts) so that rental:verify can verify them on Etherscan
+import "openzeppelin-contracts-4.1/proxy/ERC1967/ERC1967Proxy.sol";
+import "openzeppelin-contracts-4.1/proxy/transparent/TransparentUpgradeableProxy.sol";
+import "openzeppelin-contracts-4.1/proxy/transparent/ProxyAdmin.sol";
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.0;
+
+import "../RentalProtocol.sol";
+
+/// @dev storage compatible upgrade of the rental protocol, used to test upgrades
+contract RentalProtocolV2 is RentalProtocol {
+    uint256 public upgradeCount;
+
+    function version() external pure returns (string memory) {
+        return "2";
+    }
+}
+
+contract StorageShift {
+    uint256 private shift;
+}
+
+/// @dev storage incompatible upgrade of the rental protocol (all its variables are shifted), used to test upgrades
+contract RentalProtocolBadV2 is StorageShift, RentalProtocol {}
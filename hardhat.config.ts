@@ -1,5 +1,5 @@
 import "dotenv/config";
-import { HardhatUserConfig, task, types } from "hardhat/config";
+import { HardhatUserConfig, task } from "hardhat/config";
 import "@nomiclabs/hardhat-waffle";
 import "@typechain/hardhat";
 import "hardhat-gas-reporter";
@@ -7,11 +7,24 @@ import "hardhat-contract-sizer";
 import "solidity-coverage";
 import "@nomiclabs/hardhat-etherscan";
 import "@openzeppelin/hardhat-upgrades";
-import {
-  hashBytecodeWithoutMetadata,
-  Manifest,
-} from "@openzeppelin/upgrades-core";
-import { ethers } from "ethers";
+import "./tasks/deploy";
+import "./tasks/offers";
+import "./tasks/indexer";
+import "./tasks/orderbook";
+import "./tasks/upgrade";
+import "./tasks/roles";
+import "./tasks/rewards";
+import "./tasks/keeper";
+import "./tasks/premature";
+import "./tasks/benchmark";
+import "./tasks/earnings";
+import "./tasks/metadata";
+import "./tasks/verify";
+import "./tasks/roster";
+import "./tasks/bundles";
+import "./tasks/nonces";
+import "./tasks/explain";
+import "./tasks/inspect";
 
 task("accounts", "Prints the list of accounts", async (taskArgs, hre) => {
   const accounts = await hre.ethers.getSigners();
@@ -20,104 +33,9 @@ task("accounts", "Prints the list of accounts", async (taskArgs, hre) => {
   }
 });
 
-task("rental:deploy", "Deploy Rental Protocol")
-	.addParam("feesCollector", "Address of the fees collector", undefined, types.string, false)
-	.addParam("feeBasisPoints", "Basis points of the protocol fee", 5_00, types.int)
-	.setAction(async (args, hre) => {
-		const accounts = await hre.ethers.getSigners();
-		console.info(`Deploying rental protocol with owner "${accounts[0].address}"`);
-
-		// deploy upgradeable contract
-		const RentalProtocol = await hre.ethers.getContractFactory("RentalProtocol");
-		const rp = await hre.upgrades.deployProxy(RentalProtocol, [args.feesCollector, args.feeBasisPoints]);
-		await rp.deployed();
-		console.log(`Rental Protocol proxy deployed at: "${rp.address}"`);
-
-		// peer into OpenZeppelin manifest to extract the implementation address
-		const ozUpgradesManifestClient = await Manifest.forNetwork(hre.network.provider);
-		const manifest = await ozUpgradesManifestClient.read();
-		const bytecodeHash = hashBytecodeWithoutMetadata(RentalProtocol.bytecode);
-		const implementationContract = manifest.impls[bytecodeHash];
-
-		// verify implementation contract
-		if (implementationContract) {
-			console.log(`Rental Protocol impl deployed at: "${implementationContract.address}"`);
-			await hre.run("verify:verify", {
-				address: implementationContract.address
-			});
-		}
-	});
-
-task("rental:link-nfts", "Allow new NFTs to lend (spaceship, cards, ...)")
-	.addParam("rental", "Address of the rental protocol", '', types.string)
-	.addParam("nft", "Address of the NFT contract allowed for rents", '', types.string)
-	.setAction(async (args, hre) => {
-		const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
-		const accounts = await hre.ethers.getSigners();
-		const rp = await hre.ethers.getContractAt("RentalProtocol", args.rental);
-
-		// check if the NFT contract is already linked
-		const linked = await rp.originalToLentNFT(args.nft) != ZERO_ADDRESS;
-
-		if (!linked) {
-			console.info(`Deploying LentNFT, SubLentNFT and BorrowedNFTs with owner "${accounts[0].address}"`);
-
-			// deploy upgradeable contracts
-			const LentNFT = await hre.ethers.getContractFactory("LentNFT");
-			const SubLentNFT = await hre.ethers.getContractFactory("SubLentNFT");
-			const BorrowedNFT = await hre.ethers.getContractFactory("BorrowedNFT");
-			const ozUpgradesManifestClient = await Manifest.forNetwork(hre.network.provider);
-			const manifest = await ozUpgradesManifestClient.read();
-			const lentNFT = await hre.upgrades.deployProxy(LentNFT, [rp.address, args.nft]);
-			await lentNFT.deployed();
-			const subLentNFT = await hre.upgrades.deployProxy(SubLentNFT, [rp.address, args.nft]);
-			await subLentNFT.deployed();
-			const borrowedNFT = await hre.upgrades.deployProxy(BorrowedNFT, [rp.address, args.nft]);
-			await borrowedNFT.deployed();
-			console.log("NFTs (LentNFT, SubLentNFT, BorrowedNFT) deployed at:", lentNFT.address, subLentNFT.address, borrowedNFT.address);
-
-			// link the deployed NFTs to the rental protocol
-			await rp.associateOriginalToLentAndBorrowedNFT(
-				args.nft,
-				lentNFT.address,
-				borrowedNFT.address,
-				subLentNFT.address
-			);
-
-			// verify implementation contracts
-			await Promise.all([LentNFT, SubLentNFT, BorrowedNFT].map(async (contract) => {
-				// peer into OpenZeppelin manifest to extract the implementation address
-				const bytecodeHash = hashBytecodeWithoutMetadata(contract.bytecode);
-				const implementationContract = manifest.impls[bytecodeHash];
-				// verify implementation contract
-				if (implementationContract) {
-					console.log(`impl deployed at: "${implementationContract.address}"`);
-					await hre.run("verify:verify", {
-						address: implementationContract.address
-					});
-				}
-			}));
-		}
-	});
-
-task("rental:distribute-rewards", "Distribute rewards to a borrowed NFT")
-	.addParam("borrowedNft", "Address of the BorrowedNFT contract", undefined, types.string)
-	.addParam("tokenId", "ID of the BorrowedNFT", undefined, types.int)
-	.addParam("token", "Address of the token to reward (default: must on devnet)", '0xe9d746C95884Ef3C2CE7C1dD355c639B234Cd42b', types.string)
-	.addParam("amount", "Amount of the rewards", undefined, types.string)
-	.setAction(async (args, hre) => {
-		const borrowedNFT = await hre.ethers.getContractAt("BorrowedNFT", args.borrowedNft);
-		const rewardToken = await hre.ethers.getContractAt("ERC20", args.token);
-		const amount = ethers.utils.parseEther(args.amount);
-		// send rewards to the borrowed NFT contract
-		await rewardToken.transfer(borrowedNFT.address, amount);
-		// ask to distribute rewards
-		await borrowedNFT.onERC20Received(
-			args.tokenId,
-			rewardToken.address,
-			amount
-		)
-	});
+// Compiler of the proxies deployed by hardhat-upgrades: the upgrades-core artifacts are built from OpenZeppelin
+// Contracts 4.1.0 with solc 0.8.2, so that rental:verify can verify the proxies on Etherscan (see contracts/Proxies.sol)
+const PROXY_COMPILER = { version: "0.8.2", settings: { optimizer: { enabled: true, runs: 200 } } };
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -132,6 +50,11 @@ const config: HardhatUserConfig = {
         },
       },
     ],
+    overrides: {
+      "openzeppelin-contracts-4.1/proxy/ERC1967/ERC1967Proxy.sol": PROXY_COMPILER,
+      "openzeppelin-contracts-4.1/proxy/transparent/TransparentUpgradeableProxy.sol": PROXY_COMPILER,
+      "openzeppelin-contracts-4.1/proxy/transparent/ProxyAdmin.sol": PROXY_COMPILER,
+    },
   },
   networks: {
     hardhat: {
@@ -0,0 +1,288 @@
+import {
+	BigNumberish,
+	BytesLike,
+	ContractTransaction,
+	Overrides,
+	Signer,
+	TypedDataDomain,
+	providers,
+	utils,
+} from "ethers";
+import {
+	RentalProtocol,
+	RentalProtocol__factory,
+	LentNFT__factory,
+	BorrowedNFT__factory,
+	SubLentNFT__factory,
+} from "../artifacts/typechain";
+import {
+	Fee,
+	PrematureEndStatus,
+	Rental,
+	RentalNFTs,
+	RentalOffer,
+	RentalOfferParams,
+	SignatureType,
+	ZERO_ADDRESS,
+} from "./types";
+import { TypedDataSigner, getRentalDomain, signRentalOffer } from "./signing";
+import { RewardShare, splitRewards } from "./rewards";
+import { RentPreflight, preflightRent } from "./preflight";
+import { NonceManager } from "./nonces";
+
+const DEFAULT_OFFER_VALIDITY = 7 * 24 * 3600; // 7 days
+
+/**
+ * Generate a random 32 bytes nonce for a rental offer.
+ */
+export function randomNonce(): string {
+	return utils.hexlify(utils.randomBytes(32));
+}
+
+/**
+ * High-level client of the Rental Protocol.
+ *
+ * Wraps the `RentalProtocol` contract and lazily resolves the `LentNFT`, `BorrowedNFT` and
+ * `SubLentNFT` contracts associated to each original collection. With a `NonceManager`, offer nonces
+ * are allocated by the manager which records the offers signed off-chain.
+ */
+export class RentalClient {
+	readonly protocol: RentalProtocol;
+	private readonly rentalNFTs = new Map<string, RentalNFTs>();
+	private domain?: TypedDataDomain;
+
+	constructor(protocol: RentalProtocol, readonly nonces?: NonceManager) {
+		this.protocol = protocol;
+	}
+
+	static connect(address: string, signerOrProvider: Signer | providers.Provider, nonces?: NonceManager): RentalClient {
+		return new RentalClient(RentalProtocol__factory.connect(address, signerOrProvider), nonces);
+	}
+
+	/**
+	 * Returns a new client sending transactions with `signer`.
+	 */
+	connect(signer: Signer): RentalClient {
+		return new RentalClient(this.protocol.connect(signer), this.nonces);
+	}
+
+	get address(): string {
+		return this.protocol.address;
+	}
+
+	/**
+	 * Build a rental offer, filling omitted fields with their defaults (see `RentalOfferParams`).
+	 */
+	async createOffer(params: RentalOfferParams): Promise<RentalOffer> {
+		const maker = params.maker ?? (await this.signer().getAddress());
+		let deadline = params.deadline;
+		if (deadline === undefined) {
+			const block = await this.protocol.provider.getBlock("latest");
+			deadline = block.timestamp + DEFAULT_OFFER_VALIDITY;
+		}
+
+		return {
+			maker,
+			taker: params.taker ?? ZERO_ADDRESS,
+			nfts: params.nfts,
+			feeToken: params.feeToken ?? ZERO_ADDRESS,
+			feeAmount: params.feeAmount ?? 0,
+			nonce: params.nonce ?? (this.nonces ? await this.nonces.next(maker) : randomNonce()),
+			deadline,
+		};
+	}
+
+	/**
+	 * EIP-712 domain of the protocol, cached as it never changes for a given proxy.
+	 */
+	async getDomain(): Promise<TypedDataDomain> {
+		if (!this.domain) {
+			this.domain = await getRentalDomain(this.protocol);
+		}
+		return this.domain;
+	}
+
+	/**
+	 * Sign `offer` off-chain, to be used with `SignatureType.EIP_712`, and record it in the nonce manager.
+	 */
+	async signOffer(offer: RentalOffer): Promise<string> {
+		const signer = this.signer() as Signer & Partial<TypedDataSigner>;
+		if (typeof signer._signTypedData !== "function") {
+			throw new Error("RentalClient signer can't sign typed data");
+		}
+		const domain = await this.getDomain();
+		const signature = await signRentalOffer(signer as Signer & TypedDataSigner, domain, offer);
+		await this.nonces?.recordOffer(offer, SignatureType.EIP_712, Number(domain.chainId), this.address);
+		return signature;
+	}
+
+	preSignOffer(offer: RentalOffer, overrides: Overrides = {}): Promise<ContractTransaction> {
+		return this.protocol.preSignRentalOffer(offer, overrides);
+	}
+
+	cancelOffer(nonce: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+		return this.protocol.cancelRentalOffer(nonce, overrides);
+	}
+
+	/**
+	 * Start a rental. Pre-signed offers don't need any signature.
+	 */
+	rent(
+		offer: RentalOffer,
+		signatureType: SignatureType = SignatureType.PRE_SIGNED,
+		signature: BytesLike = "0x",
+		overrides: Overrides = {}
+	): Promise<ContractTransaction> {
+		return this.protocol.rent(offer, signatureType, signature, overrides);
+	}
+
+	/**
+	 * Find every reason why `rent` would revert for `tenant` (default: the client signer), and the fees
+	 * it would pay.
+	 */
+	async preflightRent(
+		offer: RentalOffer,
+		signatureType: SignatureType = SignatureType.PRE_SIGNED,
+		signature: BytesLike = "0x",
+		tenant?: string
+	): Promise<RentPreflight> {
+		return preflightRent(this, offer, signatureType, signature, tenant ?? (await this.signer().getAddress()));
+	}
+
+	sublet(
+		token: string,
+		tokenId: BigNumberish,
+		subtenant: string,
+		basisPoints: number,
+		overrides: Overrides = {}
+	): Promise<ContractTransaction> {
+		return this.protocol.sublet(token, tokenId, subtenant, basisPoints, overrides);
+	}
+
+	endSublet(token: string, tokenId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+		return this.protocol.endSublet(token, tokenId, overrides);
+	}
+
+	endRental(token: string, tokenId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+		return this.protocol.endRental(token, tokenId, overrides);
+	}
+
+	endRentalPrematurely(
+		token: string,
+		tokenId: BigNumberish,
+		overrides: Overrides = {}
+	): Promise<ContractTransaction> {
+		return this.protocol.endRentalPrematurely(token, tokenId, overrides);
+	}
+
+	/**
+	 * Premature end request of `tokenId`, a request goes stale when its requester transfers their
+	 * rental NFT: the next call to `endRentalPrematurely` makes a new request.
+	 * @returns `undefined` when not rented
+	 */
+	async getPrematureEndStatus(token: string, tokenId: BigNumberish): Promise<PrematureEndStatus | undefined> {
+		const { lentNFT, borrowedNFT, subLentNFT } = await this.requireRentalNFTs(token);
+		if (!(await this.getRental(token, tokenId))) {
+			return undefined;
+		}
+		const [lender, tenant, requester, subletBlocking] = await Promise.all([
+			lentNFT.ownerOf(tokenId),
+			borrowedNFT.ownerOf(tokenId),
+			this.protocol.endRentalPrematurelyRequests(token, tokenId),
+			subLentNFT.exists(tokenId),
+		]);
+		const valid = requester === lender || requester === tenant;
+		return {
+			lender,
+			tenant,
+			requester: requester === ZERO_ADDRESS ? undefined : requester,
+			valid,
+			counterparty: valid ? (requester === lender ? tenant : lender) : undefined,
+			subletBlocking,
+		};
+	}
+
+	/**
+	 * Whether the `nonce` of `maker` has already been used, either by a rental or a cancellation.
+	 */
+	isNonceUsed(maker: string, nonce: BigNumberish): Promise<boolean> {
+		return this.protocol.invalidNonce(maker, nonce);
+	}
+
+	/**
+	 * @returns the ongoing rental of `tokenId`, or `undefined` when not rented
+	 */
+	async getRental(token: string, tokenId: BigNumberish): Promise<Rental | undefined> {
+		const rental = await this.protocol.rentals(token, tokenId);
+		if (rental.end.isZero()) {
+			return undefined;
+		}
+		return {
+			end: rental.end,
+			lenderBasisPoints: rental.lenderFee.toNumber(),
+			sublenderBasisPoints: rental.sublenderFee.toNumber(),
+		};
+	}
+
+	async getFeesTable(token: string, tokenId: BigNumberish): Promise<Fee[]> {
+		const fees = await this.protocol.getFeesTable(token, tokenId);
+		return fees.map((fee) => ({ to: fee.to, basisPoints: fee.basisPoints.toNumber() }));
+	}
+
+	/**
+	 * Predict how `amount` rewards sent to the borrowed NFT `tokenId` would be split.
+	 */
+	async previewRewards(token: string, tokenId: BigNumberish, amount: BigNumberish | bigint): Promise<RewardShare[]> {
+		const { borrowedNFT } = await this.requireRentalNFTs(token);
+		const [fees, holder] = await Promise.all([this.getFeesTable(token, tokenId), borrowedNFT.ownerOf(tokenId)]);
+		return splitRewards(amount, fees, holder);
+	}
+
+	/**
+	 * Resolve the rental NFTs contracts associated to the `original` collection.
+	 * @returns `undefined` if the collection isn't associated to the protocol
+	 */
+	async getRentalNFTs(original: string): Promise<RentalNFTs | undefined> {
+		const key = original.toLowerCase();
+		const cached = this.rentalNFTs.get(key);
+		if (cached) {
+			return cached;
+		}
+
+		const [lentNFT, borrowedNFT, subLentNFT] = await Promise.all([
+			this.protocol.originalToLentNFT(original),
+			this.protocol.originalToBorrowedNFT(original),
+			this.protocol.originalToSubLendNFT(original),
+		]);
+		if (lentNFT === ZERO_ADDRESS) {
+			return undefined;
+		}
+
+		const signerOrProvider = this.protocol.signer ?? this.protocol.provider;
+		const nfts: RentalNFTs = {
+			lentNFT: LentNFT__factory.connect(lentNFT, signerOrProvider),
+			borrowedNFT: BorrowedNFT__factory.connect(borrowedNFT, signerOrProvider),
+			subLentNFT: SubLentNFT__factory.connect(subLentNFT, signerOrProvider),
+		};
+		this.rentalNFTs.set(key, nfts);
+		return nfts;
+	}
+
+	/**
+	 * Same as `getRentalNFTs` but throws when the collection isn't associated.
+	 */
+	async requireRentalNFTs(original: string): Promise<RentalNFTs> {
+		const nfts = await this.getRentalNFTs(original);
+		if (!nfts) {
+			throw new Error(`Collection ${original} isn't associated to the rental protocol`);
+		}
+		return nfts;
+	}
+
+	private signer(): Signer {
+		if (!this.protocol.signer) {
+			throw new Error("RentalClient isn't connected to a signer");
+		}
+		return this.protocol.signer;
+	}
+}
@@ -0,0 +1,43 @@
+import registry = require("./address-registry.json");
+
+export type UpgradeableContract = "RentalProtocol" | "LentNFT" | "BorrowedNFT" | "SubLentNFT";
+
+/**
+ * Rental NFTs associated to an original collection.
+ */
+export interface RentalCollectionAddresses {
+	original: string;
+	lentNFT?: string;
+	borrowedNFT?: string;
+	subLentNFT?: string;
+}
+
+/**
+ * Addresses of the rental protocol deployed on a network, written by the `rental:deploy` and
+ * `rental:upgrade` tasks.
+ */
+export interface NetworkAddresses {
+	/** Rental protocol proxy */
+	rentalProtocol?: string;
+	/** Block of the rental protocol deployment, where the tasks start scanning its logs */
+	deploymentBlock?: number;
+	/** Current implementation of the proxies of each contract */
+	implementations: { [contract in UpgradeableContract]?: string };
+	/** Rental NFT proxies, by collection name */
+	collections: { [name: string]: RentalCollectionAddresses };
+	/** Known reward tokens, by symbol */
+	rewardTokens: { [symbol: string]: string };
+}
+
+/**
+ * Addresses of each network, by chain ID.
+ */
+export interface AddressRegistry {
+	[chainId: string]: NetworkAddresses;
+}
+
+/**
+ * Registry of the deployed addresses, e.g. `addresses[137].rentalProtocol`.
+ */
+export const addresses: AddressRegistry = registry;
+
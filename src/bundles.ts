@@ -0,0 +1,161 @@
+import { BigNumber, utils } from "ethers";
+import { MAX_BASIS_POINTS, RentalOfferParams } from "./types";
+
+/**
+ * Rental terms of a token, `feeAmount` being its share of the offer upfront fee in fee token units
+ * (e.g. `"1.5"`).
+ */
+export interface PricingTerms {
+	duration: number;
+	basisPoints: number;
+	feeAmount: string;
+}
+
+/**
+ * Terms of the tokens listed in `tokenIds` and/or having all the `traits`.
+ */
+export interface PricingRule extends Partial<PricingTerms> {
+	tokenIds?: string[];
+	traits?: { [type: string]: string };
+}
+
+/**
+ * Config of the bundle offers of a lender, the first rule matching a token gives each of its terms,
+ * then `default`.
+ */
+export interface BundleConfig {
+	/** Original collection (default: the only registered one) */
+	collection?: string;
+	/** ERC20 of the upfront fees, required when a fee isn't zero */
+	feeToken?: string;
+	maxBundleSize: number;
+	/** Validity of the offers in seconds (default: 7 days) */
+	validity?: number;
+	default: PricingTerms;
+	rules: PricingRule[];
+	/** Traits of the tokens, by token ID */
+	traits: { [tokenId: string]: { [type: string]: string } };
+}
+
+export interface PricedToken {
+	tokenId: string;
+	duration: number;
+	basisPoints: number;
+	/** In the smallest unit of the fee token */
+	feeAmount: BigNumber;
+}
+
+export class InvalidBundleConfigError extends Error {
+	constructor(readonly problem: string) {
+		super(`Invalid bundle config: ${problem}`);
+		this.name = "InvalidBundleConfigError";
+		Object.setPrototypeOf(this, InvalidBundleConfigError.prototype);
+	}
+}
+
+function checkTerms(terms: Partial<PricingTerms>, field: string): void {
+	const { duration, basisPoints, feeAmount } = terms;
+	if (duration !== undefined && (!Number.isInteger(duration) || duration <= 0)) {
+		throw new InvalidBundleConfigError(`"${field}.duration" must be a positive number of seconds`);
+	}
+	if (
+		basisPoints !== undefined &&
+		(!Number.isInteger(basisPoints) || basisPoints < 0 || basisPoints > MAX_BASIS_POINTS)
+	) {
+		throw new InvalidBundleConfigError(`"${field}.basisPoints" must be between 0 and ${MAX_BASIS_POINTS}`);
+	}
+	if (feeAmount !== undefined && (typeof feeAmount !== "string" || !/^\d+(\.\d+)?$/.test(feeAmount))) {
+		throw new InvalidBundleConfigError(`"${field}.feeAmount" must be a decimal string such as "1.5"`);
+	}
+}
+
+/**
+ * @throws InvalidBundleConfigError when a field is missing or malformed
+ */
+export function parseBundleConfig(json: Partial<BundleConfig>): BundleConfig {
+	const address = (value: string | undefined, field: string) => {
+		if (value !== undefined && !utils.isAddress(value)) {
+			throw new InvalidBundleConfigError(`"${field}" isn't an address`);
+		}
+		return value && utils.getAddress(value);
+	};
+	if (!Number.isInteger(json.maxBundleSize) || (json.maxBundleSize as number) <= 0) {
+		throw new InvalidBundleConfigError(`"maxBundleSize" must be a positive integer`);
+	}
+	if (json.validity !== undefined && (!Number.isInteger(json.validity) || json.validity <= 0)) {
+		throw new InvalidBundleConfigError(`"validity" must be a positive number of seconds`);
+	}
+	const defaults = { feeAmount: "0", ...json.default } as PricingTerms;
+	if (defaults.duration === undefined || defaults.basisPoints === undefined) {
+		throw new InvalidBundleConfigError(`"default" needs a duration and basisPoints`);
+	}
+	checkTerms(defaults, "default");
+	const rules = json.rules ?? [];
+	rules.forEach((rule, i) => {
+		if (!rule.tokenIds && !rule.traits) {
+			throw new InvalidBundleConfigError(`"rules[${i}]" needs tokenIds or traits`);
+		}
+		checkTerms(rule, `rules[${i}]`);
+	});
+
+	const config: BundleConfig = {
+		collection: address(json.collection, "collection"),
+		feeToken: address(json.feeToken, "feeToken"),
+		maxBundleSize: json.maxBundleSize as number,
+		validity: json.validity,
+		default: defaults,
+		rules,
+		traits: json.traits ?? {},
+	};
+	const fees = [defaults.feeAmount].concat(rules.map((rule) => rule.feeAmount ?? "0"));
+	if (!config.feeToken && fees.some((fee) => Number(fee) !== 0)) {
+		throw new InvalidBundleConfigError(`"feeToken" is required for upfront fees`);
+	}
+	return config;
+}
+
+function ruleMatches(rule: PricingRule, tokenId: string, traits: { [type: string]: string } = {}): boolean {
+	const types = Object.keys(rule.traits ?? {});
+	return (
+		(!rule.tokenIds || rule.tokenIds.indexOf(tokenId) !== -1) &&
+		types.every((type) => traits[type] === (rule.traits as { [type: string]: string })[type])
+	);
+}
+
+/**
+ * Terms of `tokenId`, `feeDecimals` being the decimals of the fee token.
+ */
+export function priceToken(config: BundleConfig, tokenId: string, feeDecimals = 18): PricedToken {
+	const matching = config.rules.filter((rule) => ruleMatches(rule, tokenId, config.traits[tokenId]));
+	const term = <K extends keyof PricingTerms>(name: K): PricingTerms[K] => {
+		const rule = matching.find((r) => r[name] !== undefined);
+		return rule ? (rule[name] as PricingTerms[K]) : config.default[name];
+	};
+	return {
+		tokenId,
+		duration: term("duration"),
+		basisPoints: term("basisPoints"),
+		feeAmount: utils.parseUnits(term("feeAmount"), feeDecimals),
+	};
+}
+
+/**
+ * Group the priced tokens of `token` by increasing token ID into offers of `maxBundleSize` NFTs at
+ * most, the upfront fee of an offer being the sum of the fees of its tokens.
+ */
+export function buildBundles(token: string, tokens: PricedToken[], config: BundleConfig): RentalOfferParams[] {
+	const sorted = tokens.slice().sort((a, b) => {
+		const diff = BigNumber.from(a.tokenId).sub(b.tokenId);
+		return diff.isZero() ? 0 : diff.isNegative() ? -1 : 1;
+	});
+	const bundles: RentalOfferParams[] = [];
+	for (let i = 0; i < sorted.length; i += config.maxBundleSize) {
+		const bundle = sorted.slice(i, i + config.maxBundleSize);
+		bundles.push({
+			nfts: bundle.map(({ tokenId, duration, basisPoints }) => ({ token, tokenId, duration, basisPoints })),
+			feeToken: config.feeToken,
+			feeAmount: bundle.reduce((sum, { feeAmount }) => sum.add(feeAmount), BigNumber.from(0)),
+		});
+	}
+	return bundles;
+}
@@ -0,0 +1,345 @@
+import { utils } from "ethers";
+
+/**
+ * Error raised by a call to the rental protocol or its rental NFTs, decoded from its revert reason
+ * (see `decodeRentalError`).
+ */
+export class RentalError extends Error {
+	constructor(readonly code: RentalErrorCode, message: string, readonly reason: string) {
+		super(message);
+		this.name = "RentalError";
+		Object.setPrototypeOf(this, RentalError.prototype);
+	}
+}
+
+/** The offer can't be pre-signed or rented */
+export class OfferRejectedError extends RentalError {
+	constructor(code: RentalErrorCode, message: string, reason: string) {
+		super(code, message, reason);
+		this.name = "OfferRejectedError";
+		Object.setPrototypeOf(this, OfferRejectedError.prototype);
+	}
+}
+
+/** The sender isn't allowed to make the call */
+export class UnauthorizedError extends RentalError {
+	/** Missing role and account, for `AccessControl` errors */
+	role?: string;
+	account?: string;
+
+	constructor(code: RentalErrorCode, message: string, reason: string) {
+		super(code, message, reason);
+		this.name = "UnauthorizedError";
+		Object.setPrototypeOf(this, UnauthorizedError.prototype);
+	}
+}
+
+/** The rental, sublet or contract isn't in the state needed by the call */
+export class RentalStateError extends RentalError {
+	constructor(code: RentalErrorCode, message: string, reason: string) {
+		super(code, message, reason);
+		this.name = "RentalStateError";
+		Object.setPrototypeOf(this, RentalStateError.prototype);
+	}
+}
+
+/** The rental protocol is paused, or isn't when unpausing it */
+export class PausedError extends RentalError {
+	constructor(code: RentalErrorCode, message: string, reason: string) {
+		super(code, message, reason);
+		this.name = "PausedError";
+		Object.setPrototypeOf(this, PausedError.prototype);
+	}
+}
+
+/** A transfer of original NFTs, rental NFTs or ERC20 tokens failed */
+export class TokenTransferError extends RentalError {
+	constructor(code: RentalErrorCode, message: string, reason: string) {
+		super(code, message, reason);
+		this.name = "TokenTransferError";
+		Object.setPrototypeOf(this, TokenTransferError.prototype);
+	}
+}
+
+/** Revert reason missing from `REVERT_REASONS` */
+export class UnknownRevertError extends RentalError {
+	constructor(code: RentalErrorCode, message: string, reason: string) {
+		super(code, message, reason);
+		this.name = "UnknownRevertError";
+		Object.setPrototypeOf(this, UnknownRevertError.prototype);
+	}
+}
+
+/** Error code of a `RentalError`, `UNKNOWN` for reasons missing from `REVERT_REASONS` */
+export type RentalErrorCode =
+	| "MAKER_MISMATCH"
+	| "PRESIGNED_OFFER_NOT_FOUND"
+	| "SIGNER_NOT_MAKER"
+	| "UNSUPPORTED_SIGNATURE_TYPE"
+	| "NONCE_USED"
+	| "OFFER_EXPIRED"
+	| "PRIVATE_RENTAL"
+	| "BASIS_POINTS_TOO_HIGH"
+	| "INVALID_SIGNATURE"
+	| "FORBIDDEN"
+	| "ONLY_LENDER_OR_TENANT"
+	| "ONLY_SUBLENDER_OR_LENDER"
+	| "ONLY_SUBLENDER"
+	| "ONLY_TENANT"
+	| "MISSING_ROLE"
+	| "RENOUNCE_FOR_SELF"
+	| "NOT_OWNER_NOR_APPROVED"
+	| "RENTAL_NOT_ENDED"
+	| "SUBLET_NOT_ENDED"
+	| "NO_SUBLET"
+	| "ALREADY_SUBLET"
+	| "NO_PREMATURE_END_REQUEST"
+	| "REWARDS_NOT_RECEIVED"
+	| "ALREADY_INITIALIZED"
+	| "NOT_INITIALIZING"
+	| "REENTRANT_CALL"
+	| "PAUSED"
+	| "NOT_PAUSED"
+	| "NFT_NOT_APPROVED"
+	| "NFT_NOT_OWNED"
+	| "NFT_NOT_FOUND"
+	| "NFT_ALREADY_MINTED"
+	| "TRANSFER_TO_ZERO"
+	| "NOT_ERC721_RECEIVER"
+	| "INSUFFICIENT_ALLOWANCE"
+	| "INSUFFICIENT_BALANCE"
+	| "ERC20_TRANSFER_FAILED"
+	| "NOT_A_CONTRACT"
+	| "UNKNOWN";
+
+interface RevertReasonDefinition {
+	code: RentalErrorCode;
+	error: RentalErrorClass;
+	message: string;
+}
+
+type RentalErrorClass = new (code: RentalErrorCode, message: string, reason: string) => RentalError;
+
+function define(code: RentalErrorCode, error: RentalErrorClass, message: string): RevertReasonDefinition {
+	return { code, error, message };
+}
+
+/**
+ * Every revert reason of `RentalProtocol`, `LentNFT`, `BorrowedNFT` and `SubLentNFT`, and of the
+ * OpenZeppelin contracts they rely on, with their error code and a human readable message.
+ */
+export const REVERT_REASONS = {
+	// offers
+	"Signer and Maker mismatch": define("MAKER_MISMATCH", OfferRejectedError, "Only the maker can pre-sign its offer"),
+	"Presigned offer not found": define(
+		"PRESIGNED_OFFER_NOT_FOUND",
+		OfferRejectedError,
+		"The offer hasn't been pre-signed by its maker"
+	),
+	"Signer is not maker": define("SIGNER_NOT_MAKER", OfferRejectedError, "The offer isn't signed by its maker"),
+	"Unsupported signature type": define(
+		"UNSUPPORTED_SIGNATURE_TYPE",
+		OfferRejectedError,
+		"Only pre-signed and EIP-712 signed offers are supported"
+	),
+	"cancelled or filled offer": define(
+		"NONCE_USED",
+		OfferRejectedError,
+		"The offer has been cancelled or already filled"
+	),
+	"Offer deadline": define("OFFER_EXPIRED", OfferRejectedError, "The offer deadline has passed"),
+	"Private rental": define("PRIVATE_RENTAL", OfferRejectedError, "The offer is reserved to another tenant"),
+	"No more than 100% rewards": define(
+		"BASIS_POINTS_TOO_HIGH",
+		OfferRejectedError,
+		"Rewards basis points can't exceed 10000 (100%)"
+	),
+	"ECDSA: invalid signature": define("INVALID_SIGNATURE", OfferRejectedError, "The offer signature is invalid"),
+	"ECDSA: invalid signature length": define("INVALID_SIGNATURE", OfferRejectedError, "The offer signature is invalid"),
+	"ECDSA: invalid signature 's' value": define(
+		"INVALID_SIGNATURE",
+		OfferRejectedError,
+		"The offer signature is invalid"
+	),
+	"ECDSA: invalid signature 'v' value": define(
+		"INVALID_SIGNATURE",
+		OfferRejectedError,
+		"The offer signature is invalid"
+	),
+
+	// permissions
+	Forbidden: define(
+		"FORBIDDEN",
+		UnauthorizedError,
+		"Only the rental protocol can mint and burn rental NFTs, and a premature end request must be accepted by the other party"
+	),
+	"Only lender or tenant": define(
+		"ONLY_LENDER_OR_TENANT",
+		UnauthorizedError,
+		"Only the lender or the tenant can end the rental"
+	),
+	"Only sublender or lender": define(
+		"ONLY_SUBLENDER_OR_LENDER",
+		UnauthorizedError,
+		"Only the lender or the sublender can end a sublet rental"
+	),
+	"Only sub lender": define("ONLY_SUBLENDER", UnauthorizedError, "Only the sublender can end the sublet"),
+	"Only tenant can sublet": define("ONLY_TENANT", UnauthorizedError, "Only the tenant can sublet the rental"),
+	"AccessControl: account <account> is missing role <role>": define(
+		"MISSING_ROLE",
+		UnauthorizedError,
+		"The sender doesn't have the role needed"
+	),
+	"AccessControl: can only renounce roles for self": define(
+		"RENOUNCE_FOR_SELF",
+		UnauthorizedError,
+		"Roles can only be renounced by their holder"
+	),
+	"ERC721Burnable: caller is not owner nor approved": define(
+		"NOT_OWNER_NOR_APPROVED",
+		UnauthorizedError,
+		"The sender isn't the owner of the NFT nor approved"
+	),
+
+	// rentals
+	"Rental hasn't ended": define("RENTAL_NOT_ENDED", RentalStateError, "The rental hasn't ended yet"),
+	"Sublet not ended": define("SUBLET_NOT_ENDED", RentalStateError, "The sublet must end first"),
+	"No sublet": define("NO_SUBLET", RentalStateError, "The rental isn't sublet"),
+	"Can't sublet more than once": define("ALREADY_SUBLET", RentalStateError, "The rental is already sublet"),
+	"No previous request": define(
+		"NO_PREMATURE_END_REQUEST",
+		RentalStateError,
+		"No request to end the rental prematurely"
+	),
+	"Didn't receive enough ERC20": define(
+		"REWARDS_NOT_RECEIVED",
+		RentalStateError,
+		"The rewards must be transferred to the borrowed NFT before being distributed"
+	),
+	"Initializable: contract is already initialized": define(
+		"ALREADY_INITIALIZED",
+		RentalStateError,
+		"The contract is already initialized"
+	),
+	"Initializable: contract is not initializing": define(
+		"NOT_INITIALIZING",
+		RentalStateError,
+		"The contract isn't initializing"
+	),
+	"ReentrancyGuard: reentrant call": define("REENTRANT_CALL", RentalStateError, "Reentrant calls are forbidden"),
+
+	// pause
+	"Pausable: paused": define("PAUSED", PausedError, "The rental protocol is paused"),
+	"Rental paused": define("PAUSED", PausedError, "The rental protocol is paused, rental NFTs can't be transferred"),
+	"Pausable: not paused": define("NOT_PAUSED", PausedError, "The rental protocol isn't paused"),
+
+	// tokens
+	"ERC721: transfer caller is not owner nor approved": define(
+		"NFT_NOT_APPROVED",
+		TokenTransferError,
+		"The rental protocol isn't approved to transfer the NFT"
+	),
+	"ERC721: transfer from incorrect owner": define(
+		"NFT_NOT_OWNED",
+		TokenTransferError,
+		"The NFT isn't owned by its sender"
+	),
+	"ERC721: owner query for nonexistent token": define("NFT_NOT_FOUND", TokenTransferError, "The NFT doesn't exist"),
+	"ERC721: operator query for nonexistent token": define("NFT_NOT_FOUND", TokenTransferError, "The NFT doesn't exist"),
+	"ERC721: approved query for nonexistent token": define("NFT_NOT_FOUND", TokenTransferError, "The NFT doesn't exist"),
+	"ERC721Metadata: URI query for nonexistent token": define(
+		"NFT_NOT_FOUND",
+		TokenTransferError,
+		"The NFT doesn't exist"
+	),
+	"ERC721: token already minted": define("NFT_ALREADY_MINTED", TokenTransferError, "The rental NFT already exists"),
+	"ERC721: mint to the zero address": define("TRANSFER_TO_ZERO", TokenTransferError, "NFTs can't be sent to address 0"),
+	"ERC721: transfer to the zero address": define(
+		"TRANSFER_TO_ZERO",
+		TokenTransferError,
+		"NFTs can't be sent to address 0"
+	),
+	"ERC721: transfer to non ERC721Receiver implementer": define(
+		"NOT_ERC721_RECEIVER",
+		TokenTransferError,
+		"The recipient contract can't receive NFTs"
+	),
+	"ERC20: insufficient allowance": define(
+		"INSUFFICIENT_ALLOWANCE",
+		TokenTransferError,
+		"The rental protocol isn't allowed to transfer enough tokens"
+	),
+	"ERC20: transfer amount exceeds balance": define("INSUFFICIENT_BALANCE", TokenTransferError, "Not enough tokens"),
+	"SafeERC20: ERC20 operation did not succeed": define(
+		"ERC20_TRANSFER_FAILED",
+		TokenTransferError,
+		"The token transfer failed"
+	),
+	"Address: call to non-contract": define("NOT_A_CONTRACT", TokenTransferError, "The token isn't a contract"),
+};
+
+export type RevertReason = keyof typeof REVERT_REASONS;
+
+const ERROR_SELECTOR = utils.id("Error(string)").slice(0, 10);
+const ACCESS_CONTROL_REASON = /^AccessControl: account (0x[0-9a-fA-F]{40}) is missing role (0x[0-9a-fA-F]{64})$/;
+const MESSAGE_REASONS = [
+	/reverted with reason string '(.*)'$/,
+	/execution reverted: (.*)$/,
+	/VM Exception while processing transaction: revert (.*)$/,
+];
+
+/**
+ * Find the revert reason of an ethers error, whether raised by a call, a gas estimation or a
+ * transaction, including the nested errors of JSON-RPC providers.
+ * @returns `undefined` when `err` isn't a revert with a reason
+ */
+export function getRevertReason(err: unknown): string | undefined {
+	const errors: unknown[] = [err];
+	for (let i = 0; i < errors.length && i < 10; i++) {
+		const error = errors[i] as { reason?: unknown; data?: unknown; message?: unknown; error?: unknown } | undefined;
+		if (!error || typeof error !== "object") {
+			continue;
+		}
+		// raw revert data, a `Error(string)` selector followed by the reason
+		const data = typeof error.data === "string" ? error.data : (error.data as { data?: unknown })?.data;
+		if (typeof data === "string" && data.startsWith(ERROR_SELECTOR)) {
+			return utils.defaultAbiCoder.decode(["string"], utils.hexDataSlice(data, 4))[0];
+		}
+		if (typeof error.message === "string") {
+			for (const pattern of MESSAGE_REASONS) {
+				const match = error.message.match(pattern);
+				if (match) {
+					return match[1];
+				}
+			}
+		}
+		errors.push(error.error, error.data);
+	}
+	const reason = (err as { reason?: unknown } | undefined)?.reason;
+	// ethers reasons of reverts without data aren't revert reasons
+	return typeof reason === "string" && !reason.startsWith("missing revert data") ? reason : undefined;
+}
+
+/**
+ * Turn an ethers error, or a revert reason, into the `RentalError` of its revert reason.
+ * @returns `undefined` when `err` isn't a revert with a reason (e.g. a network error)
+ */
+export function decodeRentalError(err: unknown): RentalError | undefined {
+	const reason = typeof err === "string" ? err : getRevertReason(err);
+	if (reason === undefined) {
+		return undefined;
+	}
+
+	const accessControl = reason.match(ACCESS_CONTROL_REASON);
+	const key = (accessControl ? "AccessControl: account <account> is missing role <role>" : reason) as RevertReason;
+	const definition = REVERT_REASONS[key];
+	if (!definition) {
+		return new UnknownRevertError("UNKNOWN", reason, reason);
+	}
+	const error = new definition.error(definition.code, definition.message, reason);
+	if (accessControl && error instanceof UnauthorizedError) {
+		error.account = utils.getAddress(accessControl[1]);
+		error.role = accessControl[2];
+	}
+	return error;
+}
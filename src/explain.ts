@@ -0,0 +1,314 @@
+import { BigNumber, providers, utils } from "ethers";
+import {
+	BorrowedNFT__factory,
+	IERC20Metadata__factory,
+	IERC721Metadata__factory,
+	LentNFT__factory,
+	RentalProtocol__factory,
+} from "../artifacts/typechain";
+import { RentalError, decodeRentalError, getRevertReason } from "./errors";
+import type { RentalClient } from "./RentalClient";
+import { ZERO_ADDRESS } from "./types";
+
+/**
+ * Kind of the contract emitting a log, `ERC721` and `ERC20` being any other token.
+ */
+export type ExplainedContract =
+	| "RentalProtocol"
+	| "LentNFT"
+	| "BorrowedNFT"
+	| "SubLentNFT"
+	| "ERC721"
+	| "ERC20"
+	| "unknown";
+
+export interface TimelineEntry {
+	logIndex: number;
+	address: string;
+	contract: ExplainedContract;
+	/** Event name, or the first topic of an unknown event */
+	event: string;
+	description: string;
+}
+
+export interface TransactionExplanation {
+	hash: string;
+	from: string;
+	to?: string;
+	blockNumber: number;
+	status: "success" | "reverted";
+	/** Every log of the transaction, in order */
+	timeline: TimelineEntry[];
+	/** Revert reason of a reverted transaction replayed on the state of the previous block */
+	revertReason?: string;
+	revertError?: RentalError;
+}
+
+interface ContractInfo {
+	kind: ExplainedContract;
+	/** Token symbol, or the rental NFT name */
+	symbol: string;
+	decimals: number;
+}
+
+const PROTOCOL_INTERFACE = RentalProtocol__factory.createInterface();
+const BORROWED_NFT_INTERFACE = BorrowedNFT__factory.createInterface();
+const ERC721_INTERFACE = IERC721Metadata__factory.createInterface();
+const ERC20_INTERFACE = IERC20Metadata__factory.createInterface();
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Decodes the logs of a transaction into sentences, naming the addresses after their role in the
+ * rentals of the transaction.
+ */
+class TimelineBuilder {
+	private readonly contracts = new Map<string, Promise<ContractInfo>>();
+	private readonly roles = new Map<string, string>();
+
+	constructor(readonly client: RentalClient, readonly provider: providers.Provider) {
+		this.roles.set(client.address.toLowerCase(), "rental protocol");
+	}
+
+	setRole(address: string, role: string): void {
+		if (!this.roles.has(address.toLowerCase())) {
+			this.roles.set(address.toLowerCase(), role);
+		}
+	}
+
+	label(address: string): string {
+		const role = this.roles.get(address.toLowerCase());
+		return role ? `${role} "${address}"` : `"${address}"`;
+	}
+
+	contract(address: string, log?: providers.Log): Promise<ContractInfo> {
+		let info = this.contracts.get(address.toLowerCase());
+		if (!info) {
+			info = this.identify(address, log);
+			this.contracts.set(address.toLowerCase(), info);
+		}
+		return info;
+	}
+
+	async nft(token: string, tokenId: BigNumber | string): Promise<string> {
+		return `${(await this.contract(token)).symbol} #${tokenId}`;
+	}
+
+	async amount(token: string, amount: BigNumber | string): Promise<string> {
+		const { symbol, decimals } = await this.contract(token);
+		return `${utils.formatUnits(amount, decimals)} ${symbol}`.trim();
+	}
+
+	async describe(log: providers.Log): Promise<TimelineEntry> {
+		const { kind } = await this.contract(log.address, log);
+		const entry = { logIndex: log.logIndex, address: log.address, contract: kind };
+		const iface =
+			kind === "RentalProtocol"
+				? PROTOCOL_INTERFACE
+				: kind === "BorrowedNFT"
+				? BORROWED_NFT_INTERFACE
+				: kind === "ERC20"
+				? ERC20_INTERFACE
+				: ERC721_INTERFACE;
+		const unknown = { ...entry, event: log.topics[0], description: `unknown event of ${this.label(log.address)}` };
+		if (kind === "unknown") {
+			return unknown;
+		}
+		let parsed: utils.LogDescription;
+		try {
+			parsed = iface.parseLog(log);
+		} catch (err: unknown) {
+			return unknown;
+		}
+		return { ...entry, event: parsed.name, description: await this.describeEvent(log.address, kind, parsed) };
+	}
+
+	private async describeEvent(address: string, kind: ExplainedContract, event: utils.LogDescription): Promise<string> {
+		const { args } = event;
+		const label = (name: string) => this.label(args[name]);
+		const share = (basisPoints: number) => `${basisPoints / 100}%`;
+		switch (`${kind === "RentalProtocol" ? "" : kind === "ERC20" ? "ERC20." : "ERC721."}${event.name}`) {
+			case "RentalOfferCreated": {
+				const fee = args.feeAmount.isZero()
+					? "no upfront fee"
+					: `${await this.amount(args.feeToken, args.feeAmount)} upfront`;
+				return `${label("maker")} pre-signed offer ${args.nonce} of ${args.nfts.length} NFT(s), ${fee}`;
+			}
+			case "RentalOfferCancelled":
+				return `${label("maker")} cancelled offer ${args.nonce}`;
+			case "RentalStarted": {
+				const end = new Date(args.end.toNumber() * 1000).toISOString();
+				return (
+					`${label("tenant")} rented ${await this.nft(args.token, args.tokenId)} from ${label("lender")} until ` +
+					`${end}, ${share(args.basisPoints)} of the rewards to the lender`
+				);
+			}
+			case "RentalEnded":
+				return `rental of ${await this.nft(args.token, args.tokenId)} by ${label("tenant")} ended`;
+			case "SubletStarted":
+				return (
+					`${label("lender")} sublet ${await this.nft(args.token, args.tokenId)} to ${label("tenant")}, ` +
+					`${share(args.basisPoints)} of the rewards to the tenant`
+				);
+			case "SubletEnded":
+				return `sublet of ${await this.nft(args.token, args.tokenId)} to ${label("tenant")} ended`;
+			case "RequestToEndRentalPrematurely": {
+				const nft = await this.nft(args.token, args.tokenId);
+				return `${label("requester")} requested to end the rental of ${nft} prematurely`;
+			}
+			case "AssociatedNFTs":
+				return (
+					`${label("originalNFT")} associated to LentNFT ${label("lentNFT")}, BorrowedNFT ${label("borrowedNFT")} ` +
+					`and SubLentNFT ${label("subLentNFT")}`
+				);
+			case "ERC721.RewardsDistributed": {
+				const amount = await this.amount(args.token, args.amount);
+				return `${amount} rewards of BorrowedNFT #${args.tokenId} distributed to ${label("recipient")}`;
+			}
+			case "ERC721.Transfer": {
+				const nft = await this.nft(address, args.tokenId);
+				if (kind === "ERC721" && sameAddress(args.to, this.client.address)) {
+					return `original ${nft} moved into escrow from ${label("from")}`;
+				}
+				if (kind === "ERC721" && sameAddress(args.from, this.client.address)) {
+					return `original ${nft} released from escrow to ${label("to")}`;
+				}
+				if (args.from === ZERO_ADDRESS) {
+					return `${nft} minted to ${label("to")}`;
+				}
+				if (args.to === ZERO_ADDRESS) {
+					return `${nft} burned from ${label("from")}`;
+				}
+				return `${nft} transferred from ${label("from")} to ${label("to")}`;
+			}
+			case "ERC721.Approval": {
+				const nft = await this.nft(address, args.tokenId);
+				return args.approved === ZERO_ADDRESS
+					? `approval of ${nft} cleared`
+					: `${label("owner")} approved ${label("approved")} for ${nft}`;
+			}
+			case "ERC721.ApprovalForAll": {
+				const { symbol } = await this.contract(address);
+				return `${label("owner")} ${args.approved ? "approved" : "revoked"} ${label("operator")} for every ${symbol}`;
+			}
+			case "ERC20.Transfer": {
+				const amount = await this.amount(address, args.value);
+				if (args.from === ZERO_ADDRESS) {
+					return `${amount} minted to ${label("to")}`;
+				}
+				if (args.to === ZERO_ADDRESS) {
+					return `${amount} burned from ${label("from")}`;
+				}
+				const fee = this.roles.get(args.to.toLowerCase()) === "fees collector" ? " protocol fee" : "";
+				return `${label("from")} paid ${amount}${fee} to ${label("to")}`;
+			}
+			case "ERC20.Approval":
+				return `${label("owner")} allowance of ${label("spender")} set to ${await this.amount(address, args.value)}`;
+			default: {
+				const values = event.eventFragment.inputs.map((input, i) => `${input.name}: ${String(args[i])}`);
+				return `${event.name}(${values.join(", ")})`;
+			}
+		}
+	}
+
+	private async identify(address: string, log?: providers.Log): Promise<ContractInfo> {
+		if (sameAddress(address, this.client.address)) {
+			return { kind: "RentalProtocol", symbol: "", decimals: 0 };
+		}
+		// rental NFTs know their protocol and original collection
+		const rentalNFT = LentNFT__factory.connect(address, this.provider);
+		const rental = await Promise.all([rentalNFT.rentalProtocol(), rentalNFT.originalNFT()]).catch(() => undefined);
+		const nfts =
+			rental && sameAddress(rental[0], this.client.address) ? await this.client.getRentalNFTs(rental[1]) : undefined;
+		if (nfts) {
+			const kinds = [
+				["LentNFT", nfts.lentNFT.address],
+				["BorrowedNFT", nfts.borrowedNFT.address],
+				["SubLentNFT", nfts.subLentNFT.address],
+			] as const;
+			const kind = kinds.find(([, nft]) => sameAddress(nft, address))?.[0];
+			if (kind) {
+				return { kind, symbol: kind, decimals: 0 };
+			}
+		}
+		// only ERC20 have decimals, ERC721 index the token ID of their `Transfer` and `Approval` events
+		const token = IERC20Metadata__factory.connect(address, this.provider);
+		const [symbol, decimals] = await Promise.all([
+			token.symbol().catch(() => undefined),
+			token.decimals().catch(() => undefined),
+		]);
+		if (decimals !== undefined) {
+			return { kind: "ERC20", symbol: symbol ?? "", decimals };
+		}
+		if (symbol !== undefined || log?.topics.length === 4) {
+			return { kind: "ERC721", symbol: symbol || "NFT", decimals: 0 };
+		}
+		return { kind: "unknown", symbol: "", decimals: 0 };
+	}
+}
+
+/**
+ * Decode the logs of the transaction `hash` into a human-readable timeline: protocol events, rental
+ * NFTs and original NFTs moves, fee and rewards payments. Reverted transactions are replayed to find
+ * their revert reason.
+ * @throws when the transaction isn't mined
+ */
+export async function explainTransaction(client: RentalClient, hash: string): Promise<TransactionExplanation> {
+	const { provider } = client.protocol;
+	const [receipt, tx] = await Promise.all([provider.getTransactionReceipt(hash), provider.getTransaction(hash)]);
+	if (!receipt || !tx) {
+		throw new Error(`Transaction "${hash}" not found or not mined yet`);
+	}
+
+	const builder = new TimelineBuilder(client, provider);
+	// name the parties after their first role in the transaction
+	for (const log of receipt.logs) {
+		if (!sameAddress(log.address, client.address)) {
+			continue;
+		}
+		let name: string, args: utils.Result;
+		try {
+			({ name, args } = PROTOCOL_INTERFACE.parseLog(log));
+		} catch (err: unknown) {
+			// e.g. an event of the proxy
+			continue;
+		}
+		if (name === "RentalStarted" || name === "RentalEnded") {
+			builder.setRole(args.lender, "lender");
+			builder.setRole(args.tenant, "tenant");
+		} else if (name === "SubletStarted" || name === "SubletEnded") {
+			builder.setRole(args.lender, "tenant");
+			builder.setRole(args.tenant, "subtenant");
+		} else if (name === "RentalOfferCreated" || name === "RentalOfferCancelled") {
+			builder.setRole(args.maker, "maker");
+		}
+	}
+	const feesCollector = await client.protocol
+		.feesCollector({ blockTag: receipt.blockNumber })
+		.catch(() => client.protocol.feesCollector());
+	builder.setRole(feesCollector, "fees collector");
+
+	const timeline: TimelineEntry[] = [];
+	for (const log of receipt.logs.slice().sort((a, b) => a.logIndex - b.logIndex)) {
+		timeline.push(await builder.describe(log));
+	}
+	const explanation: TransactionExplanation = {
+		hash,
+		from: tx.from,
+		to: tx.to,
+		blockNumber: receipt.blockNumber,
+		status: receipt.status === 0 ? "reverted" : "success",
+		timeline,
+	};
+
+	if (receipt.status === 0) {
+		const { from, to, data, value, gasLimit } = tx;
+		try {
+			await provider.call({ from, to, data, value, gasLimit }, receipt.blockNumber - 1);
+		} catch (err: unknown) {
+			explanation.revertReason = getRevertReason(err);
+			explanation.revertError = decodeRentalError(err);
+		}
+	}
+	return explanation;
+}
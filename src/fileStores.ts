@@ -0,0 +1,133 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { IndexedEvent } from "./indexer/events";
+import { IndexerCheckpoint, IndexerSnapshot, IndexerStore } from "./indexer/store";
+import { NonceRecord, NonceStore } from "./nonces";
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+	try {
+		return JSON.parse(await fs.readFile(path, "utf8"));
+	} catch (err: unknown) {
+		if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+			return undefined;
+		}
+		throw err;
+	}
+}
+
+/**
+ * Write `value` as JSON to `path`, creating its directory if needed.
+ */
+export async function writeJson(path: string, value: unknown, space?: string | number): Promise<void> {
+	// write then rename so that a crash never leaves a truncated file behind
+	const tmp = `${path}.tmp`;
+	await fs.mkdir(dirname(path), { recursive: true });
+	await fs.writeFile(tmp, JSON.stringify(value, null, space) + "\n");
+	await fs.rename(tmp, path);
+}
+
+/**
+ * Checkpoint file of a `JsonFileStore`.
+ */
+interface StoredCheckpoint extends IndexerCheckpoint {
+	/** Length of the events log covered by the checkpoint, in bytes */
+	eventsLength: number;
+}
+
+/**
+ * Truncate the file at `path` to `length` bytes, if it exists.
+ */
+async function truncate(path: string, length: number): Promise<void> {
+	try {
+		await fs.truncate(path, length);
+	} catch (err: unknown) {
+		if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+			throw err;
+		}
+	}
+}
+
+/**
+ * Store persisting the indexer checkpoint as a JSON file, and the indexed events in the append-only
+ * `<path>.events` log, one JSON event per line. The checkpoint is written after the events of its
+ * batch: the events of an interrupted or failed batch are past the checkpoint length, and dropped on
+ * load or by the next append.
+ */
+export class JsonFileStore implements IndexerStore {
+	readonly eventsPath: string;
+	/** Block of each logged event, with the log length up to its end */
+	private logged: { blockNumber: number; end: number }[] = [];
+
+	constructor(readonly path: string) {
+		this.eventsPath = `${path}.events`;
+	}
+
+	async load(): Promise<IndexerSnapshot | undefined> {
+		const stored = await readJson<StoredCheckpoint>(this.path);
+		await truncate(this.eventsPath, stored?.eventsLength ?? 0);
+		this.logged = [];
+		if (!stored) {
+			return undefined;
+		}
+		const { eventsLength, ...checkpoint } = stored;
+
+		const events: IndexedEvent[] = [];
+		const log = eventsLength > 0 ? await fs.readFile(this.eventsPath, "utf8") : "";
+		let end = 0;
+		for (const line of log.split("\n").filter((line) => line !== "")) {
+			const event: IndexedEvent = JSON.parse(line);
+			end += Buffer.byteLength(line) + 1;
+			events.push(event);
+			this.logged.push({ blockNumber: event.blockNumber, end });
+		}
+		return { ...checkpoint, events };
+	}
+
+	async append(events: IndexedEvent[], checkpoint: IndexerCheckpoint): Promise<void> {
+		const lines = events.map((event) => `${JSON.stringify(event)}\n`);
+		const logged: { blockNumber: number; end: number }[] = [];
+		let end = this.eventsLength;
+		events.forEach((event, i) => {
+			end += Buffer.byteLength(lines[i]);
+			logged.push({ blockNumber: event.blockNumber, end });
+		});
+		// drop what a failed append may have written past the stored checkpoint
+		await truncate(this.eventsPath, this.eventsLength);
+		if (events.length > 0) {
+			await fs.appendFile(this.eventsPath, lines.join(""));
+		}
+		await this.saveCheckpoint(checkpoint, end);
+		this.logged.push(...logged);
+	}
+
+	async rollback(checkpoint: IndexerCheckpoint): Promise<void> {
+		this.logged = this.logged.filter((event) => event.blockNumber <= checkpoint.checkpoint);
+		// the events past the new checkpoint are dropped on load if the truncation is interrupted
+		await this.saveCheckpoint(checkpoint, this.eventsLength);
+		await truncate(this.eventsPath, this.eventsLength);
+	}
+
+	private get eventsLength(): number {
+		return this.logged.length > 0 ? this.logged[this.logged.length - 1].end : 0;
+	}
+
+	private saveCheckpoint(checkpoint: IndexerCheckpoint, eventsLength: number): Promise<void> {
+		const stored: StoredCheckpoint = { ...checkpoint, eventsLength };
+		return writeJson(this.path, stored);
+	}
+}
+
+/**
+ * Store persisting the nonce record as a JSON file, to be kept along with the signing key.
+ */
+export class JsonFileNonceStore implements NonceStore {
+	constructor(readonly path: string) {}
+
+	load(): Promise<NonceRecord | undefined> {
+		return readJson(this.path);
+	}
+
+	save(record: NonceRecord): Promise<void> {
+		return writeJson(this.path, record, 2);
+	}
+}
@@ -0,0 +1,13 @@
+export * from "../artifacts/typechain";
+export * from "./types";
+export * from "./RentalClient";
+export * from "./signing";
+export * from "./offers";
+export * from "./bundles";
+export * from "./nonces";
+export * from "./rewards";
+export * from "./preflight";
+export * from "./errors";
+export * from "./metadata";
+export * from "./explain";
+export * from "./addresses";
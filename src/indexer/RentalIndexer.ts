@@ -0,0 +1,215 @@
+import { BorrowedNFT__factory, RentalProtocol } from "../../artifacts/typechain";
+import { IndexedEvent, PROTOCOL_EVENTS, compareEvents, decodeEvent } from "./events";
+import { RentalState } from "./state";
+import { IndexerCheckpoint, IndexerSnapshot, IndexerStore } from "./store";
+
+export interface IndexerOptions {
+	/** First block to index, usually the protocol deployment block (default: 0) */
+	startBlock?: number;
+	/** Blocks to wait for before indexing them, reduces the odds of reorgs (default: 0) */
+	confirmations?: number;
+	/** Maximum block range of a single `eth_getLogs` request (default: 2000) */
+	batchSize?: number;
+	/** How many blocks back reorgs are handled (default: 128) */
+	reorgDepth?: number;
+}
+
+export interface SyncResult {
+	fromBlock: number;
+	toBlock: number;
+	events: number;
+	/** Block the indexer rolled back to, if a reorg has been detected */
+	reorg?: number;
+}
+
+const BORROWED_NFT_INTERFACE = BorrowedNFT__factory.createInterface();
+const REWARDS_DISTRIBUTED_TOPIC = BORROWED_NFT_INTERFACE.getEventTopic("RewardsDistributed");
+
+function checkpointOf({ rentalProtocol, checkpoint, blockHashes }: IndexerSnapshot): IndexerCheckpoint {
+	return { rentalProtocol, checkpoint, blockHashes };
+}
+
+/**
+ * Index the rental protocol (and its `BorrowedNFT`s rewards) events into a `RentalState`.
+ *
+ * Progress is checkpointed in the `store` after each batch so that indexing resumes where it
+ * stopped. Reorganisations are detected by comparing the hashes of already indexed blocks with
+ * the current chain, in which case the indexer rolls back to the last common block.
+ */
+export class RentalIndexer {
+	state = new RentalState();
+	private snapshot?: IndexerSnapshot;
+	private readonly startBlock: number;
+	private readonly confirmations: number;
+	private readonly batchSize: number;
+	private readonly reorgDepth: number;
+	private timer?: NodeJS.Timeout;
+
+	constructor(readonly rp: RentalProtocol, readonly store: IndexerStore, options: IndexerOptions = {}) {
+		this.startBlock = options.startBlock ?? 0;
+		this.confirmations = options.confirmations ?? 0;
+		this.batchSize = options.batchSize ?? 2000;
+		this.reorgDepth = options.reorgDepth ?? 128;
+	}
+
+	/**
+	 * Last fully indexed block.
+	 */
+	get checkpoint(): number {
+		return this.snapshot?.checkpoint ?? this.startBlock - 1;
+	}
+
+	/**
+	 * Index every event up to the latest (confirmed) block.
+	 */
+	async sync(): Promise<SyncResult> {
+		const snapshot = await this.load();
+		const reorg = await this.handleReorg(snapshot);
+		const head = (await this.rp.provider.getBlockNumber()) - this.confirmations;
+		const fromBlock = snapshot.checkpoint + 1;
+		let events = 0;
+
+		for (let from = fromBlock; from <= head; from += this.batchSize) {
+			const to = Math.min(from + this.batchSize - 1, head);
+			const batch = await this.fetchEvents(from, to);
+			const block = await this.rp.provider.getBlock(to);
+
+			const blockHashes = { ...snapshot.blockHashes };
+			batch.forEach((event) => (blockHashes[event.blockNumber] = event.blockHash));
+			blockHashes[to] = block.hash;
+			this.pruneBlockHashes(blockHashes, to);
+			// the snapshot only moves past the batch once stored, a failed batch is fetched again by the next sync
+			await this.store.append(batch, { rentalProtocol: snapshot.rentalProtocol, checkpoint: to, blockHashes });
+			for (const event of batch) {
+				this.state.apply(event);
+				snapshot.events.push(event);
+			}
+			snapshot.blockHashes = blockHashes;
+			snapshot.checkpoint = to;
+			events += batch.length;
+		}
+
+		return { fromBlock, toBlock: snapshot.checkpoint, events, reorg };
+	}
+
+	/**
+	 * Keep syncing every `interval` milliseconds, until `stop` is called.
+	 * @param onError called with the errors of the failed syncs, which are retried at the next interval
+	 */
+	watch(interval: number, onError: (err: unknown) => void): void {
+		const loop = async () => {
+			try {
+				await this.sync();
+			} catch (err: unknown) {
+				onError(err);
+			}
+			if (this.timer) {
+				this.timer = setTimeout(loop, interval);
+			}
+		};
+		this.timer = setTimeout(loop, 0);
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+	}
+
+	private async load(): Promise<IndexerSnapshot> {
+		if (this.snapshot) {
+			return this.snapshot;
+		}
+
+		const stored = await this.store.load();
+		if (stored && stored.rentalProtocol.toLowerCase() !== this.rp.address.toLowerCase()) {
+			throw new Error(`Indexer store belongs to another rental protocol (${stored.rentalProtocol})`);
+		}
+		this.snapshot = stored ?? {
+			rentalProtocol: this.rp.address,
+			checkpoint: this.startBlock - 1,
+			blockHashes: {},
+			events: [],
+		};
+		this.rebuildState(this.snapshot);
+		return this.snapshot;
+	}
+
+	private rebuildState(snapshot: IndexerSnapshot) {
+		this.state = new RentalState();
+		snapshot.events.forEach((event) => this.state.apply(event));
+	}
+
+	/**
+	 * Roll back to the last indexed block still part of the chain, if any has been reorganised.
+	 * @returns the block rolled back to, `undefined` when there was no reorg
+	 */
+	private async handleReorg(snapshot: IndexerSnapshot): Promise<number | undefined> {
+		const blocks = Object.keys(snapshot.blockHashes)
+			.map(Number)
+			.sort((a, b) => b - a);
+		if (blocks.length === 0) {
+			return undefined;
+		}
+
+		let commonBlock = this.startBlock - 1;
+		for (const number of blocks) {
+			const block = await this.rp.provider.getBlock(number);
+			if (block && block.hash === snapshot.blockHashes[number]) {
+				commonBlock = number;
+				break;
+			}
+		}
+		if (commonBlock === snapshot.checkpoint) {
+			return undefined;
+		}
+
+		snapshot.events = snapshot.events.filter((event) => event.blockNumber <= commonBlock);
+		blocks.filter((number) => number > commonBlock).forEach((number) => delete snapshot.blockHashes[number]);
+		snapshot.checkpoint = commonBlock;
+		this.rebuildState(snapshot);
+		await this.store.rollback(checkpointOf(snapshot));
+		return commonBlock;
+	}
+
+	private async fetchEvents(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+		const logs = await this.rp.provider.getLogs({ address: this.rp.address, fromBlock, toBlock });
+		const events = logs
+			.map((log) => decodeEvent(this.rp.interface, log, PROTOCOL_EVENTS))
+			.filter((event): event is IndexedEvent => event !== undefined);
+
+		// rewards are distributed by every `BorrowedNFT` ever associated, including during this batch
+		const borrowedNFTs = new Set(this.state.getBorrowedNFTs());
+		events.forEach((event) => {
+			if (event.name === "AssociatedNFTs") {
+				borrowedNFTs.add(event.args.borrowedNFT.toLowerCase());
+			}
+		});
+
+		for (const borrowedNFT of Array.from(borrowedNFTs)) {
+			const rewardLogs = await this.rp.provider.getLogs({
+				address: borrowedNFT,
+				topics: [REWARDS_DISTRIBUTED_TOPIC],
+				fromBlock,
+				toBlock,
+			});
+			rewardLogs.forEach((log) => {
+				const event = decodeEvent(BORROWED_NFT_INTERFACE, log, ["RewardsDistributed"]);
+				if (event) {
+					events.push(event);
+				}
+			});
+		}
+
+		return events.sort(compareEvents);
+	}
+
+	private pruneBlockHashes(blockHashes: IndexerCheckpoint["blockHashes"], checkpoint: number) {
+		const oldest = checkpoint - this.reorgDepth;
+		Object.keys(blockHashes)
+			.map(Number)
+			.filter((number) => number < oldest)
+			.forEach((number) => delete blockHashes[number]);
+	}
+}
@@ -0,0 +1,137 @@
+import { BigNumber, utils } from "ethers";
+
+interface EventMeta {
+	address: string;
+	blockNumber: number;
+	blockHash: string;
+	transactionHash: string;
+	logIndex: number;
+}
+
+export interface IndexedOfferNFT {
+	token: string;
+	tokenId: string;
+	duration: string;
+	basisPoints: number;
+}
+
+/**
+ * Protocol events as stored by the indexer: big numbers are stored as decimal strings so that
+ * events can be serialized as-is.
+ */
+export type IndexedEvent = EventMeta &
+	(
+		| {
+				name: "RentalOfferCreated";
+				args: {
+					nonce: string;
+					maker: string;
+					taker: string;
+					nfts: IndexedOfferNFT[];
+					feeToken: string;
+					feeAmount: string;
+					deadline: string;
+				};
+		  }
+		| { name: "RentalOfferCancelled"; args: { nonce: string; maker: string } }
+		| {
+				name: "RentalStarted";
+				args: {
+					nonce: string;
+					lender: string;
+					tenant: string;
+					token: string;
+					tokenId: string;
+					duration: string;
+					basisPoints: number;
+					start: string;
+					end: string;
+				};
+		  }
+		| { name: "RentalEnded"; args: { lender: string; tenant: string; token: string; tokenId: string } }
+		| {
+				name: "SubletStarted";
+				args: { lender: string; tenant: string; token: string; tokenId: string; basisPoints: number };
+		  }
+		| { name: "SubletEnded"; args: { lender: string; tenant: string; token: string; tokenId: string } }
+		| { name: "RequestToEndRentalPrematurely"; args: { requester: string; token: string; tokenId: string } }
+		| {
+				name: "AssociatedNFTs";
+				args: { originalNFT: string; lentNFT: string; borrowedNFT: string; subLentNFT: string };
+		  }
+		| { name: "RewardsDistributed"; args: { tokenId: string; recipient: string; token: string; amount: string } }
+	);
+
+export type IndexedEventName = IndexedEvent["name"];
+
+export const PROTOCOL_EVENTS: IndexedEventName[] = [
+	"RentalOfferCreated",
+	"RentalOfferCancelled",
+	"RentalStarted",
+	"RentalEnded",
+	"SubletStarted",
+	"SubletEnded",
+	"RequestToEndRentalPrematurely",
+	"AssociatedNFTs",
+];
+
+function toJSONValue(param: utils.ParamType, value: unknown): unknown {
+	if (param.baseType === "array") {
+		return (value as unknown[]).map((item) => toJSONValue(param.arrayChildren, item));
+	}
+	if (param.baseType === "tuple") {
+		const struct: Record<string, unknown> = {};
+		param.components.forEach((component, i) => {
+			struct[component.name] = toJSONValue(component, (value as unknown[])[i]);
+		});
+		return struct;
+	}
+	return BigNumber.isBigNumber(value) ? value.toString() : value;
+}
+
+/**
+ * Decode `log` if it is one of the `names` events of `iface`.
+ */
+export function decodeEvent(
+	iface: utils.Interface,
+	log: {
+		address: string;
+		topics: string[];
+		data: string;
+		blockNumber: number;
+		blockHash: string;
+		transactionHash: string;
+		logIndex: number;
+	},
+	names: IndexedEventName[]
+): IndexedEvent | undefined {
+	let parsed: utils.LogDescription;
+	try {
+		parsed = iface.parseLog(log);
+	} catch (err: unknown) {
+		// not an event of this interface
+		return undefined;
+	}
+	if (names.indexOf(parsed.name as IndexedEventName) === -1) {
+		return undefined;
+	}
+
+	const args: Record<string, unknown> = {};
+	parsed.eventFragment.inputs.forEach((input, i) => {
+		args[input.name] = toJSONValue(input, parsed.args[i]);
+	});
+
+	return {
+		name: parsed.name,
+		args,
+		address: log.address,
+		blockNumber: log.blockNumber,
+		blockHash: log.blockHash,
+		transactionHash: log.transactionHash,
+		logIndex: log.logIndex,
+	} as IndexedEvent;
+}
+
+export function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+	return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
@@ -0,0 +1,262 @@
+import { IndexedEvent, IndexedOfferNFT } from "./events";
+
+export type OfferStatus = "open" | "cancelled" | "filled";
+
+export interface IndexedOffer {
+	nonce: string;
+	maker: string;
+	taker: string;
+	nfts: IndexedOfferNFT[];
+	feeToken: string;
+	feeAmount: string;
+	deadline: string;
+	status: OfferStatus;
+	blockNumber: number;
+	transactionHash: string;
+}
+
+export interface IndexedSublet {
+	sublender: string;
+	subtenant: string;
+	token: string;
+	tokenId: string;
+	basisPoints: number;
+	active: boolean;
+	startBlock: number;
+	endBlock?: number;
+}
+
+export interface IndexedRental {
+	nonce: string;
+	lender: string;
+	tenant: string;
+	token: string;
+	tokenId: string;
+	duration: string;
+	basisPoints: number;
+	start: string;
+	end: string;
+	active: boolean;
+	sublet?: IndexedSublet;
+	/** Party who requested to end the rental prematurely, if any */
+	prematureEndRequester?: string;
+	startBlock: number;
+	endBlock?: number;
+	/** Transaction of the `rent` call */
+	transactionHash: string;
+}
+
+export interface IndexedReward {
+	collection?: string;
+	borrowedNFT: string;
+	tokenId: string;
+	recipient: string;
+	token: string;
+	amount: string;
+	blockNumber: number;
+	transactionHash: string;
+	logIndex: number;
+}
+
+export interface IndexedCollection {
+	original: string;
+	lentNFT: string;
+	borrowedNFT: string;
+	subLentNFT: string;
+}
+
+const key = (address: string, id: string) => `${address.toLowerCase()}:${id}`;
+const matches = (filter?: string, value?: string) =>
+	filter === undefined || (value !== undefined && filter.toLowerCase() === value.toLowerCase());
+
+/**
+ * Rental state rebuilt from protocol events, events must be applied in chain order.
+ */
+export class RentalState {
+	private readonly offers = new Map<string, IndexedOffer>();
+	private readonly usedNonces = new Map<string, OfferStatus>();
+	private readonly rentals: IndexedRental[] = [];
+	private readonly activeRentals = new Map<string, IndexedRental>();
+	private readonly sublets: IndexedSublet[] = [];
+	private readonly rewards: IndexedReward[] = [];
+	private readonly collections = new Map<string, IndexedCollection>();
+	private readonly borrowedToOriginal = new Map<string, string>();
+
+	apply(event: IndexedEvent): void {
+		switch (event.name) {
+			case "RentalOfferCreated": {
+				const offerKey = key(event.args.maker, event.args.nonce);
+				this.offers.set(offerKey, {
+					...event.args,
+					status: this.usedNonces.get(offerKey) ?? "open",
+					blockNumber: event.blockNumber,
+					transactionHash: event.transactionHash,
+				});
+				break;
+			}
+			case "RentalOfferCancelled":
+				this.markNonce(event.args.maker, event.args.nonce, "cancelled");
+				break;
+			case "RentalStarted": {
+				const { args } = event;
+				this.markNonce(args.lender, args.nonce, "filled");
+				const rental: IndexedRental = {
+					...args,
+					active: true,
+					startBlock: event.blockNumber,
+					transactionHash: event.transactionHash,
+				};
+				this.rentals.push(rental);
+				this.activeRentals.set(key(args.token, args.tokenId), rental);
+				break;
+			}
+			case "RentalEnded": {
+				const rentalKey = key(event.args.token, event.args.tokenId);
+				const rental = this.activeRentals.get(rentalKey);
+				if (rental) {
+					rental.active = false;
+					rental.endBlock = event.blockNumber;
+					this.activeRentals.delete(rentalKey);
+				}
+				break;
+			}
+			case "SubletStarted": {
+				const { args } = event;
+				const sublet: IndexedSublet = {
+					sublender: args.lender,
+					subtenant: args.tenant,
+					token: args.token,
+					tokenId: args.tokenId,
+					basisPoints: args.basisPoints,
+					active: true,
+					startBlock: event.blockNumber,
+				};
+				this.sublets.push(sublet);
+				const rental = this.activeRentals.get(key(args.token, args.tokenId));
+				if (rental) {
+					rental.sublet = sublet;
+				}
+				break;
+			}
+			case "SubletEnded": {
+				const rental = this.activeRentals.get(key(event.args.token, event.args.tokenId));
+				if (rental?.sublet) {
+					rental.sublet.active = false;
+					rental.sublet.endBlock = event.blockNumber;
+					rental.sublet = undefined;
+				}
+				break;
+			}
+			case "RequestToEndRentalPrematurely": {
+				const rental = this.activeRentals.get(key(event.args.token, event.args.tokenId));
+				if (rental) {
+					rental.prematureEndRequester = event.args.requester;
+				}
+				break;
+			}
+			case "AssociatedNFTs": {
+				const { args } = event;
+				this.collections.set(args.originalNFT.toLowerCase(), {
+					original: args.originalNFT,
+					lentNFT: args.lentNFT,
+					borrowedNFT: args.borrowedNFT,
+					subLentNFT: args.subLentNFT,
+				});
+				this.borrowedToOriginal.set(args.borrowedNFT.toLowerCase(), args.originalNFT);
+				break;
+			}
+			case "RewardsDistributed":
+				this.rewards.push({
+					...event.args,
+					collection: this.borrowedToOriginal.get(event.address.toLowerCase()),
+					borrowedNFT: event.address,
+					blockNumber: event.blockNumber,
+					transactionHash: event.transactionHash,
+					logIndex: event.logIndex,
+				});
+				break;
+		}
+	}
+
+	getOffers(filter: { maker?: string; status?: OfferStatus } = {}): IndexedOffer[] {
+		return Array.from(this.offers.values()).filter(
+			(offer) => matches(filter.maker, offer.maker) && (filter.status === undefined || filter.status === offer.status)
+		);
+	}
+
+	getOffer(maker: string, nonce: string): IndexedOffer | undefined {
+		return this.offers.get(key(maker, nonce));
+	}
+
+	/**
+	 * Status of the `nonce` of `maker`, whether or not it has been pre-signed: off-chain offers are
+	 * only seen once cancelled or filled.
+	 */
+	getNonceStatus(maker: string, nonce: string): OfferStatus {
+		return this.usedNonces.get(key(maker, nonce)) ?? "open";
+	}
+
+	getRentals(
+		filter: { active?: boolean; token?: string; lender?: string; tenant?: string } = {}
+	): IndexedRental[] {
+		return this.rentals.filter(
+			(rental) =>
+				(filter.active === undefined || filter.active === rental.active) &&
+				matches(filter.token, rental.token) &&
+				matches(filter.lender, rental.lender) &&
+				matches(filter.tenant, rental.tenant)
+		);
+	}
+
+	getActiveRentals(): IndexedRental[] {
+		return Array.from(this.activeRentals.values());
+	}
+
+	/**
+	 * @returns the ongoing rental of `tokenId`, if any
+	 */
+	getRental(token: string, tokenId: string): IndexedRental | undefined {
+		return this.activeRentals.get(key(token, tokenId));
+	}
+
+	getSublets(filter: { active?: boolean; sublender?: string; subtenant?: string } = {}): IndexedSublet[] {
+		return this.sublets.filter(
+			(sublet) =>
+				(filter.active === undefined || filter.active === sublet.active) &&
+				matches(filter.sublender, sublet.sublender) &&
+				matches(filter.subtenant, sublet.subtenant)
+		);
+	}
+
+	getRewards(
+		filter: { recipient?: string; token?: string; collection?: string; tokenId?: string } = {}
+	): IndexedReward[] {
+		return this.rewards.filter(
+			(reward) =>
+				matches(filter.recipient, reward.recipient) &&
+				matches(filter.token, reward.token) &&
+				matches(filter.collection, reward.collection) &&
+				(filter.tokenId === undefined || filter.tokenId === reward.tokenId)
+		);
+	}
+
+	getCollections(): IndexedCollection[] {
+		return Array.from(this.collections.values());
+	}
+
+	/**
+	 * @returns every `BorrowedNFT` ever associated, including replaced ones (lowercased)
+	 */
+	getBorrowedNFTs(): string[] {
+		return Array.from(this.borrowedToOriginal.keys());
+	}
+
+	private markNonce(maker: string, nonce: string, status: OfferStatus) {
+		const offerKey = key(maker, nonce);
+		this.usedNonces.set(offerKey, status);
+		const offer = this.offers.get(offerKey);
+		if (offer && offer.status === "open") {
+			offer.status = status;
+		}
+	}
+}
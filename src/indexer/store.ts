@@ -0,0 +1,52 @@
+import { IndexedEvent } from "./events";
+
+/**
+ * Progress of the indexer, saved along with the events of each batch.
+ */
+export interface IndexerCheckpoint {
+	rentalProtocol: string;
+	/** Last fully indexed block */
+	checkpoint: number;
+	/** Hashes of recently indexed blocks, used to detect chain reorganisations */
+	blockHashes: Record<number, string>;
+}
+
+/**
+ * Everything the indexer needs to resume: state is rebuilt by replaying `events`.
+ */
+export interface IndexerSnapshot extends IndexerCheckpoint {
+	events: IndexedEvent[];
+}
+
+/**
+ * Append-only log of the indexed events, each batch only persists its own events.
+ */
+export interface IndexerStore {
+	load(): Promise<IndexerSnapshot | undefined>;
+	/** Persist the `events` of a new batch along with the checkpoint at its end */
+	append(events: IndexedEvent[], checkpoint: IndexerCheckpoint): Promise<void>;
+	/** Drop the events after the `checkpoint` the indexer rolled back to after a reorganisation */
+	rollback(checkpoint: IndexerCheckpoint): Promise<void>;
+}
+
+export class MemoryStore implements IndexerStore {
+	private checkpoint?: string;
+	private events: { blockNumber: number; json: string }[] = [];
+
+	async load(): Promise<IndexerSnapshot | undefined> {
+		if (!this.checkpoint) {
+			return undefined;
+		}
+		return { ...JSON.parse(this.checkpoint), events: this.events.map((event) => JSON.parse(event.json)) };
+	}
+
+	async append(events: IndexedEvent[], checkpoint: IndexerCheckpoint): Promise<void> {
+		events.forEach((event) => this.events.push({ blockNumber: event.blockNumber, json: JSON.stringify(event) }));
+		this.checkpoint = JSON.stringify(checkpoint);
+	}
+
+	async rollback(checkpoint: IndexerCheckpoint): Promise<void> {
+		this.events = this.events.filter((event) => event.blockNumber <= checkpoint.checkpoint);
+		this.checkpoint = JSON.stringify(checkpoint);
+	}
+}
@@ -0,0 +1,254 @@
+import { BigNumber, Signer, utils } from "ethers";
+import { RentalProtocol } from "../../artifacts/typechain";
+import { RentalClient } from "../RentalClient";
+import { IndexerOptions, RentalIndexer } from "../indexer/RentalIndexer";
+import { IndexedRental } from "../indexer/state";
+import { IndexerStore, MemoryStore } from "../indexer/store";
+
+export interface KeeperOptions extends IndexerOptions {
+	/** Attempts to end a rental before giving up on it (default: 3) */
+	maxAttempts?: number;
+	/** Delay before retrying to end a rental after a failure, in milliseconds (default: 60s) */
+	retryDelay?: number;
+}
+
+/**
+ * - `scheduled`: waiting for the end of the rental, or for a retry
+ * - `ended`: ended by the keeper, dropped once the indexer has seen the end
+ * - `failed`: every attempt to end the rental failed
+ * - `unmanaged`: none of the keeper signers is allowed to end the rental, checked again when one of
+ *   its rental NFTs changes hands
+ */
+export type KeeperJobStatus = "scheduled" | "ended" | "failed" | "unmanaged";
+
+export interface KeeperJob {
+	token: string;
+	tokenId: string;
+	/** When the rental ends (unix timestamp, in seconds) */
+	end: number;
+	status: KeeperJobStatus;
+	/** Signer ending the rental */
+	signer?: string;
+	attempts: number;
+	/** Earliest time of the next attempt after a failure (unix timestamp, in milliseconds) */
+	retryAt?: number;
+	lastError?: string;
+	transactionHash?: string;
+}
+
+export interface KeeperStatus {
+	/** Last indexed block */
+	checkpoint: number;
+	paused: boolean;
+	/** Rentals ended by the keeper since it started */
+	ended: number;
+	jobs: KeeperJob[];
+}
+
+// a token can be rented again once ended, each rental has its own job
+const key = (rental: IndexedRental) => `${rental.token.toLowerCase()}:${rental.tokenId}:${rental.start}`;
+
+const TRANSFER_TOPIC = utils.id("Transfer(address,address,uint256)");
+
+/**
+ * Keeper ending rentals as soon as they are over, so that originals don't stay locked in the protocol.
+ *
+ * Active rentals are discovered by a `RentalIndexer`. Only the lender (`LentNFT` holder) and the
+ * tenant (`BorrowedNFT` holder, or `SubLentNFT` holder when sublet) can end a rental, the keeper
+ * ends those where one of its `signers` is one of them.
+ */
+export class RentalKeeper {
+	readonly indexer: RentalIndexer;
+	private readonly client: RentalClient;
+	private readonly jobs = new Map<string, KeeperJob>();
+	/** Block at which the holders of each unmanaged rental were checked */
+	private readonly unmanagedAt = new Map<string, number>();
+	private ended = 0;
+	private readonly maxAttempts: number;
+	private readonly retryDelay: number;
+	private signerAddresses?: string[];
+	private paused = false;
+	private timer?: NodeJS.Timeout;
+
+	constructor(
+		readonly rp: RentalProtocol,
+		readonly signers: Signer[],
+		store: IndexerStore = new MemoryStore(),
+		options: KeeperOptions = {}
+	) {
+		this.indexer = new RentalIndexer(rp, store, options);
+		this.client = new RentalClient(rp);
+		this.maxAttempts = options.maxAttempts ?? 3;
+		this.retryDelay = options.retryDelay ?? 60_000;
+	}
+
+	/**
+	 * Discover the new rentals, then end every managed rental which is over.
+	 * @returns the jobs updated by this round
+	 */
+	async poll(): Promise<KeeperJob[]> {
+		await this.indexer.sync();
+		if (!this.signerAddresses) {
+			this.signerAddresses = await Promise.all(this.signers.map((signer) => signer.getAddress()));
+		}
+
+		const active = this.indexer.state.getActiveRentals();
+		const activeKeys = new Set(active.map(key));
+		// rentals ended, by the keeper or by someone else
+		for (const jobKey of Array.from(this.jobs.keys())) {
+			if (!activeKeys.has(jobKey)) {
+				this.jobs.delete(jobKey);
+				this.unmanagedAt.delete(jobKey);
+			}
+		}
+		for (const rental of active) {
+			if (!this.jobs.has(key(rental))) {
+				this.jobs.set(key(rental), {
+					token: rental.token,
+					tokenId: rental.tokenId,
+					end: Number(rental.end),
+					status: "scheduled",
+					attempts: 0,
+				});
+			}
+		}
+
+		this.paused = await this.rp.paused();
+		if (this.paused) {
+			return [];
+		}
+		const { number, timestamp: now } = await this.rp.provider.getBlock("latest");
+		const transferred = await this.transferredSince(active, number);
+		const updated: KeeperJob[] = [];
+		for (const rental of active) {
+			const job = this.jobs.get(key(rental)) as KeeperJob;
+			// the next block is mined after `now`, and rentals can be ended strictly after their end
+			const due = job.end <= now && (job.retryAt === undefined || job.retryAt <= Date.now());
+			if ((job.status === "scheduled" && due) || (job.status === "unmanaged" && transferred.has(key(rental)))) {
+				await this.end(rental, job, number);
+				updated.push(job);
+			}
+		}
+		return updated;
+	}
+
+	/**
+	 * Keep polling every `interval` milliseconds (or as soon as the next rental ends), until `stop` is called.
+	 * @param onError called with the errors of the failed polls, which are retried at the next interval
+	 */
+	watch(interval: number, onError: (err: unknown) => void): void {
+		const loop = async () => {
+			let delay = interval;
+			try {
+				await this.poll();
+				delay = Math.min(interval, await this.untilNextEnd());
+			} catch (err: unknown) {
+				onError(err);
+			}
+			if (this.timer) {
+				this.timer = setTimeout(loop, delay);
+			}
+		};
+		this.timer = setTimeout(loop, 0);
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+	}
+
+	status(): KeeperStatus {
+		return {
+			checkpoint: this.indexer.checkpoint,
+			paused: this.paused,
+			ended: this.ended,
+			jobs: Array.from(this.jobs.values()).sort((a, b) => a.end - b.end),
+		};
+	}
+
+	/**
+	 * @param blockNumber block from which the holders of the rental NFTs are read
+	 */
+	private async end(rental: IndexedRental, job: KeeperJob, blockNumber: number) {
+		const { lentNFT, borrowedNFT, subLentNFT } = await this.client.requireRentalNFTs(rental.token);
+		// holders may have changed since the rental started
+		const tenant = (await subLentNFT.exists(rental.tokenId)) ? subLentNFT : borrowedNFT;
+		const parties = [await lentNFT.ownerOf(rental.tokenId), await tenant.ownerOf(rental.tokenId)];
+		const index = (this.signerAddresses as string[]).findIndex((address) => parties.indexOf(address) !== -1);
+		if (index === -1) {
+			job.status = "unmanaged";
+			job.signer = undefined;
+			this.unmanagedAt.set(key(rental), blockNumber);
+			return;
+		}
+		this.unmanagedAt.delete(key(rental));
+
+		job.signer = (this.signerAddresses as string[])[index];
+		job.attempts++;
+		try {
+			const tx = await this.client.connect(this.signers[index]).endRental(rental.token, rental.tokenId);
+			job.transactionHash = tx.hash;
+			await tx.wait();
+			this.ended++;
+			job.status = "ended";
+			job.retryAt = undefined;
+			job.lastError = undefined;
+		} catch (err: unknown) {
+			job.lastError = err instanceof Error ? err.message : String(err);
+			job.status = job.attempts >= this.maxAttempts ? "failed" : "scheduled";
+			job.retryAt = Date.now() + this.retryDelay;
+		}
+	}
+
+	/**
+	 * Keys of the unmanaged rentals whose rental NFTs changed hands since their holders were checked,
+	 * found with one `eth_getLogs` request per rental NFT contract.
+	 */
+	private async transferredSince(active: IndexedRental[], toBlock: number): Promise<Set<string>> {
+		const collections = new Map<string, IndexedRental[]>();
+		for (const rental of active.filter((rental) => this.unmanagedAt.has(key(rental)))) {
+			const token = rental.token.toLowerCase();
+			collections.set(token, (collections.get(token) ?? []).concat(rental));
+		}
+
+		const transferred = new Set<string>();
+		for (const rentals of Array.from(collections.values())) {
+			const checkedAt = (rental: IndexedRental) => this.unmanagedAt.get(key(rental)) as number;
+			const fromBlock = Math.min(...rentals.map(checkedAt)) + 1;
+			if (fromBlock > toBlock) {
+				continue;
+			}
+			const tokenIds = rentals.map((rental) => utils.hexZeroPad(BigNumber.from(rental.tokenId).toHexString(), 32));
+			const { lentNFT, borrowedNFT, subLentNFT } = await this.client.requireRentalNFTs(rentals[0].token);
+			for (const nft of [lentNFT, borrowedNFT, subLentNFT]) {
+				const topics = [TRANSFER_TOPIC, null, null, tokenIds];
+				const logs = await this.rp.provider.getLogs({ address: nft.address, topics, fromBlock, toBlock });
+				for (const log of logs) {
+					rentals
+						.filter((rental) => BigNumber.from(log.topics[3]).eq(rental.tokenId) && log.blockNumber > checkedAt(rental))
+						.forEach((rental) => transferred.add(key(rental)));
+				}
+			}
+			// the holders of the others are unchanged up to `toBlock`
+			rentals.forEach((rental) => this.unmanagedAt.set(key(rental), toBlock));
+		}
+		return transferred;
+	}
+
+	/**
+	 * Milliseconds until the next scheduled rental is due, according to the chain time for its end.
+	 */
+	private async untilNextEnd(): Promise<number> {
+		const scheduled = Array.from(this.jobs.values()).filter((job) => job.status === "scheduled");
+		if (scheduled.length === 0) {
+			return Infinity;
+		}
+		const now = (await this.rp.provider.getBlock("latest")).timestamp;
+		const delays = scheduled.map((job) =>
+			Math.max((job.end - now + 1) * 1000, job.retryAt === undefined ? 0 : job.retryAt - Date.now())
+		);
+		return Math.max(0, Math.min(...delays));
+	}
+}
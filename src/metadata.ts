@@ -0,0 +1,165 @@
+import { utils } from "ethers";
+
+/**
+ * Metadata of `LentNFT` and `SubLentNFT` tokens, `animation_url` being a base64 SVG data URI.
+ */
+export interface RentalNFTMetadata {
+	name: string;
+	description: string;
+	animation_url: string;
+}
+
+export interface DecodedRentalNFTMetadata {
+	metadata: RentalNFTMetadata;
+	/** SVG decoded from `animation_url` */
+	svg: string;
+}
+
+export class InvalidMetadataError extends Error {
+	constructor(readonly problems: string[]) {
+		super(`Invalid rental NFT metadata: ${problems.join(", ")}`);
+		this.name = "InvalidMetadataError";
+		Object.setPrototypeOf(this, InvalidMetadataError.prototype);
+	}
+}
+
+const METADATA_FIELDS = ["name", "description", "animation_url"] as const;
+
+/**
+ * Decode a `data:<mimeType>;base64,<content>` URI.
+ */
+export function decodeDataURI(uri: string, mimeType: string): string {
+	const prefix = `data:${mimeType};base64,`;
+	if (!uri.startsWith(prefix)) {
+		throw new InvalidMetadataError([`expected a "${prefix}" URI, got "${uri.slice(0, prefix.length)}..."`]);
+	}
+	return utils.toUtf8String(utils.base64.decode(uri.slice(prefix.length)));
+}
+
+/**
+ * @returns the problems of the metadata JSON shape, empty when valid
+ */
+export function validateRentalNFTMetadata(json: unknown): string[] {
+	if (typeof json !== "object" || json === null || Array.isArray(json)) {
+		return ["metadata must be a JSON object"];
+	}
+	const problems: string[] = [];
+	const fields = json as Record<string, unknown>;
+	for (const field of METADATA_FIELDS) {
+		if (typeof fields[field] !== "string" || fields[field] === "") {
+			problems.push(`"${field}" must be a non-empty string`);
+		}
+	}
+	for (const field of Object.keys(fields)) {
+		if (METADATA_FIELDS.indexOf(field as typeof METADATA_FIELDS[number]) === -1) {
+			problems.push(`unexpected field "${field}"`);
+		}
+	}
+	return problems;
+}
+
+const XML_TOKENS = /<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[^<>]*>|[^<]+|</g;
+const XML_TAG = /^<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[A-Za-z_][\w:.-]*\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>$/;
+const XML_ATTRIBUTE = /([A-Za-z_][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const XML_INVALID_ENTITY = /&(?!(?:[A-Za-z]+|#\d+|#x[0-9A-Fa-f]+);)/;
+
+/**
+ * Check that `svg` is a well-formed XML document with a single `<svg>` root element.
+ * @returns the problems found, empty when well-formed
+ */
+export function validateSVG(svg: string): string[] {
+	const problems: string[] = [];
+	const open: string[] = [];
+	let roots = 0;
+	const tokens = svg.match(XML_TOKENS) ?? [];
+	tokens.forEach((token, i) => {
+		if (token.startsWith("<?")) {
+			if (i !== 0 || !token.startsWith("<?xml ")) {
+				problems.push("the XML declaration must start the document");
+			}
+			return;
+		}
+		if (token.startsWith("<!--") || token.startsWith("<![CDATA[")) {
+			return;
+		}
+		if (!token.startsWith("<")) {
+			if (open.length === 0 && token.trim() !== "") {
+				problems.push(`text outside of the root element: "${token.trim().slice(0, 20)}"`);
+			} else if (XML_INVALID_ENTITY.test(token)) {
+				problems.push(`unescaped "&" in text "${token.trim().slice(0, 20)}"`);
+			}
+			return;
+		}
+
+		const tag = token.match(XML_TAG);
+		if (!tag) {
+			problems.push(`malformed tag ${token.slice(0, 40)}`);
+			return;
+		}
+		const [, closing, name, attributes, selfClosing] = tag;
+		if (closing) {
+			if (attributes || selfClosing) {
+				problems.push(`malformed closing tag ${token}`);
+			}
+			const expected = open.pop();
+			if (expected !== name) {
+				problems.push(expected ? `</${name}> closes <${expected}>` : `</${name}> closes no element`);
+			}
+			return;
+		}
+
+		const names: string[] = [];
+		for (let match = XML_ATTRIBUTE.exec(attributes); match; match = XML_ATTRIBUTE.exec(attributes)) {
+			if (names.indexOf(match[1]) !== -1) {
+				problems.push(`duplicate attribute "${match[1]}" on <${name}>`);
+			}
+			names.push(match[1]);
+			if (XML_INVALID_ENTITY.test(match[2] ?? match[3])) {
+				problems.push(`unescaped "&" in the "${match[1]}" attribute of <${name}>`);
+			}
+		}
+		if (open.length === 0) {
+			roots++;
+			if (roots === 1 && name !== "svg") {
+				problems.push(`the root element must be <svg>, not <${name}>`);
+			}
+		}
+		if (!selfClosing) {
+			open.push(name);
+		}
+	});
+
+	if (roots !== 1) {
+		problems.push(`expected a single root element, got ${roots}`);
+	}
+	if (open.length > 0) {
+		problems.push(`unclosed element(s): ${open.map((name) => `<${name}>`).join(", ")}`);
+	}
+	return problems;
+}
+
+/**
+ * Decode the `tokenURI` of a `LentNFT` or `SubLentNFT`: a base64 JSON data URI whose `animation_url`
+ * is a base64 SVG data URI.
+ * @throws InvalidMetadataError when the JSON shape or the SVG is invalid
+ */
+export function decodeRentalNFTMetadata(tokenURI: string): DecodedRentalNFTMetadata {
+	let json: unknown;
+	try {
+		json = JSON.parse(decodeDataURI(tokenURI, "application/json"));
+	} catch (err: unknown) {
+		throw err instanceof InvalidMetadataError ? err : new InvalidMetadataError([`invalid JSON: ${err}`]);
+	}
+	const problems = validateRentalNFTMetadata(json);
+	if (problems.length > 0) {
+		throw new InvalidMetadataError(problems);
+	}
+
+	const metadata = json as RentalNFTMetadata;
+	const svg = decodeDataURI(metadata.animation_url, "image/svg+xml");
+	const svgProblems = validateSVG(svg);
+	if (svgProblems.length > 0) {
+		throw new InvalidMetadataError(svgProblems.map((problem) => `SVG: ${problem}`));
+	}
+	return { metadata, svg };
+}
@@ -0,0 +1,9 @@
+/**
+ * Node.js entry point: everything of the package root, plus the indexer, the order book server,
+ * the keeper and the JSON file stores which need a Node.js runtime or a long running process.
+ */
+export * from "./index";
+export * from "./indexer";
+export * from "./orderbook";
+export * from "./keeper";
+export * from "./fileStores";
@@ -0,0 +1,159 @@
+import { BigNumber, utils } from "ethers";
+import { RentalOffer, SignatureType } from "./types";
+import { OfferStatus, RentalState } from "./indexer/state";
+
+/**
+ * Offer signed with a nonce of the manager, big numbers are stored as decimal strings.
+ */
+export interface RecordedOffer {
+	chainId: number;
+	/** Checksummed address of the rental protocol the offer was signed for */
+	rentalProtocol: string;
+	nonce: string;
+	deadline: string;
+	signatureType: keyof typeof SignatureType;
+}
+
+export interface MakerNonces {
+	/** Index of the next nonce to derive */
+	next: number;
+	offers: RecordedOffer[];
+}
+
+/**
+ * Nonces of each maker, by checksummed address.
+ */
+export type NonceRecord = Record<string, MakerNonces>;
+
+export interface NonceStore {
+	load(): Promise<NonceRecord | undefined>;
+	save(record: NonceRecord): Promise<void>;
+}
+
+export class MemoryNonceStore implements NonceStore {
+	private record?: string;
+
+	async load(): Promise<NonceRecord | undefined> {
+		return this.record ? JSON.parse(this.record) : undefined;
+	}
+
+	async save(record: NonceRecord): Promise<void> {
+		this.record = JSON.stringify(record);
+	}
+}
+
+/**
+ * Nonce number `index` of `maker`, as a decimal string.
+ */
+export function deriveNonce(maker: string, index: number): string {
+	const hash = utils.keccak256(utils.defaultAbiCoder.encode(["address", "uint256"], [maker, index]));
+	return BigNumber.from(hash).toString();
+}
+
+/**
+ * Per-maker nonce manager: nonces are derived from the maker address and a counter, and the offers
+ * signed off-chain are recorded so that they can all be cancelled, e.g. when a key is compromised.
+ */
+export class NonceManager {
+	private record?: Promise<NonceRecord>;
+
+	constructor(readonly store: NonceStore = new MemoryNonceStore()) {}
+
+	/**
+	 * Allocate the next nonce of `maker`.
+	 */
+	async next(maker: string): Promise<string> {
+		const record = await this.load();
+		const nonces = this.makerNonces(record, maker);
+		const nonce = deriveNonce(maker, nonces.next++);
+		await this.store.save(record);
+		return nonce;
+	}
+
+	/**
+	 * Record `offer`, signed for the rental protocol at `rentalProtocol` on chain `chainId`.
+	 */
+	async recordOffer(
+		offer: RentalOffer,
+		signatureType: SignatureType,
+		chainId: number,
+		rentalProtocol: string
+	): Promise<void> {
+		const record = await this.load();
+		this.makerNonces(record, offer.maker).offers.push({
+			chainId,
+			rentalProtocol: utils.getAddress(rentalProtocol),
+			nonce: BigNumber.from(offer.nonce).toString(),
+			deadline: BigNumber.from(offer.deadline).toString(),
+			signatureType: SignatureType[signatureType] as keyof typeof SignatureType,
+		});
+		await this.store.save(record);
+	}
+
+	/**
+	 * Offers of `maker` recorded for the rental protocol at `rentalProtocol` on chain `chainId`, as a
+	 * nonce file may be shared by several networks.
+	 */
+	async getRecordedOffers(maker: string, chainId: number, rentalProtocol: string): Promise<RecordedOffer[]> {
+		const address = utils.getAddress(rentalProtocol);
+		const offers = (await this.load())[utils.getAddress(maker)]?.offers ?? [];
+		return offers.filter((offer) => offer.chainId === chainId && offer.rentalProtocol === address);
+	}
+
+	private load(): Promise<NonceRecord> {
+		if (!this.record) {
+			this.record = this.store.load().then((record) => record ?? {});
+		}
+		return this.record;
+	}
+
+	private makerNonces(record: NonceRecord, maker: string): MakerNonces {
+		const address = utils.getAddress(maker);
+		if (!record[address]) {
+			record[address] = { next: 0, offers: [] };
+		}
+		return record[address];
+	}
+}
+
+/**
+ * - `pre-signed`: offer created on-chain, see `RentalOfferCreated`
+ * - `off-chain`: offer recorded by a `NonceManager`
+ */
+export type MakerOfferSource = "pre-signed" | "off-chain";
+
+export interface MakerOffer {
+	nonce: string;
+	deadline: string;
+	source: MakerOfferSource;
+	/** `open` offers past their deadline are `expired` */
+	status: OfferStatus | "expired";
+}
+
+/**
+ * Offers of `maker` found in the indexed `state` and in its `recorded` off-chain offers, the
+ * outstanding ones being `open`.
+ * @param timestamp current time (unix timestamp, in seconds)
+ */
+export function listMakerOffers(
+	state: RentalState,
+	maker: string,
+	recorded: RecordedOffer[],
+	timestamp: number
+): MakerOffer[] {
+	const offers = new Map<string, MakerOffer>();
+	const add = (nonce: string, deadline: string, source: MakerOfferSource) => {
+		const status = state.getNonceStatus(maker, nonce);
+		if (!offers.has(nonce)) {
+			const expired = status === "open" && BigNumber.from(deadline).lt(timestamp);
+			offers.set(nonce, { nonce, deadline, source, status: expired ? "expired" : status });
+		}
+	};
+	for (const offer of state.getOffers({ maker })) {
+		add(offer.nonce, offer.deadline, "pre-signed");
+	}
+	for (const offer of recorded) {
+		add(offer.nonce, offer.deadline, "off-chain");
+	}
+	return Array.from(offers.values());
+}
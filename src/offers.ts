@@ -0,0 +1,112 @@
+import { BigNumber, BigNumberish, utils } from "ethers";
+import { RentalOffer, RentalOfferParams, SignatureType } from "./types";
+
+/**
+ * JSON representation of a `RentalOffer`, big numbers are stored as decimal strings.
+ */
+export interface RentalOfferJSON {
+	maker: string;
+	taker: string;
+	nfts: {
+		token: string;
+		tokenId: string;
+		duration: string;
+		basisPoints: number;
+	}[];
+	feeToken: string;
+	feeAmount: string;
+	nonce: string;
+	deadline: string;
+}
+
+export interface SignedRentalOfferJSON {
+	offer: RentalOfferJSON;
+	signatureType: keyof typeof SignatureType;
+	signature: string;
+}
+
+export interface SignedRentalOffer {
+	offer: RentalOffer;
+	signatureType: SignatureType;
+	signature: string;
+}
+
+function toDecimal(value: BigNumberish): string {
+	return BigNumber.from(value).toString();
+}
+
+export function offerToJSON(offer: RentalOffer): RentalOfferJSON {
+	return {
+		maker: utils.getAddress(offer.maker),
+		taker: utils.getAddress(offer.taker),
+		nfts: offer.nfts.map((nft) => ({
+			token: utils.getAddress(nft.token),
+			tokenId: toDecimal(nft.tokenId),
+			duration: toDecimal(nft.duration),
+			basisPoints: BigNumber.from(nft.basisPoints).toNumber(),
+		})),
+		feeToken: utils.getAddress(offer.feeToken),
+		feeAmount: toDecimal(offer.feeAmount),
+		nonce: toDecimal(offer.nonce),
+		deadline: toDecimal(offer.deadline),
+	};
+}
+
+/**
+ * Parse a complete offer, throws if a field is missing or malformed.
+ */
+export function offerFromJSON(json: RentalOfferJSON): RentalOffer {
+	const params = offerParamsFromJSON(json);
+	for (const field of ["maker", "taker", "feeToken", "feeAmount", "nonce", "deadline"] as const) {
+		if (params[field] === undefined) {
+			throw new Error(`Missing "${field}" in rental offer`);
+		}
+	}
+	return params as RentalOffer;
+}
+
+/**
+ * Parse a possibly partial offer, missing fields can then be filled by `RentalClient.createOffer`.
+ */
+export function offerParamsFromJSON(json: Partial<RentalOfferJSON>): RentalOfferParams {
+	if (!Array.isArray(json.nfts) || json.nfts.length === 0) {
+		throw new Error("A rental offer must include at least one NFT");
+	}
+	const address = (value?: string) => (value === undefined ? undefined : utils.getAddress(value));
+	const bigNumber = (value?: BigNumberish) => (value === undefined ? undefined : BigNumber.from(value));
+
+	return {
+		maker: address(json.maker),
+		taker: address(json.taker),
+		nfts: json.nfts.map((nft) => ({
+			token: utils.getAddress(nft.token),
+			tokenId: BigNumber.from(nft.tokenId),
+			duration: BigNumber.from(nft.duration),
+			basisPoints: BigNumber.from(nft.basisPoints).toNumber(),
+		})),
+		feeToken: address(json.feeToken),
+		feeAmount: bigNumber(json.feeAmount),
+		nonce: bigNumber(json.nonce),
+		deadline: bigNumber(json.deadline),
+	};
+}
+
+export function signedOfferToJSON(signed: SignedRentalOffer): SignedRentalOfferJSON {
+	return {
+		offer: offerToJSON(signed.offer),
+		signatureType: SignatureType[signed.signatureType] as keyof typeof SignatureType,
+		signature: signed.signature,
+	};
+}
+
+export function signedOfferFromJSON(json: SignedRentalOfferJSON): SignedRentalOffer {
+	const signatureType = SignatureType[json.signatureType];
+	if (signatureType === undefined) {
+		throw new Error(`Unknown signature type "${json.signatureType}"`);
+	}
+	return {
+		offer: offerFromJSON(json.offer),
+		signatureType,
+		signature: utils.hexlify(json.signature),
+	};
+}
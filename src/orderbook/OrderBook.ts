@@ -0,0 +1,201 @@
+import { BigNumber, BigNumberish, TypedDataDomain } from "ethers";
+import type { RentalProtocol } from "../../artifacts/typechain";
+import { SignedRentalOffer, SignedRentalOfferJSON, signedOfferFromJSON, signedOfferToJSON } from "../offers";
+import { getRentalDomain, hashRentalOffer, verifyRentalOffer } from "../signing";
+import { SignatureType, ZERO_ADDRESS } from "../types";
+
+export class InvalidOfferError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "InvalidOfferError";
+		Object.setPrototypeOf(this, InvalidOfferError.prototype);
+	}
+}
+
+export class InvalidFilterError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "InvalidFilterError";
+		Object.setPrototypeOf(this, InvalidFilterError.prototype);
+	}
+}
+
+export interface OrderBookFilter {
+	/** Original collection of (at least) one of the offer NFTs */
+	collection?: string;
+	maker?: string;
+	/** Offers a given tenant can take: public ones and the ones private to them */
+	taker?: string;
+	visibility?: "public" | "private";
+	feeToken?: string;
+	minPrice?: BigNumberish;
+	maxPrice?: BigNumberish;
+	/** Offers still valid at this timestamp */
+	validUntil?: BigNumberish;
+}
+
+export interface OrderBookEntry extends SignedRentalOfferJSON {
+	hash: string;
+	/** Transaction to send in order to take the offer */
+	rent: { to: string; data: string };
+}
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * @throws InvalidFilterError when the value isn't a non-negative integer
+ */
+function filterNumber(filter: OrderBookFilter, name: "minPrice" | "maxPrice" | "validUntil"): BigNumber | undefined {
+	const value = filter[name];
+	if (value === undefined) {
+		return undefined;
+	}
+	const invalid = new InvalidFilterError(`Invalid ${name} "${value}", expected a non-negative integer`);
+	let number: BigNumber;
+	try {
+		number = BigNumber.from(value);
+	} catch (err: unknown) {
+		throw invalid;
+	}
+	if (number.isNegative()) {
+		throw invalid;
+	}
+	return number;
+}
+
+/**
+ * In-memory book of EIP-712 signed rental offers.
+ *
+ * Offers are validated when added and dropped once filled, cancelled (`invalidNonce`) or expired.
+ */
+export class OrderBook {
+	private readonly offers = new Map<string, SignedRentalOffer>();
+	private domain?: TypedDataDomain;
+	/** Timestamp of the latest block seen */
+	private now = 0;
+
+	constructor(readonly rp: RentalProtocol) {}
+
+	get size(): number {
+		return this.offers.size;
+	}
+
+	/**
+	 * Validate and add a signed offer.
+	 * @returns the hash of the offer
+	 * @throws InvalidOfferError when the offer can't be taken
+	 */
+	async add(json: SignedRentalOfferJSON): Promise<string> {
+		let signed: SignedRentalOffer;
+		try {
+			signed = signedOfferFromJSON(json);
+		} catch (err: unknown) {
+			throw new InvalidOfferError((err as Error).message);
+		}
+		const { offer, signatureType, signature } = signed;
+		if (signatureType !== SignatureType.EIP_712) {
+			throw new InvalidOfferError("Only EIP_712 signed offers are supported");
+		}
+
+		const domain = await this.getDomain();
+		if (!verifyRentalOffer(domain, offer, signature)) {
+			throw new InvalidOfferError("Signer is not maker");
+		}
+		const hash = hashRentalOffer(domain, offer);
+		if (this.offers.has(hash)) {
+			throw new InvalidOfferError("Offer already exists");
+		}
+
+		await this.refreshTime();
+		if (BigNumber.from(offer.deadline).lt(this.now)) {
+			throw new InvalidOfferError("Offer deadline");
+		}
+		if (await this.rp.invalidNonce(offer.maker, offer.nonce)) {
+			throw new InvalidOfferError("cancelled or filled offer");
+		}
+		for (const nft of offer.nfts) {
+			if ((await this.rp.originalToLentNFT(nft.token)) === ZERO_ADDRESS) {
+				throw new InvalidOfferError(`Collection ${nft.token} isn't associated to the rental protocol`);
+			}
+		}
+
+		this.offers.set(hash, signed);
+		return hash;
+	}
+
+	get(hash: string): OrderBookEntry | undefined {
+		const signed = this.offers.get(hash);
+		return signed && this.toEntry(hash, signed);
+	}
+
+	/**
+	 * @throws InvalidFilterError when a number of the `filter` is invalid
+	 */
+	list(filter: OrderBookFilter = {}): OrderBookEntry[] {
+		const minPrice = filterNumber(filter, "minPrice");
+		const maxPrice = filterNumber(filter, "maxPrice");
+		const validUntil = filterNumber(filter, "validUntil") ?? BigNumber.from(this.now);
+		const entries: OrderBookEntry[] = [];
+
+		this.offers.forEach((signed, hash) => {
+			const { offer } = signed;
+			const isPublic = same(offer.taker, ZERO_ADDRESS);
+			const matches =
+				(!filter.collection || offer.nfts.some((nft) => same(nft.token, filter.collection as string))) &&
+				(!filter.maker || same(offer.maker, filter.maker)) &&
+				(!filter.taker || isPublic || same(offer.taker, filter.taker)) &&
+				(!filter.visibility || (filter.visibility === "public") === isPublic) &&
+				(!filter.feeToken || same(offer.feeToken, filter.feeToken)) &&
+				(minPrice === undefined || BigNumber.from(offer.feeAmount).gte(minPrice)) &&
+				(maxPrice === undefined || BigNumber.from(offer.feeAmount).lte(maxPrice)) &&
+				BigNumber.from(offer.deadline).gte(validUntil);
+			if (matches) {
+				entries.push(this.toEntry(hash, signed));
+			}
+		});
+
+		return entries;
+	}
+
+	/**
+	 * Drop expired offers and the ones whose nonce has been used (filled or cancelled).
+	 * @returns hashes of the dropped offers
+	 */
+	async prune(): Promise<string[]> {
+		await this.refreshTime();
+		const dropped: string[] = [];
+
+		for (const [hash, { offer }] of Array.from(this.offers.entries())) {
+			const expired = BigNumber.from(offer.deadline).lt(this.now);
+			if (expired || (await this.rp.invalidNonce(offer.maker, offer.nonce))) {
+				this.offers.delete(hash);
+				dropped.push(hash);
+			}
+		}
+
+		return dropped;
+	}
+
+	private toEntry(hash: string, signed: SignedRentalOffer): OrderBookEntry {
+		return {
+			hash,
+			...signedOfferToJSON(signed),
+			rent: {
+				to: this.rp.address,
+				data: this.rp.interface.encodeFunctionData("rent", [signed.offer, signed.signatureType, signed.signature]),
+			},
+		};
+	}
+
+	private async getDomain(): Promise<TypedDataDomain> {
+		if (!this.domain) {
+			this.domain = await getRentalDomain(this.rp);
+		}
+		return this.domain;
+	}
+
+	private async refreshTime() {
+		const block = await this.rp.provider.getBlock("latest");
+		this.now = block.timestamp;
+	}
+}
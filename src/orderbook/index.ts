@@ -0,0 +1,2 @@
+export * from "./OrderBook";
+export * from "./server";
@@ -0,0 +1,105 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { URL } from "url";
+import { InvalidFilterError, InvalidOfferError, OrderBook, OrderBookFilter } from "./OrderBook";
+
+const MAX_BODY_SIZE = 1024 * 1024; // 1MB
+
+class HttpError extends Error {
+	constructor(readonly status: number, message: string) {
+		super(message);
+		Object.setPrototypeOf(this, HttpError.prototype);
+	}
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		let body = "";
+		req.setEncoding("utf8");
+		req.on("data", (chunk: string) => {
+			body += chunk;
+			if (body.length > MAX_BODY_SIZE) {
+				reject(new HttpError(413, "Body too large"));
+				req.destroy();
+			}
+		});
+		req.on("end", () => resolve(body));
+		req.on("error", reject);
+	});
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+	res.writeHead(status, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(body));
+}
+
+function parseFilter(params: URLSearchParams): OrderBookFilter {
+	const visibility = params.get("visibility");
+	if (visibility !== null && visibility !== "public" && visibility !== "private") {
+		throw new HttpError(400, `Invalid visibility "${visibility}"`);
+	}
+	const param = (name: string) => params.get(name) ?? undefined;
+	return {
+		collection: param("collection"),
+		maker: param("maker"),
+		taker: param("taker"),
+		visibility: visibility ?? undefined,
+		feeToken: param("feeToken"),
+		minPrice: param("minPrice"),
+		maxPrice: param("maxPrice"),
+		validUntil: param("validUntil"),
+	};
+}
+
+async function route(book: OrderBook, req: IncomingMessage, res: ServerResponse) {
+	const url = new URL(req.url ?? "/", "http://localhost");
+	const [resource, hash, ...rest] = url.pathname.split("/").filter((part) => part !== "");
+	if (resource !== "offers" || rest.length > 0) {
+		throw new HttpError(404, "Not found");
+	}
+
+	if (req.method === "POST" && !hash) {
+		let json;
+		try {
+			json = JSON.parse(await readBody(req));
+		} catch (err: unknown) {
+			throw err instanceof HttpError ? err : new HttpError(400, "Invalid JSON body");
+		}
+		send(res, 201, { hash: await book.add(json) });
+	} else if (req.method === "GET" && !hash) {
+		send(res, 200, book.list(parseFilter(url.searchParams)));
+	} else if (req.method === "GET") {
+		const entry = book.get(hash);
+		if (!entry) {
+			throw new HttpError(404, "Offer not found");
+		}
+		send(res, 200, entry);
+	} else {
+		throw new HttpError(405, "Method not allowed");
+	}
+}
+
+/**
+ * HTTP API of the order book:
+ * - `POST /offers`: add an EIP-712 signed offer (`SignedRentalOfferJSON`)
+ * - `GET /offers`: list offers, filtered by `collection`, `maker`, `taker`, `visibility`
+ *   (`public` or `private`), `feeToken`, `minPrice`, `maxPrice` and `validUntil` query parameters
+ * - `GET /offers/:hash`: get a single offer
+ *
+ * Returned offers include the `rent` transaction (`to` and `data`) to take them. Invalid requests
+ * are answered with a 400 status.
+ * @param onError called with the unexpected errors, answered with a 500 status
+ */
+export function createOrderBookServer(book: OrderBook, onError?: (err: unknown) => void): Server {
+	return createServer((req, res) => {
+		route(book, req, res).catch((err: unknown) => {
+			if (err instanceof HttpError) {
+				send(res, err.status, { error: err.message });
+			} else if (err instanceof InvalidOfferError || err instanceof InvalidFilterError) {
+				send(res, 400, { error: err.message });
+			} else {
+				onError?.(err);
+				send(res, 500, { error: "Internal error" });
+			}
+		});
+	});
+}
@@ -0,0 +1,186 @@
+import { BigNumber, BytesLike, utils } from "ethers";
+import { IERC20__factory, IERC721__factory } from "../artifacts/typechain";
+import { getRevertReason } from "./errors";
+import type { RentalClient } from "./RentalClient";
+import { recoverRentalOfferSigner } from "./signing";
+import { MAX_BASIS_POINTS, RentalOffer, SignatureType, ZERO_ADDRESS } from "./types";
+
+/**
+ * Why `rent` would revert. Problems of a single NFT of the offer have its `nft` index.
+ */
+export type RentProblemCode =
+	| "PAUSED"
+	| "UNSUPPORTED_SIGNATURE_TYPE"
+	| "PRESIGNED_OFFER_NOT_FOUND"
+	| "SIGNER_NOT_MAKER"
+	| "NONCE_USED"
+	| "DEADLINE_PASSED"
+	| "PRIVATE_RENTAL"
+	| "COLLECTION_NOT_ASSOCIATED"
+	| "BASIS_POINTS_TOO_HIGH"
+	| "DUPLICATE_NFT"
+	| "MAKER_NOT_OWNER"
+	| "NFT_NOT_APPROVED"
+	| "INVALID_FEE_TOKEN"
+	| "INSUFFICIENT_FEE_BALANCE"
+	| "INSUFFICIENT_FEE_ALLOWANCE"
+	| "SIMULATION_FAILED";
+
+export interface RentProblem {
+	code: RentProblemCode;
+	message: string;
+	/** Index of the NFT in `offer.nfts` */
+	nft?: number;
+}
+
+/**
+ * Upfront cost of the rental paid by the tenant: the protocol fee goes to the fees collector and
+ * the remaining to the lender.
+ */
+export interface RentFees {
+	feeToken: string;
+	feeAmount: BigNumber;
+	feesCollector: string;
+	protocolFee: BigNumber;
+	lender: string;
+	lenderAmount: BigNumber;
+}
+
+export interface RentPreflight {
+	/** `rent` is expected to succeed */
+	ok: boolean;
+	problems: RentProblem[];
+	fees: RentFees;
+	/** Revert reason of the simulated `rent` call, if it reverts */
+	revertReason?: string;
+}
+
+/**
+ * Check off-chain every condition for `tenant` to rent the `offer`, then simulate the `rent` call.
+ *
+ * @returns every problem found rather than only the first revert, and the fees the tenant would pay
+ */
+export async function preflightRent(
+	client: RentalClient,
+	offer: RentalOffer,
+	signatureType: SignatureType,
+	signature: BytesLike,
+	tenant: string
+): Promise<RentPreflight> {
+	const rp = client.protocol;
+	const provider = rp.provider;
+	const problems: RentProblem[] = [];
+	const problem = (code: RentProblemCode, message: string, nft?: number) =>
+		problems.push(nft === undefined ? { code, message } : { code, message, nft });
+	const maker = utils.getAddress(offer.maker);
+
+	if (await rp.paused()) {
+		problem("PAUSED", "The rental protocol is paused");
+	}
+
+	// signature
+	if (signatureType === SignatureType.PRE_SIGNED) {
+		if (!(await rp.preSignedOffer(await rp.hashRentalOffer(offer)))) {
+			problem("PRESIGNED_OFFER_NOT_FOUND", "The offer hasn't been pre-signed by its maker");
+		}
+	} else if (signatureType === SignatureType.EIP_712) {
+		let signer: string | undefined;
+		try {
+			signer = recoverRentalOfferSigner(await client.getDomain(), offer, signature);
+		} catch (err: unknown) {
+			signer = undefined;
+		}
+		if (signer !== maker) {
+			problem("SIGNER_NOT_MAKER", signer ? `The offer is signed by ${signer}, not ${maker}` : "Invalid signature");
+		}
+	} else {
+		problem("UNSUPPORTED_SIGNATURE_TYPE", `Signature type ${SignatureType[signatureType]} isn't supported`);
+	}
+
+	// offer
+	if (await rp.invalidNonce(maker, offer.nonce)) {
+		problem("NONCE_USED", "The offer has been cancelled or already filled");
+	}
+	const { timestamp } = await provider.getBlock("latest");
+	if (BigNumber.from(offer.deadline).lt(timestamp + 1)) {
+		problem("DEADLINE_PASSED", `The offer expired at ${BigNumber.from(offer.deadline).toString()}`);
+	}
+	if (offer.taker !== ZERO_ADDRESS && offer.taker.toLowerCase() !== tenant.toLowerCase()) {
+		problem("PRIVATE_RENTAL", `The offer is reserved to ${offer.taker}`);
+	}
+
+	// NFTs
+	const seen: string[] = [];
+	for (let i = 0; i < offer.nfts.length; i++) {
+		const { token, tokenId, basisPoints } = offer.nfts[i];
+		const id = `${token.toLowerCase()}:${BigNumber.from(tokenId).toString()}`;
+		if (seen.indexOf(id) !== -1) {
+			problem("DUPLICATE_NFT", `${token} #${tokenId} is in the offer more than once`, i);
+		}
+		seen.push(id);
+		if (BigNumber.from(basisPoints).gt(MAX_BASIS_POINTS)) {
+			problem("BASIS_POINTS_TOO_HIGH", `No more than 100% rewards, got ${basisPoints} basis points`, i);
+		}
+		if (!(await client.getRentalNFTs(token))) {
+			problem("COLLECTION_NOT_ASSOCIATED", `Collection ${token} isn't associated to the rental protocol`, i);
+			continue;
+		}
+
+		const erc721 = IERC721__factory.connect(token, provider);
+		const owner = await erc721.ownerOf(tokenId).catch(() => undefined);
+		if (owner !== maker) {
+			problem("MAKER_NOT_OWNER", `${token} #${tokenId} isn't owned by the maker (owner: ${owner ?? "none"})`, i);
+			continue;
+		}
+		const approved =
+			(await erc721.isApprovedForAll(maker, rp.address)) || (await erc721.getApproved(tokenId)) === rp.address;
+		if (!approved) {
+			problem("NFT_NOT_APPROVED", `The maker hasn't approved the rental protocol to transfer ${token} #${tokenId}`, i);
+		}
+	}
+
+	// upfront cost
+	const feeAmount = BigNumber.from(offer.feeAmount);
+	const protocolFee = feeAmount.mul(await rp.protocolFeeBasisPoints()).div(MAX_BASIS_POINTS);
+	const fees: RentFees = {
+		feeToken: offer.feeToken,
+		feeAmount,
+		feesCollector: await rp.feesCollector(),
+		protocolFee,
+		lender: maker,
+		lenderAmount: feeAmount.sub(protocolFee),
+	};
+	if (feeAmount.gt(0) && (await provider.getCode(offer.feeToken)) === "0x") {
+		problem(
+			"INVALID_FEE_TOKEN",
+			offer.feeToken === ZERO_ADDRESS
+				? `The offer has a fee of ${feeAmount} but no fee token`
+				: `The fee token ${offer.feeToken} isn't a contract`
+		);
+	} else if (feeAmount.gt(0)) {
+		const feeToken = IERC20__factory.connect(offer.feeToken, provider);
+		const [balance, allowance] = await Promise.all([
+			feeToken.balanceOf(tenant).catch(() => BigNumber.from(0)),
+			feeToken.allowance(tenant, rp.address).catch(() => BigNumber.from(0)),
+		]);
+		if (balance.lt(feeAmount)) {
+			problem("INSUFFICIENT_FEE_BALANCE", `The tenant has ${balance} of the ${feeAmount} fee tokens needed`);
+		}
+		if (allowance.lt(feeAmount)) {
+			problem("INSUFFICIENT_FEE_ALLOWANCE", `The tenant allowed ${allowance} of the ${feeAmount} fee tokens needed`);
+		}
+	}
+
+	// simulation, catching what the checks above missed
+	let reason: string | undefined;
+	try {
+		await rp.connect(provider).callStatic.rent(offer, signatureType, signature, { from: tenant });
+	} catch (err: unknown) {
+		reason = getRevertReason(err) ?? (err instanceof Error ? err.message : String(err));
+		if (problems.length === 0) {
+			problem("SIMULATION_FAILED", reason);
+		}
+	}
+
+	return { ok: problems.length === 0, problems, fees, revertReason: reason };
+}
@@ -0,0 +1,57 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { Fee, MAX_BASIS_POINTS } from "./types";
+
+const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+export interface RewardShare {
+	to: string;
+	amount: bigint;
+}
+
+function toBigInt(value: BigNumberish | bigint): bigint {
+	return typeof value === "bigint" ? value : BigInt(BigNumber.from(value).toString());
+}
+
+/**
+ * Exact replica of `BorrowedNFT.onERC20Received` rewards split: each fee of the `fees` table
+ * (see `getFeesTable`) takes its basis points of what the previous ones left, rounded down,
+ * and the `holder` of the borrowed NFT gets the remaining.
+ *
+ * @returns one share per `RewardsDistributed` event, in the same order
+ * @throws RangeError when the contract would revert on an overflow or underflow
+ */
+export function splitRewards(amount: BigNumberish | bigint, fees: Fee[], holder: string): RewardShare[] {
+	let remaining = toBigInt(amount);
+	if (remaining < BigInt(0) || remaining > MAX_UINT256) {
+		throw new RangeError(`Amount ${remaining} isn't a uint256`);
+	}
+
+	const shares: RewardShare[] = [];
+	for (const fee of fees) {
+		const product = remaining * BigInt(fee.basisPoints);
+		if (product > MAX_UINT256) {
+			throw new RangeError(`Rewards split of ${remaining} overflows`);
+		}
+		const reward = product / BigInt(MAX_BASIS_POINTS);
+		if (reward > remaining) {
+			throw new RangeError(`Fee of ${fee.basisPoints} basis points underflows`);
+		}
+		remaining -= reward;
+		shares.push({ to: fee.to, amount: reward });
+	}
+	shares.push({ to: holder, amount: remaining });
+
+	return shares;
+}
+
+/**
+ * Total amount received by each address, an address can appear several times in a split
+ * (e.g. a lender renting to themself).
+ */
+export function sumRewardShares(shares: RewardShare[]): Map<string, bigint> {
+	const totals = new Map<string, bigint>();
+	for (const { to, amount } of shares) {
+		totals.set(to, (totals.get(to) ?? BigInt(0)) + amount);
+	}
+	return totals;
+}
@@ -0,0 +1,101 @@
+import { BytesLike, TypedDataDomain, TypedDataField, utils } from "ethers";
+import type { RentalProtocol } from "../artifacts/typechain";
+import { RentalOffer } from "./types";
+
+/**
+ * EIP-712 types of a `RentalOffer`, as hashed by `RentalProtocol.hashRentalOffer`.
+ */
+export const RENTAL_OFFER_TYPES: Record<string, TypedDataField[]> = {
+	RentalOffer: [
+		{ name: "maker", type: "address" },
+		{ name: "taker", type: "address" },
+		{ name: "nfts", type: "NFT[]" },
+		{ name: "feeToken", type: "address" },
+		{ name: "feeAmount", type: "uint256" },
+		{ name: "nonce", type: "uint256" },
+		{ name: "deadline", type: "uint256" },
+	],
+	NFT: [
+		{ name: "token", type: "address" },
+		{ name: "tokenId", type: "uint256" },
+		{ name: "duration", type: "uint64" },
+		{ name: "basisPoints", type: "uint16" },
+	],
+};
+
+/**
+ * Any signer able to sign EIP-712 typed data (`Wallet`, `JsonRpcSigner`, hardhat signers, ...).
+ */
+export interface TypedDataSigner {
+	getAddress(): Promise<string>;
+	_signTypedData(
+		domain: TypedDataDomain,
+		types: Record<string, TypedDataField[]>,
+		value: Record<string, unknown>
+	): Promise<string>;
+}
+
+/**
+ * Build the EIP-712 domain (`Cometh-Rental` v1) of a deployed rental protocol proxy.
+ */
+export async function getRentalDomain(rp: RentalProtocol): Promise<TypedDataDomain> {
+	const [name, version, { chainId }] = await Promise.all([
+		rp.SIGNING_DOMAIN(),
+		rp.SIGNATURE_VERSION(),
+		rp.provider.getNetwork(),
+	]);
+	return { name, version, chainId, verifyingContract: rp.address };
+}
+
+/**
+ * Off-chain equivalent of `RentalProtocol.hashRentalOffer`.
+ */
+export function hashRentalOffer(domain: TypedDataDomain, offer: RentalOffer): string {
+	return utils._TypedDataEncoder.hash(domain, RENTAL_OFFER_TYPES, offer);
+}
+
+/**
+ * Sign `offer` so that it can be used with `SignatureType.EIP_712`.
+ */
+export function signRentalOffer(
+	signer: TypedDataSigner,
+	domain: TypedDataDomain,
+	offer: RentalOffer
+): Promise<string> {
+	return signer._signTypedData(domain, RENTAL_OFFER_TYPES, offer);
+}
+
+/**
+ * @returns the address of the account which signed `offer`
+ */
+export function recoverRentalOfferSigner(domain: TypedDataDomain, offer: RentalOffer, signature: BytesLike): string {
+	return utils.verifyTypedData(domain, RENTAL_OFFER_TYPES, offer, signature);
+}
+
+/**
+ * Whether `signature` has been made by `offer.maker`, as checked by `rent` for `SignatureType.EIP_712`.
+ */
+export function verifyRentalOffer(domain: TypedDataDomain, offer: RentalOffer, signature: BytesLike): boolean {
+	try {
+		return recoverRentalOfferSigner(domain, offer, signature) === utils.getAddress(offer.maker);
+	} catch (err: unknown) {
+		// malformed signature
+		return false;
+	}
+}
+
+export interface OfferHashCheck {
+	local: string;
+	onChain: string;
+	matches: boolean;
+}
+
+/**
+ * Cross-check the off-chain hash of `offer` against `hashRentalOffer` of the deployed protocol.
+ */
+export async function checkRentalOfferHash(rp: RentalProtocol, offer: RentalOffer): Promise<OfferHashCheck> {
+	const domain = await getRentalDomain(rp);
+	const local = hashRentalOffer(domain, offer);
+	const onChain = await rp.hashRentalOffer(offer);
+	return { local, onChain, matches: local === onChain };
+}
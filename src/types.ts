@@ -0,0 +1,76 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { IRentalProtocol, LentNFT, BorrowedNFT, SubLentNFT } from "../artifacts/typechain";
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+export const MAX_BASIS_POINTS = 100_00;
+
+/**
+ * Mirror of `IRentalProtocol.SignatureType`.
+ */
+export enum SignatureType {
+	PRE_SIGNED,
+	EIP_712,
+	EIP_1271,
+}
+
+export type RentalOffer = IRentalProtocol.RentalOfferStruct;
+export type RentalOfferNFT = IRentalProtocol.NFTStruct;
+
+/**
+ * Parameters needed to build a `RentalOffer`, omitted fields get sensible defaults:
+ * - `maker`: address of the client signer
+ * - `taker`: `0x0` (public offer)
+ * - `feeToken` / `feeAmount`: `0x0` / `0` (no upfront cost)
+ * - `nonce`: random 32 bytes value, or the next nonce of the client `NonceManager`
+ * - `deadline`: 7 days from now
+ */
+export interface RentalOfferParams {
+	maker?: string;
+	taker?: string;
+	nfts: RentalOfferNFT[];
+	feeToken?: string;
+	feeAmount?: BigNumberish;
+	nonce?: BigNumberish;
+	deadline?: BigNumberish;
+}
+
+export interface Rental {
+	/** When the rental ends (unix timestamp, in seconds) */
+	end: BigNumber;
+	/** Percentage of rewards for the lender, in basis points format */
+	lenderBasisPoints: number;
+	/** Percentage of rewards for the sublender, in basis points format */
+	sublenderBasisPoints: number;
+}
+
+/**
+ * Premature end handshake of an ongoing rental, as seen from its current parties.
+ */
+export interface PrematureEndStatus {
+	/** Current `LentNFT` holder */
+	lender: string;
+	/** Current `BorrowedNFT` holder */
+	tenant: string;
+	/** Last party who requested to end the rental prematurely, if any */
+	requester?: string;
+	/** The requester still holds its rental NFT, the other party can accept the request */
+	valid: boolean;
+	/** Party accepting a valid request */
+	counterparty?: string;
+	/** A sublet must end before the rental can be ended prematurely */
+	subletBlocking: boolean;
+}
+
+export interface Fee {
+	to: string;
+	basisPoints: number;
+}
+
+/**
+ * Rental NFTs contracts associated to an original collection.
+ */
+export interface RentalNFTs {
+	lentNFT: LentNFT;
+	borrowedNFT: BorrowedNFT;
+	subLentNFT: SubLentNFT;
+}
@@ -0,0 +1,227 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { ContractTransaction, utils } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import type { BorrowedNFT, ERC20Test, ERC721Test, RentalClient, RentalOffer, RentalProtocol } from "../src";
+
+const DEFAULT_BASELINE = "benchmarks/gas.json";
+const FEES_BASIS_POINTS = 5_00;
+// fixed offer fields, random nonces and deadlines would change the calldata cost between runs
+const NONCE = 1;
+const DEADLINE = 4_000_000_000;
+const FEE_AMOUNT = utils.parseEther("10");
+const REWARDS = utils.parseEther("100");
+
+/**
+ * Gas used by each benchmarked operation, e.g. `{ "rent/pre-signed/no-fee/1": 250000 }`.
+ */
+export interface GasBaseline {
+	[operation: string]: number;
+}
+
+interface BenchmarkContext {
+	rp: RentalProtocol;
+	erc721: ERC721Test;
+	feesToken: ERC20Test;
+	rewardsToken: ERC20Test;
+	borrowedNFT: BorrowedNFT;
+	lender: SignerWithAddress;
+	tenant: SignerWithAddress;
+	subtenant: SignerWithAddress;
+	client: RentalClient;
+}
+
+/**
+ * Operation measured by the gas used by the transaction returned by `run`, starting from the same
+ * freshly deployed protocol whatever operations ran before.
+ */
+interface Benchmark {
+	operation: string;
+	run: (ctx: BenchmarkContext) => Promise<ContractTransaction>;
+}
+
+async function deployProtocol(hre: HardhatRuntimeEnvironment): Promise<BenchmarkContext> {
+	const { RentalClient } = await import("../src");
+	const [, feesCollector, lender, tenant, subtenant] = await hre.ethers.getSigners();
+	const deploy = async (name: string) => (await hre.ethers.getContractFactory(name)).deploy().then((c) => c.deployed());
+	const deployProxy = async (name: string, args: unknown[]) => {
+		const proxy = await hre.upgrades.deployProxy(await hre.ethers.getContractFactory(name), args);
+		return proxy.deployed();
+	};
+
+	const erc721 = (await deploy("ERC721Test")) as ERC721Test;
+	const feesToken = (await deploy("ERC20Test")) as ERC20Test;
+	const rewardsToken = (await deploy("ERC20Test")) as ERC20Test;
+	const rp = (await deployProxy("RentalProtocol", [feesCollector.address, FEES_BASIS_POINTS])) as RentalProtocol;
+	const lentNFT = await deployProxy("LentNFT", [rp.address, erc721.address, "https://ipfs.io/", ".png"]);
+	const borrowedNFT = (await deployProxy("BorrowedNFT", [rp.address, erc721.address])) as BorrowedNFT;
+	const subLentNFT = await deployProxy("SubLentNFT", [rp.address, erc721.address, "https://ipfs.io/", ".png"]);
+	await rp
+		.associateOriginalToLentAndBorrowedNFT(erc721.address, lentNFT.address, borrowedNFT.address, subLentNFT.address)
+		.then((tx) => tx.wait());
+
+	await erc721
+		.connect(lender)
+		.setApprovalForAll(rp.address, true)
+		.then((tx) => tx.wait());
+	const client = RentalClient.connect(rp.address, lender);
+	return { rp, erc721, feesToken, rewardsToken, borrowedNFT, lender, tenant, subtenant, client };
+}
+
+/**
+ * Offer of `count` freshly minted NFTs of the lender.
+ */
+async function mintOffer(ctx: BenchmarkContext, count: number, fee = false): Promise<RentalOffer> {
+	const nfts = [];
+	for (let tokenId = 1; tokenId <= count; tokenId++) {
+		await ctx.erc721.mint(ctx.lender.address, tokenId).then((tx) => tx.wait());
+		nfts.push({ token: ctx.erc721.address, tokenId, duration: 3600, basisPoints: 10_00 });
+	}
+	if (fee) {
+		await ctx.feesToken.mint(ctx.tenant.address, FEE_AMOUNT).then((tx) => tx.wait());
+		await ctx.feesToken
+			.connect(ctx.tenant)
+			.approve(ctx.rp.address, FEE_AMOUNT)
+			.then((tx) => tx.wait());
+	}
+	return ctx.client.createOffer({
+		nfts,
+		feeToken: fee ? ctx.feesToken.address : undefined,
+		feeAmount: fee ? FEE_AMOUNT : undefined,
+		nonce: NONCE,
+		deadline: DEADLINE,
+	});
+}
+
+/**
+ * Rent the first NFT of the lender to `tenant`, sublet to the subtenant if `sublet`.
+ */
+async function startRental(ctx: BenchmarkContext, tenant = ctx.tenant, sublet = false) {
+	const offer = await mintOffer(ctx, 1);
+	await ctx.client.preSignOffer(offer).then((tx) => tx.wait());
+	await ctx.client
+		.connect(tenant)
+		.rent(offer)
+		.then((tx) => tx.wait());
+	if (sublet) {
+		await ctx.client
+			.connect(tenant)
+			.sublet(ctx.erc721.address, 1, ctx.subtenant.address, 20_00)
+			.then((tx) => tx.wait());
+	}
+}
+
+async function distributeRewards(ctx: BenchmarkContext) {
+	await ctx.rewardsToken.mint(ctx.borrowedNFT.address, REWARDS).then((tx) => tx.wait());
+	return ctx.borrowedNFT.onERC20Received(1, ctx.rewardsToken.address, REWARDS);
+}
+
+async function endRental(ctx: BenchmarkContext, hre: HardhatRuntimeEnvironment) {
+	await hre.network.provider.send("evm_increaseTime", [3601]);
+	return ctx.client.endRental(ctx.erc721.address, 1);
+}
+
+function benchmarks(hre: HardhatRuntimeEnvironment): Benchmark[] {
+	const rents: Benchmark[] = [];
+	for (const signed of [false, true]) {
+		for (const fee of [false, true]) {
+			for (const count of [1, 5, 20, 50]) {
+				rents.push({
+					operation: `rent/${signed ? "eip-712" : "pre-signed"}/${fee ? "fee" : "no-fee"}/${count}`,
+					run: async (ctx) => {
+						const { SignatureType } = await import("../src");
+						const offer = await mintOffer(ctx, count, fee);
+						if (signed) {
+							const signature = await ctx.client.signOffer(offer);
+							return ctx.client.connect(ctx.tenant).rent(offer, SignatureType.EIP_712, signature);
+						}
+						await ctx.client.preSignOffer(offer).then((tx) => tx.wait());
+						return ctx.client.connect(ctx.tenant).rent(offer);
+					},
+				});
+			}
+		}
+	}
+
+	return [
+		{ operation: "preSignRentalOffer", run: async (ctx) => ctx.client.preSignOffer(await mintOffer(ctx, 1)) },
+		...rents,
+		{
+			operation: "sublet",
+			run: async (ctx) => {
+				await startRental(ctx);
+				return ctx.client.connect(ctx.tenant).sublet(ctx.erc721.address, 1, ctx.subtenant.address, 20_00);
+			},
+		},
+		{ operation: "endRental/no-sublet", run: (ctx) => startRental(ctx).then(() => endRental(ctx, hre)) },
+		{ operation: "endRental/sublet", run: (ctx) => startRental(ctx, ctx.tenant, true).then(() => endRental(ctx, hre)) },
+		// the lender renting its own NFT gets both the lender and tenant shares
+		{
+			operation: "onERC20Received/1-recipient",
+			run: (ctx) => startRental(ctx, ctx.lender).then(() => distributeRewards(ctx)),
+		},
+		{ operation: "onERC20Received/2-recipients", run: (ctx) => startRental(ctx).then(() => distributeRewards(ctx)) },
+		{
+			operation: "onERC20Received/3-recipients",
+			run: (ctx) => startRental(ctx, ctx.tenant, true).then(() => distributeRewards(ctx)),
+		},
+	];
+}
+
+task("rental:gas-benchmark", "Measure the gas used by the protocol operations and compare it to the baseline")
+	.addParam("baseline", "Baseline JSON file", DEFAULT_BASELINE, types.string)
+	.addParam("threshold", "Increase from the baseline failing the benchmark, in percent", 1, types.float)
+	.addOptionalParam("operations", "Only benchmark the operations starting with this prefix", undefined, types.string)
+	.addFlag("update", "Write the measured gas to the baseline instead of comparing")
+	.setAction(async (args, hre) => {
+		if (hre.network.name !== "hardhat") {
+			throw new Error("The gas benchmark only runs on the hardhat network");
+		}
+		const selected = benchmarks(hre).filter(
+			({ operation }) => !args.operations || operation.startsWith(args.operations)
+		);
+		if (selected.length === 0) {
+			throw new Error(`No operation starts with "${args.operations}"`);
+		}
+
+		// every operation starts from this snapshot, so that their gas doesn't depend on the ones before
+		const ctx = await deployProtocol(hre);
+		const results: GasBaseline = {};
+		for (const { operation, run } of selected) {
+			const snapshot = await hre.network.provider.send("evm_snapshot", []);
+			try {
+				const receipt = await (await run(ctx)).wait();
+				results[operation] = receipt.gasUsed.toNumber();
+			} finally {
+				await hre.network.provider.send("evm_revert", [snapshot]);
+			}
+		}
+
+		const baseline: GasBaseline = existsSync(args.baseline) ? JSON.parse(readFileSync(args.baseline, "utf8")) : {};
+		const regressions: string[] = [];
+		const width = Math.max(...selected.map(({ operation }) => operation.length));
+		for (const operation of Object.keys(results)) {
+			const gas = results[operation];
+			const previous = baseline[operation];
+			let diff = "new";
+			if (previous !== undefined) {
+				const percent = ((gas - previous) / previous) * 100;
+				diff = `${percent >= 0 ? "+" : ""}${percent.toFixed(2)}%`;
+				if (percent > args.threshold) {
+					regressions.push(`${operation}: ${previous} -> ${gas} (${diff})`);
+				}
+			}
+			const column = (value: string, length: number) => value + " ".repeat(Math.max(0, length - value.length));
+			console.log(`${column(operation, width)}  ${column(String(gas), 9)}  ${diff}`);
+		}
+
+		if (args.update) {
+			// keep the baseline of the operations not benchmarked this time
+			writeFileSync(args.baseline, JSON.stringify({ ...baseline, ...results }, null, 2) + "\n");
+			console.log(`Wrote the gas of ${Object.keys(results).length} operation(s) to "${args.baseline}"`);
+		} else if (regressions.length > 0) {
+			throw new Error(`Gas regressed by more than ${args.threshold}%:\n${regressions.join("\n")}`);
+		}
+		return results;
+	});
@@ -0,0 +1,163 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { BigNumber, utils } from "ethers";
+import type { RentalClient, RentalOffer } from "../src";
+import { rentalProtocolAddress, rentalProtocolStartBlock } from "./deploy";
+import { NONCE_FILE } from "./nonces";
+import { registeredCollection } from "./registry";
+
+interface BundleOffer {
+	offer: RentalOffer;
+	/** Offer file, not written on dry runs */
+	file?: string;
+	transactionHash?: string;
+}
+
+/**
+ * Tokens of `token` held by `owner` according to the `Transfer` logs since `startBlock`, confirmed
+ * with `ownerOf`.
+ */
+async function findHoldings(hre: HardhatRuntimeEnvironment, token: string, owner: string, startBlock: number) {
+	const erc721 = await hre.ethers.getContractAt("IERC721", token);
+	const logs = (
+		await Promise.all([
+			erc721.queryFilter(erc721.filters.Transfer(null, owner), startBlock),
+			erc721.queryFilter(erc721.filters.Transfer(owner, null), startBlock),
+		])
+	)
+		.reduce((all, some) => all.concat(some), [])
+		.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+	const held = new Set<string>();
+	for (const log of logs) {
+		const tokenId = (log.args?.tokenId as BigNumber).toString();
+		if (log.args?.to === owner) {
+			held.add(tokenId);
+		} else {
+			held.delete(tokenId);
+		}
+	}
+	const holdings: string[] = [];
+	for (const tokenId of Array.from(held)) {
+		if ((await erc721.ownerOf(tokenId)) === owner) {
+			holdings.push(tokenId);
+		}
+	}
+	return holdings;
+}
+
+/**
+ * Holdings of `maker` which aren't rented.
+ */
+async function availableTokens(
+	hre: HardhatRuntimeEnvironment,
+	client: RentalClient,
+	token: string,
+	maker: string,
+	startBlock: number
+) {
+	const available: string[] = [];
+	for (const tokenId of await findHoldings(hre, token, maker, startBlock)) {
+		if (!(await client.getRental(token, tokenId))) {
+			available.push(tokenId);
+		}
+	}
+	return available;
+}
+
+task("rental:bundle-offers", "Offer the NFTs held by the signer in bundles priced by a config file")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("pricing", "JSON bundle config file with the pricing rules, see the README", undefined, types.inputFile)
+	.addOptionalParam("collection", "Registered collection when the config has none (default: the only registered one)", undefined, types.string)
+	.addOptionalParam("startBlock", "First block of the Transfer logs of the collection (default: the rental protocol deployment block registered for the network, else 0)", undefined, types.int)
+	.addFlag("sign", "Sign the offers off-chain (EIP-712) instead of pre-signing them on-chain")
+	.addFlag("approve", "Approve the rental protocol to transfer the NFTs of the collection if needed")
+	.addParam("out", "Directory where to write the offer files", "offers", types.string)
+	.addParam("nonces", "JSON file recording the nonces of the offers signed off-chain", NONCE_FILE, types.string)
+	.addFlag("dryRun", "Only print the bundles")
+	.setAction(async (args, hre) => {
+		const {
+			JsonFileNonceStore,
+			NonceManager,
+			RentalClient,
+			SignatureType,
+			buildBundles,
+			offerToJSON,
+			parseBundleConfig,
+			priceToken,
+			signedOfferToJSON,
+		} = await import("../src/node");
+		const [signer] = await hre.ethers.getSigners();
+		// random nonces on dry runs, the nonce file is only updated for offers actually made
+		const nonces = args.dryRun ? undefined : new NonceManager(new JsonFileNonceStore(args.nonces));
+		const client = RentalClient.connect(rentalProtocolAddress(hre, args.rental), signer, nonces);
+		const config = parseBundleConfig(JSON.parse(readFileSync(args.pricing, "utf8")));
+		const token = config.collection ?? registeredCollection(hre, args.collection).original;
+		await client.requireRentalNFTs(token);
+
+		const feeToken = config.feeToken && (await hre.ethers.getContractAt("ERC20", config.feeToken));
+		const [decimals, symbol] = feeToken ? await Promise.all([feeToken.decimals(), feeToken.symbol()]) : [18, ""];
+		const tokenIds = await availableTokens(
+			hre,
+			client,
+			token,
+			signer.address,
+			rentalProtocolStartBlock(hre, client.address, args.startBlock)
+		);
+		const priced = tokenIds.map((tokenId) => priceToken(config, tokenId, decimals));
+		const bundles = buildBundles(token, priced, config);
+		const { timestamp } = await hre.ethers.provider.getBlock("latest");
+		const deadline = config.validity === undefined ? undefined : timestamp + config.validity;
+		const offers: BundleOffer[] = [];
+		for (const params of bundles) {
+			offers.push({ offer: await client.createOffer({ ...params, deadline }) });
+		}
+
+		console.log(
+			`${tokenIds.length} NFT(s) of "${token}" available for "${signer.address}" in ${offers.length} bundle(s):`
+		);
+		offers.forEach(({ offer }, i) => {
+			const tokens = offer.nfts.map((nft) => `#${nft.tokenId}`).join(", ");
+			const fee = BigNumber.from(offer.feeAmount).isZero()
+				? "no fee"
+				: `${utils.formatUnits(offer.feeAmount, decimals)} ${symbol}`;
+			console.log(`- bundle ${i + 1}: ${tokens} (${fee})`);
+		});
+
+		const erc721 = await hre.ethers.getContractAt("IERC721", token);
+		if (offers.length > 0 && !(await erc721.isApprovedForAll(signer.address, client.address))) {
+			if (!args.approve) {
+				throw new Error(`The rental protocol isn't approved to transfer the NFTs of "${token}", use --approve`);
+			}
+			console.log(`Approving the rental protocol for "${token}"${args.dryRun ? " (dry run)" : ""}`);
+			if (!args.dryRun) {
+				await (await erc721.connect(signer).setApprovalForAll(client.address, true)).wait();
+			}
+		}
+		if (args.dryRun) {
+			return offers;
+		}
+
+		mkdirSync(args.out, { recursive: true });
+		for (const bundle of offers) {
+			const { offer } = bundle;
+			if (args.sign) {
+				const signature = await client.signOffer(offer);
+				bundle.file = join(args.out, `offer-${offer.nonce}.signed.json`);
+				writeFileSync(
+					bundle.file,
+					JSON.stringify(signedOfferToJSON({ offer, signatureType: SignatureType.EIP_712, signature }), null, 2)
+				);
+			} else {
+				const tx = await client.preSignOffer(offer);
+				bundle.transactionHash = tx.hash;
+				await tx.wait();
+				bundle.file = join(args.out, `offer-${offer.nonce}.json`);
+				writeFileSync(bundle.file, JSON.stringify(offerToJSON(offer), null, 2));
+			}
+		}
+		console.log(`${offers.length} offer(s) ${args.sign ? "signed" : "pre-signed"}, written to "${args.out}"`);
+		return offers;
+	});
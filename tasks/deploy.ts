@@ -0,0 +1,405 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { Contract } from "ethers";
+import type { NetworkAddresses, RentalProtocol } from "../src";
+import { networkAddresses, registryFile, updateRegistry } from "./registry";
+import { openSafeBatch } from "./safe";
+
+export const ROLES = ["DEFAULT_ADMIN_ROLE", "TOKENS_MANAGER_ROLE", "FEES_MANAGER_ROLE", "PAUSER_ROLE"] as const;
+export type Role = typeof ROLES[number];
+
+/** Current holders of each role, in the order they were granted */
+export type RoleHolders = { [role in Role]: string[] };
+
+const RENTAL_NFTS = { lentNFT: "LentNFT", borrowedNFT: "BorrowedNFT", subLentNFT: "SubLentNFT" } as const;
+type RentalNFT = keyof typeof RENTAL_NFTS;
+
+/**
+ * Desired state of the protocol on a network, see `deployments/manifests/<network>.json`.
+ */
+export interface DeploymentManifest {
+	feesCollector: string;
+	feesBasisPoints: number;
+	/** Original collections to associate to rental NFTs */
+	collections: { name: string; address: string; uriPrefix: string; uriSuffix: string }[];
+	/** Accounts granted each role, on top of the deployer */
+	roles: { [role in Role]?: string[] };
+	/** Reward tokens to register, by symbol */
+	rewardTokens?: { [symbol: string]: string };
+}
+
+/**
+ * What has been deployed on a network, written after each step so that a failed deployment resumes
+ * where it stopped, see `deployments/<network>.json`.
+ */
+export interface DeploymentRecord {
+	chainId: number;
+	rentalProtocol?: string;
+	/** Block of the rental protocol deployment */
+	deploymentBlock?: number;
+	collections: { [name: string]: { original: string } & { [nft in RentalNFT]?: string } };
+	steps: { step: string; address?: string; txHash?: string; date: string }[];
+}
+
+function parseManifest(hre: HardhatRuntimeEnvironment, file: string): DeploymentManifest {
+	const json = JSON.parse(readFileSync(file, "utf8"));
+	const address = (value: unknown, field: string) => {
+		try {
+			return hre.ethers.utils.getAddress(value as string);
+		} catch (err: unknown) {
+			throw new Error(`Invalid manifest "${file}": "${field}" isn't an address`);
+		}
+	};
+
+	const feesBasisPoints = json.feesBasisPoints;
+	if (!Number.isInteger(feesBasisPoints) || feesBasisPoints < 0 || feesBasisPoints > 100_00) {
+		throw new Error(`Invalid manifest "${file}": "feesBasisPoints" must be between 0 and 10000`);
+	}
+	const roles: DeploymentManifest["roles"] = {};
+	for (const role of Object.keys(json.roles ?? {})) {
+		if (ROLES.indexOf(role as Role) === -1) {
+			throw new Error(`Invalid manifest "${file}": unknown role "${role}"`);
+		}
+		roles[role as Role] = json.roles[role].map((account: unknown, i: number) => address(account, `roles.${role}[${i}]`));
+	}
+	const rewardTokens: { [symbol: string]: string } = {};
+	for (const symbol of Object.keys(json.rewardTokens ?? {})) {
+		rewardTokens[symbol] = address(json.rewardTokens[symbol], `rewardTokens.${symbol}`);
+	}
+
+	return {
+		feesCollector: address(json.feesCollector, "feesCollector"),
+		feesBasisPoints,
+		collections: (json.collections ?? []).map((collection: DeploymentManifest["collections"][0], i: number) => {
+			if (!collection.name || collection.uriPrefix === undefined || collection.uriSuffix === undefined) {
+				throw new Error(`Invalid manifest "${file}": "collections[${i}]" needs a name, uriPrefix and uriSuffix`);
+			}
+			return { ...collection, address: address(collection.address, `collections[${i}].address`) };
+		}),
+		roles,
+		rewardTokens,
+	};
+}
+
+function readRecord(file: string, chainId: number): DeploymentRecord {
+	if (!existsSync(file)) {
+		return { chainId, collections: {}, steps: [] };
+	}
+	const record: DeploymentRecord = JSON.parse(readFileSync(file, "utf8"));
+	if (record.chainId !== chainId) {
+		throw new Error(`Deployment record "${file}" is for chain ${record.chainId}, not ${chainId}`);
+	}
+	return record;
+}
+
+/**
+ * Address of the rental protocol: `address` when given, else the one of the address registry or of
+ * the deployment record of the network.
+ */
+export function rentalProtocolAddress(hre: HardhatRuntimeEnvironment, address?: string): string {
+	const registered = address ?? networkAddresses(hre)?.rentalProtocol;
+	if (registered) {
+		return registered;
+	}
+	const file = networkRecordFile(hre);
+	const record = readNetworkRecord(hre);
+	if (!record?.rentalProtocol) {
+		throw new Error(`No rental protocol registered for "${hre.network.name}" nor recorded in "${file}", use --rental`);
+	}
+	return record.rentalProtocol;
+}
+
+/**
+ * First block to scan for the logs of the rental protocol at `address`: `startBlock` when given, else the
+ * deployment block of the address registry or of the deployment record of the network, if it's the
+ * same rental protocol, else 0.
+ */
+export function rentalProtocolStartBlock(hre: HardhatRuntimeEnvironment, address: string, startBlock?: number): number {
+	if (startBlock !== undefined) {
+		return startBlock;
+	}
+	const same = (deployment?: { rentalProtocol?: string; deploymentBlock?: number }) =>
+		deployment?.rentalProtocol?.toLowerCase() === address.toLowerCase() ? deployment.deploymentBlock : undefined;
+	return same(networkAddresses(hre)) ?? same(readNetworkRecord(hre)) ?? 0;
+}
+
+function networkRecordFile(hre: HardhatRuntimeEnvironment): string {
+	return join("deployments", `${hre.network.name}.json`);
+}
+
+function readNetworkRecord(hre: HardhatRuntimeEnvironment): DeploymentRecord | undefined {
+	const file = networkRecordFile(hre);
+	return existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : undefined;
+}
+
+/**
+ * Replay the `RoleGranted` and `RoleRevoked` events of the rental protocol to find the current holders
+ * of each role, as `AccessControl` can't enumerate them.
+ */
+export async function getRoleHolders(rp: RentalProtocol, startBlock: number, blockRange: number): Promise<RoleHolders> {
+	const names: { [hash: string]: Role } = {};
+	const holders = {} as RoleHolders;
+	for (const role of ROLES) {
+		names[await rp[role]()] = role;
+		holders[role] = [];
+	}
+
+	const topics = [[rp.interface.getEventTopic("RoleGranted"), rp.interface.getEventTopic("RoleRevoked")]];
+	const filter = { address: rp.address, topics };
+	const toBlock = await rp.provider.getBlockNumber();
+	for (let fromBlock = startBlock; fromBlock <= toBlock; fromBlock += blockRange) {
+		const range = { fromBlock, toBlock: Math.min(fromBlock + blockRange - 1, toBlock) };
+		const logs = await rp.provider.getLogs({ ...filter, ...range });
+		for (const log of logs) {
+			const { name, args } = rp.interface.parseLog(log);
+			const role = names[args.role];
+			const account: string = args.account;
+			if (!role) {
+				continue;
+			}
+			holders[role] = holders[role].filter((holder) => holder !== account);
+			if (name === "RoleGranted") {
+				holders[role].push(account);
+			}
+		}
+	}
+	return holders;
+}
+
+/**
+ * Write the deployed proxies, their implementations and the reward tokens of the manifest to the address registry.
+ */
+async function register(
+	hre: HardhatRuntimeEnvironment,
+	file: string,
+	chainId: number,
+	record: DeploymentRecord,
+	manifest: DeploymentManifest
+) {
+	const implementations: NetworkAddresses["implementations"] = {};
+	const implementation = async (name: keyof typeof implementations, proxy?: string) => {
+		if (proxy && !implementations[name]) {
+			implementations[name] = await hre.upgrades.erc1967.getImplementationAddress(proxy);
+		}
+	};
+	await implementation("RentalProtocol", record.rentalProtocol);
+	for (const name of Object.keys(record.collections)) {
+		for (const nft of Object.keys(RENTAL_NFTS) as RentalNFT[]) {
+			await implementation(RENTAL_NFTS[nft], record.collections[name][nft]);
+		}
+	}
+
+	await updateRegistry(file, chainId, (addresses) => {
+		addresses.rentalProtocol = record.rentalProtocol;
+		addresses.deploymentBlock = record.deploymentBlock;
+		addresses.implementations = { ...addresses.implementations, ...implementations };
+		addresses.collections = { ...addresses.collections, ...record.collections };
+		addresses.rewardTokens = { ...addresses.rewardTokens, ...manifest.rewardTokens };
+	});
+}
+
+task("rental:deploy", "Deploy the rental protocol and its rental NFTs as described by the network manifest")
+	.addOptionalParam("manifest", "Manifest file (default: deployments/manifests/<network>.json)", undefined, types.inputFile)
+	.addOptionalParam("record", "Deployment record file (default: deployments/<network>.json)", undefined, types.string)
+	.addFlag("dryRun", "Only print the missing steps")
+	.addFlag("verify", "Verify the deployed contracts on Etherscan with rental:verify")
+	.addOptionalParam("safe", "Queue the calls to the rental protocol in a Safe transaction batch for this Safe", undefined, types.string)
+	.addOptionalParam("batch", "Safe batch file (default: deployments/<network>.safe.json)", undefined, types.string)
+	.addOptionalParam("registry", "Address registry to update (default: src/address-registry.json, except on local networks)", undefined, types.string)
+	.setAction(async (args, hre) => {
+		const { ZERO_ADDRESS, writeJson } = await import("../src/node");
+		const manifestFile = args.manifest ?? join("deployments", "manifests", `${hre.network.name}.json`);
+		const recordFile = args.record ?? networkRecordFile(hre);
+		const manifest = parseManifest(hre, manifestFile);
+		const { chainId } = await hre.ethers.provider.getNetwork();
+		const record = readRecord(recordFile, chainId);
+		const safe = await openSafeBatch(hre, "rental:deploy", args);
+
+		const [deployer] = await hre.ethers.getSigners();
+		console.info(`Deploying "${manifestFile}" with "${deployer.address}"${args.dryRun ? " (dry run)" : ""}`);
+
+		let missingSteps = 0;
+		/** Perform (or only print when dry running) a missing step, then record it unless queued in the Safe batch */
+		const step = async (
+			description: string,
+			perform: () => Promise<{ address?: string; txHash?: string } | undefined>
+		) => {
+			missingSteps++;
+			console.log(`- ${description}`);
+			if (args.dryRun) {
+				return;
+			}
+			const result = await perform();
+			if (!result) {
+				return;
+			}
+			record.steps.push({ step: description, ...result, date: new Date().toISOString() });
+			await writeJson(recordFile, record, 2);
+		};
+		const hasCode = async (address: string) => (await hre.ethers.provider.getCode(address)) !== "0x";
+		/** Call the rental protocol, or queue the call in the Safe batch */
+		const call = async (description: string, method: string, callArgs: unknown[]) => {
+			const contract = rp as RentalProtocol;
+			if (safe) {
+				safe.batch.add(contract, method, callArgs, description);
+				return undefined;
+			}
+			const sent = await (contract as Contract)[method](...callArgs);
+			await sent.wait();
+			return { txHash: sent.hash as string };
+		};
+		const deployProxy = async (name: string, initArgs: unknown[]) => {
+			const factory = await hre.ethers.getContractFactory(name);
+			const proxy = await hre.upgrades.deployProxy(factory, initArgs);
+			await proxy.deployed();
+			return { address: proxy.address, txHash: proxy.deployTransaction.hash };
+		};
+
+		// rental protocol
+		if (record.rentalProtocol && !(await hasCode(record.rentalProtocol))) {
+			throw new Error(`No contract at the recorded rental protocol "${record.rentalProtocol}"`);
+		}
+		if (!record.rentalProtocol) {
+			await step("Deploy RentalProtocol", async () => {
+				const result = await deployProxy("RentalProtocol", [manifest.feesCollector, manifest.feesBasisPoints]);
+				record.rentalProtocol = result.address;
+				record.deploymentBlock = (await hre.ethers.provider.getTransactionReceipt(result.txHash)).blockNumber;
+				return result;
+			});
+		}
+		if (record.rentalProtocol && record.deploymentBlock === undefined) {
+			// deployed before the deployment block was recorded
+			const deployment = record.steps.filter((step) => step.step === "Deploy RentalProtocol" && step.txHash)[0];
+			const receipt = deployment && (await hre.ethers.provider.getTransactionReceipt(deployment.txHash as string));
+			record.deploymentBlock = receipt?.blockNumber;
+		}
+		const rp = record.rentalProtocol
+			? ((await hre.ethers.getContractAt("RentalProtocol", record.rentalProtocol)) as RentalProtocol)
+			: undefined;
+
+		// protocol fees
+		if (rp && (await rp.feesCollector()) !== manifest.feesCollector) {
+			const description = `Set fees collector to "${manifest.feesCollector}"`;
+			await step(description, () => call(description, "setFeesCollector", [manifest.feesCollector]));
+		}
+		if (rp && (await rp.protocolFeeBasisPoints()) !== manifest.feesBasisPoints) {
+			const description = `Set fees basis points to ${manifest.feesBasisPoints}`;
+			await step(description, () => call(description, "setFeesBasisPoints", [manifest.feesBasisPoints]));
+		}
+
+		// collections
+		for (const collection of manifest.collections) {
+			const deployed = record.collections[collection.name] ?? { original: collection.address };
+			record.collections[collection.name] = deployed;
+			if (deployed.original !== collection.address) {
+				throw new Error(`Collection "${collection.name}" was deployed for "${deployed.original}", not "${collection.address}"`);
+			}
+
+			const associated = rp && {
+				lentNFT: await rp.originalToLentNFT(collection.address),
+				borrowedNFT: await rp.originalToBorrowedNFT(collection.address),
+				subLentNFT: await rp.originalToSubLendNFT(collection.address),
+			};
+
+			for (const nft of Object.keys(RENTAL_NFTS) as RentalNFT[]) {
+				const name = RENTAL_NFTS[nft];
+				// adopt rental NFTs associated before the collection was recorded
+				if (!deployed[nft] && associated && associated[nft] !== ZERO_ADDRESS) {
+					deployed[nft] = associated[nft];
+				}
+				const address = deployed[nft];
+				if (address && !(await hasCode(address))) {
+					throw new Error(`No contract at the recorded ${name} "${address}" of "${collection.name}"`);
+				}
+
+				if (address && nft !== "borrowedNFT") {
+					const contract = await hre.ethers.getContractAt(name, address);
+					const uri = [await contract.uriPrefix(), await contract.uriSuffix()];
+					if (uri[0] !== collection.uriPrefix || uri[1] !== collection.uriSuffix) {
+						console.warn(`! ${name} of "${collection.name}" has the URI "${uri.join("<id>")}", it can't be changed`);
+					}
+				} else if (!address) {
+					await step(`Deploy ${name} of "${collection.name}"`, async () => {
+						const rentalProtocol = (rp as RentalProtocol).address;
+						const result = await deployProxy(
+							name,
+							nft === "borrowedNFT"
+								? [rentalProtocol, collection.address]
+								: [rentalProtocol, collection.address, collection.uriPrefix, collection.uriSuffix]
+						);
+						deployed[nft] = result.address;
+						return result;
+					});
+				}
+			}
+
+			const { lentNFT, borrowedNFT, subLentNFT } = deployed;
+			const upToDate =
+				associated &&
+				associated.lentNFT === lentNFT &&
+				associated.borrowedNFT === borrowedNFT &&
+				associated.subLentNFT === subLentNFT;
+			if (!upToDate) {
+				const description = `Associate "${collection.name}" to its rental NFTs`;
+				await step(description, () =>
+					call(description, "associateOriginalToLentAndBorrowedNFT", [
+						collection.address,
+						lentNFT,
+						borrowedNFT,
+						subLentNFT,
+					])
+				);
+			}
+		}
+
+		// roles
+		for (const role of ROLES) {
+			for (const account of manifest.roles[role] ?? []) {
+				if (!rp || !(await rp.hasRole(await rp[role](), account))) {
+					const description = `Grant ${role} to "${account}"`;
+					await step(description, async () =>
+						call(description, "grantRole", [await (rp as RentalProtocol)[role](), account])
+					);
+				}
+			}
+		}
+		// unlisted holders are only reported, revoking them is left to rental:roles:revoke
+		const unlisted = {} as RoleHolders;
+		if (rp) {
+			const holders = await getRoleHolders(rp, record.deploymentBlock ?? 0, 2000);
+			for (const role of ROLES) {
+				const listed = manifest.roles[role] ?? [];
+				unlisted[role] = holders[role].filter(
+					(account) => account !== deployer.address && listed.indexOf(account) === -1
+				);
+				for (const account of unlisted[role]) {
+					console.warn(`! "${account}" has the ${role} but isn't in the manifest, see rental:roles:revoke`);
+				}
+			}
+		}
+
+		if (!args.dryRun) {
+			await writeJson(recordFile, record, 2);
+			const registry = registryFile(hre, args.registry);
+			if (registry) {
+				await register(hre, registry, chainId, record, manifest);
+				console.log(`Registered the addresses of chain ${chainId} in "${registry}"`);
+			}
+		}
+		const queued = args.dryRun ? 0 : safe?.batch.transactions.length ?? 0;
+		console.log(
+			missingSteps === 0
+				? "Deployment is up to date"
+				: `${missingSteps - queued} step(s) ${args.dryRun ? "missing" : "performed"}, recorded in "${recordFile}"`
+		);
+		if (safe && queued > 0) {
+			safe.batch.write(safe.file);
+		}
+
+		if (args.verify && !args.dryRun) {
+			await hre.run("rental:verify");
+		}
+		return { unlistedRoleHolders: unlisted };
+	});
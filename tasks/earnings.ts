@@ -0,0 +1,251 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { writeFileSync } from "fs";
+import { BigNumber, utils } from "ethers";
+import type { IndexedRental, IndexedReward, RentalProtocol, RentalState } from "../src/node";
+import { rentalProtocolAddress, rentalProtocolStartBlock } from "./deploy";
+
+const TRANSFER_TOPIC = utils.id("Transfer(address,address,uint256)");
+
+/**
+ * - `lender`: rewards share of the `LentNFT` holder, and the rental fee minus the protocol fee
+ * - `sublender`: rewards share of the `SubLentNFT` holder
+ * - `player`: rewards left to the `BorrowedNFT` holder
+ * - `protocol`: protocol fee of the rental fees, paid to the fees collector
+ */
+type EarningRole = "lender" | "sublender" | "player" | "protocol";
+
+interface Earning {
+	recipient: string;
+	role: EarningRole;
+	token: string;
+	symbol: string;
+	decimals: number;
+	/** Total in token units, e.g. `1.5` */
+	amount: string;
+	/** Total in the smallest unit of the token */
+	rawAmount: string;
+	/** Number of transfers summed */
+	transfers: number;
+}
+
+type EarningTotal = Pick<Earning, "recipient" | "role" | "token" | "transfers"> & { amount: BigNumber };
+
+/**
+ * First block mined at or after `timestamp` (in seconds), or the block after the latest one if none.
+ */
+async function blockAt(hre: HardhatRuntimeEnvironment, timestamp: number, latest: number): Promise<number> {
+	let low = 0;
+	let high = latest + 1;
+	while (low < high) {
+		const middle = Math.floor((low + high) / 2);
+		if ((await hre.ethers.provider.getBlock(middle)).timestamp < timestamp) {
+			low = middle + 1;
+		} else {
+			high = middle;
+		}
+	}
+	return low;
+}
+
+function parseDate(date: string, param: string): number {
+	const time = Date.parse(date);
+	if (isNaN(time)) {
+		throw new Error(`Invalid --${param} "${date}", expected an ISO date such as 2022-06-01`);
+	}
+	return Math.floor(time / 1000);
+}
+
+/**
+ * Recipients of the fee table of a rental when its rewards were distributed: at the end of the block,
+ * or before the block when the rental ended during it. Past fee tables need an archive node.
+ */
+async function feeRecipientsAt(rp: RentalProtocol, reward: IndexedReward): Promise<string[]> {
+	if (!reward.collection) {
+		return [];
+	}
+	for (const blockTag of [reward.blockNumber, reward.blockNumber - 1]) {
+		const fees = await rp.getFeesTable(reward.collection, reward.tokenId, { blockTag }).catch(() => undefined);
+		if (fees) {
+			return fees.map((fee) => fee.to.toLowerCase());
+		}
+	}
+	return [];
+}
+
+/**
+ * Each `onERC20Received` call pays its fee table in order, the lender then the sublender when sublet,
+ * and the player last: rewards paid to the next recipient of the fee table are fees, the others are
+ * the player share.
+ */
+async function rewardRoles(rp: RentalProtocol, rewards: IndexedReward[]): Promise<EarningRole[]> {
+	const tables = new Map<string, Promise<string[]>>();
+	const paid = new Map<string, number>();
+	const roles: EarningRole[] = [];
+	for (const reward of rewards) {
+		const call = `${reward.transactionHash}:${reward.borrowedNFT}:${reward.tokenId}:${reward.token}`.toLowerCase();
+		if (!tables.has(call)) {
+			tables.set(call, feeRecipientsAt(rp, reward));
+		}
+		const recipients = await (tables.get(call) as Promise<string[]>);
+		const next = paid.get(call) ?? 0;
+		if (next < recipients.length && recipients[next] === reward.recipient.toLowerCase()) {
+			paid.set(call, next + 1);
+			roles.push(next === 0 ? "lender" : "sublender");
+		} else {
+			// the player share ends the call, another call of the same transaction starts over
+			paid.set(call, 0);
+			roles.push("player");
+		}
+	}
+	return roles;
+}
+
+/**
+ * Rental fee of the offer of a rental: indexed when pre-signed, else decoded from the `rent` call,
+ * unknown when the rental was started through another contract.
+ */
+async function offerFee(
+	hre: HardhatRuntimeEnvironment,
+	rp: RentalProtocol,
+	state: RentalState,
+	rental: IndexedRental
+): Promise<{ feeToken: string; feeAmount: BigNumber } | undefined> {
+	const offer = state.getOffer(rental.lender, rental.nonce);
+	if (offer) {
+		return { feeToken: offer.feeToken, feeAmount: BigNumber.from(offer.feeAmount) };
+	}
+	const tx = await hre.ethers.provider.getTransaction(rental.transactionHash);
+	if (tx.to?.toLowerCase() !== rp.address.toLowerCase()) {
+		return undefined;
+	}
+	const [called] = rp.interface.decodeFunctionData("rent", tx.data);
+	return { feeToken: called.feeToken, feeAmount: called.feeAmount };
+}
+
+task("rental:earnings", "Export what each address earned from rewards and rental fees over a block or date range")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment (default: registered for the network, else 0)", undefined, types.int)
+	.addOptionalParam("fromBlock", "First block of the period (default: --start-block)", undefined, types.int)
+	.addOptionalParam("toBlock", "Last block of the period (default: latest)", undefined, types.int)
+	.addOptionalParam("fromDate", "Start of the period, instead of --from-block (e.g. 2022-06-01)", undefined, types.string)
+	.addOptionalParam("toDate", "End of the period, excluded, instead of --to-block (e.g. 2022-07-01)", undefined, types.string)
+	.addParam("out", "Written to <out>.csv and <out>.json", "earnings", types.string)
+	.setAction(async (args, hre) => {
+		const { MemoryStore, RentalIndexer } = await import("../src/node");
+		if ((args.fromBlock !== undefined && args.fromDate) || (args.toBlock !== undefined && args.toDate)) {
+			throw new Error("Expected either a block or a date for each end of the period");
+		}
+		const rp = await hre.ethers.getContractAt("RentalProtocol", rentalProtocolAddress(hre, args.rental));
+		const startBlock = rentalProtocolStartBlock(hre, rp.address, args.startBlock);
+		const latest = await hre.ethers.provider.getBlockNumber();
+		const fromBlock: number = args.fromDate
+			? await blockAt(hre, parseDate(args.fromDate, "from-date"), latest)
+			: args.fromBlock ?? startBlock;
+		const toBlock: number = args.toDate
+			? (await blockAt(hre, parseDate(args.toDate, "to-date"), latest)) - 1
+			: args.toBlock ?? latest;
+		if (fromBlock > toBlock) {
+			throw new Error(`Empty period: block ${fromBlock} is after block ${toBlock}`);
+		}
+		const inRange = (block: number) => block >= fromBlock && block <= toBlock;
+
+		const indexer = new RentalIndexer(rp, new MemoryStore(), { startBlock });
+		await indexer.sync();
+		const { state } = indexer;
+
+		const totals = new Map<string, EarningTotal>();
+		const add = (recipient: string, role: EarningRole, token: string, amount: BigNumber) => {
+			const key = `${recipient}:${role}:${token}`.toLowerCase();
+			const total = totals.get(key) ?? { recipient, role, token, amount: BigNumber.from(0), transfers: 0 };
+			total.amount = total.amount.add(amount);
+			total.transfers++;
+			totals.set(key, total);
+		};
+
+		// rewards
+		const rewards = state
+			.getRewards()
+			.filter((reward) => inRange(reward.blockNumber))
+			.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+		const roles = await rewardRoles(rp, rewards);
+		rewards.forEach((reward, i) => add(reward.recipient, roles[i], reward.token, BigNumber.from(reward.amount)));
+
+		// rental fees: the tenant pays the protocol fee to the fees collector, then the rest to the maker
+		const rentals = state.getRentals().filter((rental) => inRange(rental.startBlock));
+		const offers = new Map(rentals.map((rental) => [`${rental.lender}:${rental.nonce}`.toLowerCase(), rental]));
+		const paid = new Set<string>();
+		for (const rental of Array.from(offers.values())) {
+			const fee = await offerFee(hre, rp, state, rental);
+			if (!fee) {
+				console.warn(`! Unknown rental fee of the offer ${rental.nonce} of "${rental.lender}", rented through a contract`);
+				continue;
+			}
+			if (fee.feeAmount.isZero()) {
+				continue;
+			}
+			const { logs, blockNumber } = await hre.ethers.provider.getTransactionReceipt(rental.transactionHash);
+			const feesCollector = (await rp.feesCollector({ blockTag: blockNumber })).toLowerCase();
+			const payees: [EarningRole, string][] = [
+				["protocol", feesCollector],
+				["lender", rental.lender.toLowerCase()],
+			];
+			for (const log of logs) {
+				const payment = `${log.transactionHash}:${log.logIndex}`;
+				if (
+					paid.has(payment) ||
+					log.address.toLowerCase() !== fee.feeToken.toLowerCase() ||
+					log.topics.length !== 3 ||
+					log.topics[0] !== TRANSFER_TOPIC ||
+					utils.hexDataSlice(log.topics[1], 12) !== rental.tenant.toLowerCase()
+				) {
+					continue;
+				}
+				const recipient = utils.hexDataSlice(log.topics[2], 12);
+				const payee = payees.findIndex(([, address]) => address === recipient);
+				if (payee !== -1) {
+					add(utils.getAddress(recipient), payees[payee][0], log.address, BigNumber.from(log.data));
+					payees.splice(payee, 1);
+					paid.add(payment);
+				}
+			}
+		}
+
+		// decimal-aware amounts
+		const tokens = new Map<string, { symbol: string; decimals: number }>();
+		for (const { token } of Array.from(totals.values())) {
+			if (!tokens.has(token)) {
+				const erc20 = await hre.ethers.getContractAt("ERC20", token);
+				tokens.set(token, { symbol: await erc20.symbol().catch(() => ""), decimals: await erc20.decimals() });
+			}
+		}
+		const earnings: Earning[] = Array.from(totals.values())
+			.map(({ recipient, role, token, amount, transfers }) => {
+				const { symbol, decimals } = tokens.get(token) as { symbol: string; decimals: number };
+				const formatted = utils.formatUnits(amount, decimals);
+				return { recipient, role, token, symbol, decimals, amount: formatted, rawAmount: amount.toString(), transfers };
+			})
+			.sort(
+				(a, b) =>
+					a.recipient.localeCompare(b.recipient) || a.token.localeCompare(b.token) || a.role.localeCompare(b.role)
+			);
+
+		const columns = ["recipient", "role", "token", "symbol", "amount", "rawAmount", "transfers"] as const;
+		const csv = [columns.join(",")].concat(
+			earnings.map((earning) => columns.map((column) => earning[column]).join(","))
+		);
+		writeFileSync(`${args.out}.csv`, csv.join("\n") + "\n");
+		const [from, to] = await Promise.all([fromBlock, toBlock].map((block) => hre.ethers.provider.getBlock(block)));
+		const period = {
+			fromBlock,
+			toBlock,
+			from: new Date(from.timestamp * 1000).toISOString(),
+			to: new Date(to.timestamp * 1000).toISOString(),
+		};
+		writeFileSync(`${args.out}.json`, JSON.stringify({ rentalProtocol: rp.address, ...period, earnings }, null, 2));
+
+		console.log(
+			`${earnings.length} earning(s) of blocks ${fromBlock}-${toBlock} written to "${args.out}.csv" and "${args.out}.json"`
+		);
+		return earnings;
+	});
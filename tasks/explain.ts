@@ -0,0 +1,25 @@
+import { task, types } from "hardhat/config";
+import { rentalProtocolAddress } from "./deploy";
+
+task("rental:explain", "Decode a transaction into a human-readable timeline of the rental operations")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addPositionalParam("txHash", "Hash of the transaction", undefined, types.string)
+	.setAction(async (args, hre) => {
+		const { RentalClient, explainTransaction } = await import("../src");
+		const client = RentalClient.connect(rentalProtocolAddress(hre, args.rental), hre.ethers.provider);
+		const explanation = await explainTransaction(client, args.txHash);
+
+		const { hash, from, to, blockNumber, status, timeline } = explanation;
+		console.log(`Transaction "${hash}" from "${from}" to "${to}" in block ${blockNumber}: ${status}`);
+		for (const { logIndex, contract, description } of timeline) {
+			console.log(`${logIndex}. [${contract}] ${description}`);
+		}
+		if (status === "reverted") {
+			const { revertError, revertReason } = explanation;
+			const reason = revertError
+				? `${revertError.message} (${revertError.code}: "${revertError.reason}")`
+				: revertReason;
+			console.log(`Reverted: ${reason ?? "no revert reason when replayed, e.g. out of gas"}`);
+		}
+		return explanation;
+	});
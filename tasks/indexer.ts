@@ -0,0 +1,39 @@
+import { task, types } from "hardhat/config";
+import { rentalProtocolAddress, rentalProtocolStartBlock } from "./deploy";
+
+task("rental:index", "Index the rental protocol events into a local JSON store")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("db", "JSON checkpoint of the indexed events, logged in <db>.events", "rental-index.json", types.string)
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment (default: registered for the network, else 0)", undefined, types.int)
+	.addParam("confirmations", "Blocks to wait for before indexing them", 0, types.int)
+	.addOptionalParam("watch", "Keep indexing new blocks every given milliseconds", undefined, types.int)
+	.setAction(async (args, hre) => {
+		const { JsonFileStore, RentalIndexer } = await import("../src/node");
+		const rp = await hre.ethers.getContractAt("RentalProtocol", rentalProtocolAddress(hre, args.rental));
+		const indexer = new RentalIndexer(rp, new JsonFileStore(args.db), {
+			startBlock: rentalProtocolStartBlock(hre, rp.address, args.startBlock),
+			confirmations: args.confirmations,
+		});
+
+		const summary = async () => {
+			const result = await indexer.sync();
+			if (result.reorg !== undefined) {
+				console.log(`Reorg detected, rolled back to block ${result.reorg}`);
+			}
+			const { state } = indexer;
+			console.log(
+				`Indexed blocks ${result.fromBlock}-${result.toBlock} (${result.events} events): ` +
+					`${state.getOffers({ status: "open" }).length} open offers, ` +
+					`${state.getActiveRentals().length} active rentals, ` +
+					`${state.getSublets({ active: true }).length} active sublets, ` +
+					`${state.getRewards().length} rewards distributions`
+			);
+		};
+
+		await summary();
+		// stop with Ctrl+C
+		while (args.watch) {
+			await new Promise((resolve) => setTimeout(resolve, args.watch));
+			await summary().catch(console.error);
+		}
+	});
@@ -0,0 +1,133 @@
+import { task, types } from "hardhat/config";
+import type { Fee, PrematureEndStatus, Rental } from "../src";
+import { rentalProtocolAddress } from "./deploy";
+import { registeredCollection } from "./registry";
+
+/**
+ * Rental NFT whose holder can act on the rental, see the README matrix of allowed operations.
+ */
+type RentalParty = "LentNFT" | "BorrowedNFT" | "SubLentNFT";
+
+type RentalAction =
+	| "endRental"
+	| "endRentalPrematurely (request)"
+	| "endRentalPrematurely (accept)"
+	| "sublet"
+	| "endSublet";
+
+/**
+ * Everything about a single token of a collection associated to the rental protocol.
+ */
+export interface RentalInspection {
+	token: string;
+	tokenId: string;
+	/** Holder of the original NFT, `undefined` when not minted */
+	holder?: string;
+	/** The original NFT is held by the rental protocol */
+	escrowed: boolean;
+	rental?: Rental;
+	/** The end of the rental has passed */
+	over: boolean;
+	/** Holders of the rental NFTs */
+	owners: { [party in RentalParty]?: string };
+	prematureEnd?: PrematureEndStatus;
+	fees: Fee[];
+	paused: boolean;
+	/** Actions each rental NFT holder can take right now */
+	actions: { [party in RentalParty]?: RentalAction[] };
+}
+
+/**
+ * Actions allowed now by the contract, as summed up by the README matrix of allowed operations.
+ */
+function allowedActions(inspection: RentalInspection): RentalInspection["actions"] {
+	const { rental, over, owners, prematureEnd, paused } = inspection;
+	if (!rental || paused) {
+		return {};
+	}
+	const endRental: RentalAction[] = over ? ["endRental"] : [];
+	if (owners.SubLentNFT) {
+		return { LentNFT: endRental, SubLentNFT: [...endRental, "endSublet"], BorrowedNFT: [] };
+	}
+	// a valid request is accepted by the counterparty, the requester has nothing left to do
+	const prematurely = (holder?: string): RentalAction[] => {
+		if (!prematureEnd?.valid) {
+			return ["endRentalPrematurely (request)"];
+		}
+		return holder === prematureEnd.counterparty ? ["endRentalPrematurely (accept)"] : [];
+	};
+	return {
+		LentNFT: [...endRental, ...prematurely(owners.LentNFT)],
+		BorrowedNFT: [...endRental, ...prematurely(owners.BorrowedNFT), "sublet"],
+	};
+}
+
+task("rental:inspect", "Report the rental state of a single token and what each party can do")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addOptionalParam("token", "Original collection, by address or registered name (default: the only registered one)", undefined, types.string)
+	.addParam("tokenId", "Token ID of the original NFT", undefined, types.string)
+	.setAction(async (args, hre) => {
+		const { RentalClient } = await import("../src");
+		const client = RentalClient.connect(rentalProtocolAddress(hre, args.rental), hre.ethers.provider);
+		const token =
+			args.token && hre.ethers.utils.isAddress(args.token)
+				? hre.ethers.utils.getAddress(args.token)
+				: registeredCollection(hre, args.token).original;
+		const { tokenId } = args;
+		const { lentNFT, borrowedNFT, subLentNFT } = await client.requireRentalNFTs(token);
+		const erc721 = await hre.ethers.getContractAt("IERC721", token);
+		// `ownerOf` reverts for tokens which don't exist
+		const ownerOf = (nft: { ownerOf(tokenId: string): Promise<string> }) => nft.ownerOf(tokenId).catch(() => undefined);
+
+		const [holder, rental, paused, { timestamp }] = await Promise.all([
+			ownerOf(erc721),
+			client.getRental(token, tokenId),
+			client.protocol.paused(),
+			hre.ethers.provider.getBlock("latest"),
+		]);
+		const [lender, tenant, sublender] = await Promise.all([
+			ownerOf(lentNFT),
+			ownerOf(borrowedNFT),
+			subLentNFT.exists(tokenId).then((exists) => (exists ? ownerOf(subLentNFT) : undefined)),
+		]);
+		const inspection: RentalInspection = {
+			token,
+			tokenId,
+			holder,
+			escrowed: holder === client.address,
+			rental,
+			over: rental !== undefined && rental.end.lt(timestamp),
+			owners: { LentNFT: lender, BorrowedNFT: tenant, SubLentNFT: sublender },
+			prematureEnd: await client.getPrematureEndStatus(token, tokenId),
+			fees: rental ? await client.getFeesTable(token, tokenId) : [],
+			paused,
+			actions: {},
+		};
+		inspection.actions = allowedActions(inspection);
+
+		const quote = (address?: string) => (address ? `"${address}"` : "none");
+		const share = (basisPoints: number) => `${basisPoints / 100}%`;
+		console.log(`Token #${tokenId} of "${token}"${paused ? " (the rental protocol is paused)" : ""}`);
+		console.log(`original holder:  ${quote(holder)}${inspection.escrowed ? " (escrowed)" : ""}`);
+		const terms = (rental: Rental) =>
+			`${inspection.over ? "ended" : "ends"} at ${new Date(rental.end.toNumber() * 1000).toISOString()}, ` +
+			`lender ${share(rental.lenderBasisPoints)}, sublender ${share(rental.sublenderBasisPoints)}`;
+		console.log(`rental:           ${rental ? terms(rental) : "none"}`);
+		console.log(`LentNFT:          ${quote(lender)}`);
+		console.log(`BorrowedNFT:      ${quote(tenant)}`);
+		console.log(`SubLentNFT:       ${quote(sublender)}`);
+		const { prematureEnd, fees } = inspection;
+		const requester = prematureEnd?.requester;
+		const request = requester && `requested by ${quote(requester)} (${prematureEnd?.valid ? "valid" : "stale"})`;
+		console.log(`premature end:    ${request || "none"}`);
+		const table = fees.map((fee) => `${quote(fee.to)} ${share(fee.basisPoints)}`).join(", ");
+		console.log(`fee table:        ${table || "none"}`);
+		console.log(`actions:${Object.keys(inspection.actions).length === 0 ? " none" : ""}`);
+		for (const party of ["LentNFT", "SubLentNFT", "BorrowedNFT"] as const) {
+			const actions = inspection.actions[party];
+			if (actions) {
+				console.log(`- ${party} holder ${quote(inspection.owners[party])}: ${actions.join(", ") || "none"}`);
+			}
+		}
+		return inspection;
+	});
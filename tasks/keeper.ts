@@ -0,0 +1,56 @@
+import { task, types } from "hardhat/config";
+import { createServer } from "http";
+import { rentalProtocolAddress, rentalProtocolStartBlock } from "./deploy";
+
+task("rental:keeper", "End the rentals of the configured accounts as soon as they are over")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addOptionalParam("accounts", "Comma separated accounts ending rentals (default: every configured account)", undefined, types.string)
+	.addParam("db", "JSON checkpoint of the indexed events, logged in <db>.events", "rental-keeper.json", types.string)
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment (default: registered for the network, else 0)", undefined, types.int)
+	.addParam("interval", "How often new rentals are looked for (ms)", 15_000, types.int)
+	.addParam("maxAttempts", "Attempts to end a rental before giving up on it", 3, types.int)
+	.addParam("retryDelay", "Delay before retrying to end a rental (ms)", 60_000, types.int)
+	.addOptionalParam("port", "Serve the status report on http://localhost:<port>/status", undefined, types.int)
+	.setAction(async (args, hre) => {
+		const { JsonFileStore, RentalKeeper } = await import("../src/node");
+		const rp = await hre.ethers.getContractAt("RentalProtocol", rentalProtocolAddress(hre, args.rental));
+		let signers = await hre.ethers.getSigners();
+		if (args.accounts) {
+			const accounts: string[] = args.accounts.split(",").map((account: string) => hre.ethers.utils.getAddress(account));
+			signers = signers.filter((signer) => accounts.indexOf(signer.address) !== -1);
+			if (signers.length !== accounts.length) {
+				throw new Error(`Some of the accounts "${args.accounts}" aren't configured for the network`);
+			}
+		}
+		const keeper = new RentalKeeper(rp, signers, new JsonFileStore(args.db), {
+			startBlock: rentalProtocolStartBlock(hre, rp.address, args.startBlock),
+			maxAttempts: args.maxAttempts,
+			retryDelay: args.retryDelay,
+		});
+
+		if (args.port !== undefined) {
+			const server = createServer((req, res) => {
+				const found = req.method === "GET" && req.url === "/status";
+				res.writeHead(found ? 200 : 404, { "Content-Type": "application/json" });
+				res.end(JSON.stringify(found ? keeper.status() : { error: "Not found" }));
+			});
+			await new Promise<void>((resolve) => server.listen(args.port, resolve));
+			console.log(`Keeper status on http://localhost:${args.port}/status`);
+		}
+
+		console.log(`Keeping the rentals of "${rp.address}" for ${signers.map((signer) => signer.address).join(", ")}`);
+		// stop with Ctrl+C
+		keeper.watch(args.interval, (err) => console.error("Keeper poll failed:", err));
+		for (;;) {
+			await new Promise((resolve) => setTimeout(resolve, args.interval));
+			const { checkpoint, paused, ended, jobs } = keeper.status();
+			const count = (status: string) => jobs.filter((job) => job.status === status).length;
+			console.log(
+				`Block ${checkpoint}${paused ? " (paused)" : ""}: ${count("scheduled")} scheduled, ${ended} ended, ` +
+					`${count("failed")} failed, ${count("unmanaged")} unmanaged rentals`
+			);
+			for (const job of jobs.filter((job) => job.status === "failed")) {
+				console.log(`  failed to end ${job.token} #${job.tokenId}: ${job.lastError}`);
+			}
+		}
+	});
@@ -0,0 +1,27 @@
+import { task, types } from "hardhat/config";
+import { writeFileSync } from "fs";
+import { registeredCollection } from "./registry";
+
+task("rental:render-metadata", "Decode the metadata of a LentNFT or SubLentNFT token into JSON and SVG files")
+	.addOptionalParam("nft", "Address of the LentNFT or SubLentNFT contract (default: the LentNFT of --collection)", undefined, types.string)
+	.addOptionalParam("collection", "Registered collection (default: the only registered one)", undefined, types.string)
+	.addFlag("sublent", "Use the SubLentNFT of --collection")
+	.addParam("tokenId", "ID of the token", undefined, types.string)
+	.addOptionalParam("out", "Written to <out>.json and <out>.svg (default: <symbol>-<tokenId>)", undefined, types.string)
+	.setAction(async (args, hre) => {
+		const { decodeRentalNFTMetadata } = await import("../src");
+		const address = args.nft ?? registeredCollection(hre, args.collection)[args.sublent ? "subLentNFT" : "lentNFT"];
+		if (!address) {
+			throw new Error("No rental NFT registered for the collection, use --nft");
+		}
+		const nft = await hre.ethers.getContractAt("LentNFT", address);
+		const { metadata, svg } = decodeRentalNFTMetadata(await nft.tokenURI(args.tokenId));
+
+		const out: string = args.out ?? `${await nft.symbol()}-${args.tokenId}`;
+		writeFileSync(`${out}.json`, JSON.stringify(metadata, null, 2));
+		writeFileSync(`${out}.svg`, svg);
+		console.log(`name:        ${metadata.name}`);
+		console.log(`description: ${metadata.description}`);
+		console.log(`Wrote "${out}.json" and "${out}.svg"`);
+		return { metadata, svg };
+	});
@@ -0,0 +1,97 @@
+import { task, types } from "hardhat/config";
+import type { MakerOffer } from "../src";
+import { rentalProtocolAddress, rentalProtocolStartBlock } from "./deploy";
+
+/** Nonce record of the offers signed by the tasks, see `NonceManager` */
+export const NONCE_FILE = "nonces.json";
+
+/**
+ * Outcome of the cancellation of a live offer, `reason` being the error of a failed one.
+ */
+interface CancellationResult extends MakerOffer {
+	cancellation: "cancelled" | "failed";
+	transactionHash?: string;
+	reason?: string;
+}
+
+task("rental:cancel-all", "Cancel every live offer of the signer, pre-signed or recorded in the nonce file")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("nonces", "JSON file recording the offers signed off-chain", NONCE_FILE, types.string)
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment (default: registered for the network, else 0)", undefined, types.int)
+	.addOptionalParam("db", "JSON file of the indexed events to resume from, see rental:index", undefined, types.string)
+	.addParam("batchSize", "Cancellations sent before waiting for their confirmation", 20, types.int)
+	.addFlag("dryRun", "Only list the offers of the signer")
+	.setAction(async (args, hre) => {
+		const {
+			JsonFileNonceStore,
+			JsonFileStore,
+			MemoryStore,
+			NonceManager,
+			RentalClient,
+			RentalIndexer,
+			decodeRentalError,
+			listMakerOffers,
+		} = await import("../src/node");
+		const [signer] = await hre.ethers.getSigners();
+		const client = RentalClient.connect(rentalProtocolAddress(hre, args.rental), signer);
+		const indexer = new RentalIndexer(client.protocol, args.db ? new JsonFileStore(args.db) : new MemoryStore(), {
+			startBlock: rentalProtocolStartBlock(hre, client.address, args.startBlock),
+		});
+		await indexer.sync();
+		const { chainId } = await hre.ethers.provider.getNetwork();
+		const nonces = new NonceManager(new JsonFileNonceStore(args.nonces));
+		const recorded = await nonces.getRecordedOffers(signer.address, chainId, client.address);
+		const { timestamp } = await hre.ethers.provider.getBlock("latest");
+		const offers = listMakerOffers(indexer.state, signer.address, recorded, timestamp);
+		const live = offers.filter((offer) => offer.status === "open");
+
+		const count = (status: MakerOffer["status"]) => offers.filter((offer) => offer.status === status).length;
+		console.log(
+			`${offers.length} offer(s) of "${signer.address}": ${live.length} live, ${count("filled")} filled, ` +
+				`${count("cancelled")} cancelled, ${count("expired")} expired`
+		);
+		for (const { nonce, deadline, source } of live) {
+			console.log(`- ${nonce} (${source}, until ${new Date(Number(deadline) * 1000).toISOString()})`);
+		}
+		if (args.dryRun) {
+			return live;
+		}
+
+		const results: CancellationResult[] = [];
+		for (let i = 0; i < live.length; i += args.batchSize) {
+			// explicit transaction nonces so that a batch is sent without waiting for its confirmations
+			let txNonce = await signer.getTransactionCount("pending");
+			const pending: Promise<CancellationResult>[] = [];
+			for (const offer of live.slice(i, i + args.batchSize)) {
+				const failed = (err: Error): CancellationResult => ({
+					...offer,
+					cancellation: "failed",
+					reason: (decodeRentalError(err) ?? err).message.replace(/\s+/g, " ").trim(),
+				});
+				try {
+					const tx = await client.cancelOffer(offer.nonce, { nonce: txNonce });
+					txNonce++;
+					pending.push(
+						tx.wait().then(
+							(): CancellationResult => ({ ...offer, cancellation: "cancelled", transactionHash: tx.hash }),
+							(err: Error) => ({ ...failed(err), transactionHash: tx.hash })
+						)
+					);
+				} catch (err: unknown) {
+					pending.push(Promise.resolve(failed(err as Error)));
+				}
+			}
+			results.push(...(await Promise.all(pending)));
+		}
+
+		for (const { nonce, cancellation, transactionHash, reason } of results) {
+			console.log(`${nonce}  ${cancellation}  ${reason ?? transactionHash}`);
+		}
+		const failures = results.filter((result) => result.cancellation === "failed");
+		console.log(`${results.length - failures.length} cancelled, ${failures.length} failed on "${hre.network.name}"`);
+		if (failures.length > 0) {
+			const reasons = failures.map((failure) => `${failure.nonce}: ${failure.reason}`);
+			throw new Error(`Cancellation failed for ${reasons.join(", ")}`);
+		}
+		return results;
+	});
@@ -0,0 +1,96 @@
+import { task, types } from "hardhat/config";
+import { readFileSync, writeFileSync } from "fs";
+import { rentalProtocolAddress } from "./deploy";
+import { NONCE_FILE } from "./nonces";
+
+task("rental:sign-offer", "Sign a rental offer off-chain (EIP-712)")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("offer", "JSON file of the offer to sign (missing nonce, deadline, ... are filled)", undefined, types.inputFile)
+	.addOptionalParam("out", "JSON file where to write the signed offer (default: <offer>.signed.json)", undefined, types.string)
+	.addParam("nonces", "JSON file recording the nonces of the offers signed off-chain", NONCE_FILE, types.string)
+	.setAction(async (args, hre) => {
+		const { JsonFileNonceStore, NonceManager, RentalClient, SignatureType, offerParamsFromJSON, signedOfferToJSON } =
+			await import("../src/node");
+		const [signer] = await hre.ethers.getSigners();
+		const nonces = new NonceManager(new JsonFileNonceStore(args.nonces));
+		const client = RentalClient.connect(rentalProtocolAddress(hre, args.rental), signer, nonces);
+
+		const params = offerParamsFromJSON(JSON.parse(readFileSync(args.offer, "utf8")));
+		if (params.maker && params.maker !== signer.address) {
+			throw new Error(`Offer maker ${params.maker} isn't the signer ${signer.address}`);
+		}
+		const offer = await client.createOffer(params);
+		const signature = await client.signOffer(offer);
+
+		const out = args.out ?? args.offer.replace(/(\.json)?$/, ".signed.json");
+		const signed = signedOfferToJSON({ offer, signatureType: SignatureType.EIP_712, signature });
+		writeFileSync(out, JSON.stringify(signed, null, 2));
+		console.log(`Offer ${signed.offer.nonce} signed by "${signer.address}", written to "${out}"`);
+	});
+
+task("rental:verify-offer", "Verify the signature of an off-chain rental offer")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("offer", "JSON file of the signed offer", undefined, types.inputFile)
+	.setAction(async (args, hre) => {
+		const { checkRentalOfferHash, getRentalDomain, recoverRentalOfferSigner, signedOfferFromJSON } = await import(
+			"../src"
+		);
+		const rp = await hre.ethers.getContractAt("RentalProtocol", rentalProtocolAddress(hre, args.rental));
+		const { offer, signature } = signedOfferFromJSON(JSON.parse(readFileSync(args.offer, "utf8")));
+
+		const domain = await getRentalDomain(rp);
+		const signer = recoverRentalOfferSigner(domain, offer, signature);
+		const hash = await checkRentalOfferHash(rp, offer);
+		const nonceUsed = await rp.invalidNonce(offer.maker, offer.nonce);
+		const { timestamp } = await hre.ethers.provider.getBlock("latest");
+		const expired = timestamp > hre.ethers.BigNumber.from(offer.deadline).toNumber();
+
+		console.log(`maker:          ${offer.maker}`);
+		console.log(`signer:         ${signer}`);
+		console.log(`local hash:     ${hash.local}`);
+		console.log(`on-chain hash:  ${hash.onChain}`);
+		console.log(`nonce used:     ${nonceUsed}`);
+		console.log(`expired:        ${expired}`);
+
+		if (signer !== offer.maker) {
+			throw new Error("Signer is not maker");
+		}
+		if (!hash.matches) {
+			throw new Error("Local hash doesn't match the on-chain hash");
+		}
+		console.log("Signature is valid");
+	});
+
+task("rental:preflight", "Check whether a tenant can rent an offer, and the fees it would pay")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("offer", "JSON file of the signed offer, or of a pre-signed offer", undefined, types.inputFile)
+	.addOptionalParam("tenant", "Tenant renting the offer (default: the signer)", undefined, types.string)
+	.setAction(async (args, hre) => {
+		const { RentalClient, SignatureType, offerFromJSON, signedOfferFromJSON } = await import("../src");
+		const json = JSON.parse(readFileSync(args.offer, "utf8"));
+		const { offer, signatureType, signature } = json.offer
+			? signedOfferFromJSON(json)
+			: { offer: offerFromJSON(json), signatureType: SignatureType.PRE_SIGNED, signature: "0x" };
+		const [signer] = await hre.ethers.getSigners();
+		const tenant = args.tenant ?? signer.address;
+		const preflight = await RentalClient.connect(rentalProtocolAddress(hre, args.rental), signer).preflightRent(
+			offer,
+			signatureType,
+			signature,
+			tenant
+		);
+
+		const { fees } = preflight;
+		console.log(`tenant:          ${tenant}`);
+		console.log(`fee token:       ${fees.feeToken}`);
+		console.log(`tenant pays:     ${fees.feeAmount}`);
+		console.log(`protocol fee:    ${fees.protocolFee} to ${fees.feesCollector}`);
+		console.log(`lender receives: ${fees.lenderAmount} to ${fees.lender}`);
+		for (const problem of preflight.problems) {
+			const nft = problem.nft === undefined ? undefined : offer.nfts[problem.nft];
+			const token = nft ? ` (token #${nft.tokenId} of "${nft.token}")` : "";
+			console.log(`! ${problem.code}${token}: ${problem.message}`);
+		}
+		console.log(preflight.ok ? "The offer can be rented" : `${preflight.problems.length} problem(s) found`);
+		return preflight;
+	});
@@ -0,0 +1,29 @@
+import { task, types } from "hardhat/config";
+import { rentalProtocolAddress } from "./deploy";
+
+task("rental:orderbook", "Serve an HTTP order book of EIP-712 signed rental offers")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("port", "Port to listen on", 8080, types.int)
+	.addParam("pruneInterval", "How often filled, cancelled and expired offers are dropped (ms)", 15_000, types.int)
+	.setAction(async (args, hre) => {
+		const { OrderBook, createOrderBookServer } = await import("../src/node");
+		const rp = await hre.ethers.getContractAt("RentalProtocol", rentalProtocolAddress(hre, args.rental));
+		const book = new OrderBook(rp);
+
+		const server = createOrderBookServer(book, (err) => console.error("Order book request failed:", err));
+		await new Promise<void>((resolve) => server.listen(args.port, resolve));
+		console.log(`Order book of "${rp.address}" listening on http://localhost:${args.port}/offers`);
+
+		// stop with Ctrl+C
+		for (;;) {
+			await new Promise((resolve) => setTimeout(resolve, args.pruneInterval));
+			try {
+				const dropped = await book.prune();
+				if (dropped.length > 0) {
+					console.log(`Dropped ${dropped.length} offers, ${book.size} remaining`);
+				}
+			} catch (err: unknown) {
+				console.error(err);
+			}
+		}
+	});
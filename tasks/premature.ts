@@ -0,0 +1,135 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { PrematureEndStatus, RentalClient } from "../src";
+import { rentalProtocolAddress, rentalProtocolStartBlock } from "./deploy";
+
+/**
+ * What `endRentalPrematurely` would do for a rented NFT:
+ * - `accept`: accept the request of the other party, ending the rental
+ * - `request`: request to end the rental, replacing a stale request
+ * - `skip`: nothing can be done by the account, see `reason`
+ */
+interface PrematureEndAction {
+	token: string;
+	tokenId: string;
+	action: "accept" | "request" | "skip";
+	reason?: string;
+	status?: PrematureEndStatus;
+	transactionHash?: string;
+}
+
+async function connect(hre: HardhatRuntimeEnvironment, rental?: string) {
+	const { RentalClient } = await import("../src");
+	const [signer] = await hre.ethers.getSigners();
+	return { client: RentalClient.connect(rentalProtocolAddress(hre, rental), signer), signer };
+}
+
+/**
+ * Premature end requests of the rentals where `account` is a party, but not the requester.
+ */
+async function findRequests(client: RentalClient, account: string, startBlock: number) {
+	const { MemoryStore, RentalIndexer } = await import("../src/node");
+	const indexer = new RentalIndexer(client.protocol, new MemoryStore(), { startBlock });
+	await indexer.sync();
+
+	const requests: { token: string; tokenId: string; status: PrematureEndStatus }[] = [];
+	for (const rental of indexer.state.getActiveRentals()) {
+		if (!rental.prematureEndRequester) {
+			continue;
+		}
+		const status = await client.getPrematureEndStatus(rental.token, rental.tokenId);
+		const isParty = status && (status.lender === account || status.tenant === account);
+		if (status && isParty && status.requester !== account) {
+			requests.push({ token: rental.token, tokenId: rental.tokenId, status });
+		}
+	}
+	return requests;
+}
+
+function planAction(token: string, tokenId: string, account: string, status?: PrematureEndStatus): PrematureEndAction {
+	const skip = (reason: string): PrematureEndAction => ({ token, tokenId, action: "skip", reason, status });
+	if (!status) {
+		return skip("not rented");
+	}
+	if (status.lender !== account && status.tenant !== account) {
+		return skip("neither the lender nor the tenant");
+	}
+	if (status.subletBlocking) {
+		return skip("the sublet must end first");
+	}
+	if (status.valid && status.requester === account) {
+		return skip("already requested, waiting for the other party");
+	}
+	return { token, tokenId, action: status.valid ? "accept" : "request", status };
+}
+
+task("rental:premature-end:list", "List the requests to end rentals prematurely awaiting an account")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addOptionalParam("account", "Lender or tenant account (default: the signer)", undefined, types.string)
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment (default: registered for the network, else 0)", undefined, types.int)
+	.setAction(async (args, hre) => {
+		const { client, signer } = await connect(hre, args.rental);
+		const account = args.account ? hre.ethers.utils.getAddress(args.account) : signer.address;
+		const startBlock = rentalProtocolStartBlock(hre, client.address, args.startBlock);
+		const requests = await findRequests(client, account, startBlock);
+
+		console.log(`${requests.length} request(s) to end rentals prematurely awaiting "${account}":`);
+		for (const { token, tokenId, status } of requests) {
+			const notes = [status.valid ? "valid" : "stale, the requester transferred its rental NFT"];
+			if (status.subletBlocking) {
+				notes.push("blocked by a sublet");
+			}
+			console.log(`  ${token} #${tokenId} requested by "${status.requester}" (${notes.join(", ")})`);
+		}
+		return requests;
+	});
+
+task("rental:premature-end", "Request or accept to end rentals prematurely, as the signer")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addOptionalParam("nfts", "Comma separated <token>:<tokenId> rented NFTs", undefined, types.string)
+	.addFlag("acceptAll", "Accept every valid request awaiting the signer")
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment, to find the requests (default: registered for the network, else 0)", undefined, types.int)
+	.addFlag("dryRun", "Only print what would be done")
+	.setAction(async (args, hre) => {
+		const { client, signer } = await connect(hre, args.rental);
+		if (!args.nfts === !args.acceptAll) {
+			throw new Error("Expected either --nfts or --accept-all");
+		}
+
+		let nfts: { token: string; tokenId: string }[];
+		if (args.acceptAll) {
+			const startBlock = rentalProtocolStartBlock(hre, client.address, args.startBlock);
+			nfts = (await findRequests(client, signer.address, startBlock)).filter(({ status }) => status.valid);
+		} else {
+			nfts = (args.nfts as string).split(",").map((nft) => {
+				const [token, tokenId] = nft.trim().split(":");
+				if (!hre.ethers.utils.isAddress(token) || !/^\d+$/.test(tokenId ?? "")) {
+					throw new Error(`Invalid NFT "${nft}", expected <token>:<tokenId>`);
+				}
+				return { token: hre.ethers.utils.getAddress(token), tokenId };
+			});
+		}
+
+		const actions: PrematureEndAction[] = [];
+		for (const { token, tokenId } of nfts) {
+			const action = planAction(token, tokenId, signer.address, await client.getPrematureEndStatus(token, tokenId));
+			actions.push(action);
+			if (action.action === "skip") {
+				console.log(`- skip ${token} #${tokenId}: ${action.reason}`);
+				continue;
+			}
+			console.log(`- ${action.action} to end ${token} #${tokenId}`);
+			if (!args.dryRun) {
+				const tx = await client.endRentalPrematurely(token, tokenId);
+				action.transactionHash = tx.hash;
+				await tx.wait();
+			}
+		}
+
+		const count = (name: string) => actions.filter((action) => action.action === name).length;
+		console.log(
+			`${count("accept")} accepted, ${count("request")} requested, ${count("skip")} skipped` +
+				(args.dryRun ? " (dry run)" : "")
+		);
+		return actions;
+	});
@@ -0,0 +1,76 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { AddressRegistry, NetworkAddresses, RentalCollectionAddresses } from "../src";
+
+/** Committed registry of the deployed addresses, exported by the package as `addresses` */
+export const REGISTRY_FILE = join("src", "address-registry.json");
+
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+/**
+ * Registry updated by the tasks: `file` when given, else the committed one except for local networks.
+ */
+export function registryFile(hre: HardhatRuntimeEnvironment, file?: string): string | undefined {
+	return file ?? (LOCAL_NETWORKS.indexOf(hre.network.name) === -1 ? REGISTRY_FILE : undefined);
+}
+
+export function readRegistry(file = REGISTRY_FILE): AddressRegistry {
+	return existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : {};
+}
+
+export async function updateRegistry(
+	file: string,
+	chainId: number,
+	update: (addresses: NetworkAddresses) => void
+): Promise<void> {
+	const { writeJson } = await import("../src/node");
+	const registry = readRegistry(file);
+	const addresses = registry[chainId] ?? { implementations: {}, collections: {}, rewardTokens: {} };
+	update(addresses);
+	registry[chainId] = addresses;
+	await writeJson(file, registry, "\t");
+}
+
+/**
+ * Addresses of the current network in the committed registry, if any.
+ */
+export function networkAddresses(hre: HardhatRuntimeEnvironment): NetworkAddresses | undefined {
+	const { chainId } = hre.network.config;
+	return chainId === undefined ? undefined : readRegistry()[chainId];
+}
+
+/**
+ * Rental NFTs of the collection `name`, or of the only registered collection when omitted.
+ */
+export function registeredCollection(hre: HardhatRuntimeEnvironment, name?: string): RentalCollectionAddresses {
+	const collections = networkAddresses(hre)?.collections ?? {};
+	const names = Object.keys(collections);
+	if (name === undefined && names.length !== 1) {
+		throw new Error(`${names.length} collections registered on "${hre.network.name}", use --collection`);
+	}
+	const collection = collections[name ?? names[0]];
+	if (!collection) {
+		throw new Error(`No collection "${name}" registered on "${hre.network.name}", expected one of ${names.join(", ")}`);
+	}
+	return collection;
+}
+
+/**
+ * Address of a reward token given by address or by symbol, or of the only registered reward token when omitted.
+ */
+export function rewardTokenAddress(hre: HardhatRuntimeEnvironment, token?: string): string {
+	if (token && hre.ethers.utils.isAddress(token)) {
+		return token;
+	}
+	const tokens = networkAddresses(hre)?.rewardTokens ?? {};
+	const symbols = Object.keys(tokens);
+	if (token === undefined && symbols.length !== 1) {
+		throw new Error(`${symbols.length} reward tokens registered on "${hre.network.name}", use --token`);
+	}
+	const address = tokens[token ?? symbols[0]];
+	if (!address) {
+		throw new Error(`No reward token "${token}" registered on "${hre.network.name}"`);
+	}
+	return address;
+}
@@ -0,0 +1,298 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { existsSync, readFileSync } from "fs";
+import { BigNumber, utils } from "ethers";
+import type { BorrowedNFT, RentalClient, RewardShare } from "../src";
+import { registeredCollection, rewardTokenAddress } from "./registry";
+
+const CSV_HEADER = "borrowedNft,tokenId,token,amount";
+
+/**
+ * Row of the distribution CSV, `amount` is in units of the token (e.g. `1.5` for 1.5 tokens).
+ */
+interface DistributionRow {
+	line: number;
+	borrowedNft: string;
+	tokenId: BigNumber;
+	token: string;
+	amount: BigNumber;
+}
+
+/**
+ * What has been done for each row of the CSV, by line, written after each transaction so that an
+ * interrupted distribution resumes where it stopped.
+ */
+interface DistributionProgress {
+	/** Hash of the CSV, the progress of another CSV can't be resumed */
+	csv: string;
+	rows: { [line: string]: DistributionRowProgress };
+}
+
+/**
+ * Transactions of a row: their hash is recorded as pending as soon as they are sent, and as done
+ * once mined, so that a transaction sent before an interruption is never sent twice.
+ */
+interface DistributionRowProgress {
+	/** Funding transfer sent but not confirmed */
+	funding?: string;
+	funded?: string;
+	/** `onERC20Received` transaction sent but not confirmed */
+	distributing?: string;
+	distributed?: string;
+}
+
+function parseCsv(hre: HardhatRuntimeEnvironment, file: string, content: string) {
+	const lines = content.split(/\r?\n/);
+	if (lines[0].replace(/\s/g, "") !== CSV_HEADER) {
+		throw new Error(`Invalid CSV "${file}": the first line must be "${CSV_HEADER}"`);
+	}
+
+	const rows: Omit<DistributionRow, "amount">[] = [];
+	const amounts: string[] = [];
+	lines.forEach((text, i) => {
+		const line = i + 1;
+		if (i === 0 || text.trim() === "") {
+			return;
+		}
+		const [borrowedNft, tokenId, token, amount, ...extra] = text.split(",").map((value) => value.trim());
+		const invalid = (reason: string) => new Error(`Invalid CSV "${file}" line ${line}: ${reason}`);
+		if (amount === undefined || extra.length > 0) {
+			throw invalid(`expected ${CSV_HEADER}`);
+		}
+		if (!utils.isAddress(borrowedNft) || !utils.isAddress(token)) {
+			throw invalid("borrowedNft and token must be addresses");
+		}
+		if (!/^\d+$/.test(tokenId)) {
+			throw invalid(`invalid tokenId "${tokenId}"`);
+		}
+		rows.push({
+			line,
+			borrowedNft: hre.ethers.utils.getAddress(borrowedNft),
+			tokenId: BigNumber.from(tokenId),
+			token: hre.ethers.utils.getAddress(token),
+		});
+		amounts.push(amount);
+	});
+	return { rows, amounts };
+}
+
+function sameShares(a: RewardShare[], b: RewardShare[]) {
+	return a.length === b.length && a.every((share, i) => share.to === b[i].to && share.amount === b[i].amount);
+}
+
+/**
+ * Whether a transaction sent before an interruption succeeded, waiting for it when it is still
+ * pending. Transactions unknown to the node were never broadcast or have been dropped.
+ */
+async function succeeded(hre: HardhatRuntimeEnvironment, hash: string): Promise<boolean> {
+	if (!(await hre.ethers.provider.getTransaction(hash))) {
+		return false;
+	}
+	return (await hre.ethers.provider.waitForTransaction(hash)).status === 1;
+}
+
+task("rental:distribute-rewards", "Distribute rewards to a borrowed NFT")
+	.addOptionalParam("borrowedNft", "Address of the BorrowedNFT contract (default: the one of --collection)", undefined, types.string)
+	.addOptionalParam("collection", "Registered collection (default: the only registered one)", undefined, types.string)
+	.addParam("tokenId", "ID of the BorrowedNFT", undefined, types.int)
+	.addOptionalParam("token", "Address or symbol of the registered reward token (default: the only registered one)", undefined, types.string)
+	.addParam("amount", "Amount of the rewards, in token units", undefined, types.string)
+	.setAction(async (args, hre) => {
+		const address = args.borrowedNft ?? registeredCollection(hre, args.collection).borrowedNFT;
+		if (!address) {
+			throw new Error("No BorrowedNFT registered for the collection, use --borrowed-nft");
+		}
+		const borrowedNFT = await hre.ethers.getContractAt("BorrowedNFT", address);
+		const rewardToken = await hre.ethers.getContractAt("ERC20", rewardTokenAddress(hre, args.token));
+		const amount = utils.parseUnits(args.amount, await rewardToken.decimals());
+		// send rewards to the borrowed NFT contract
+		await (await rewardToken.transfer(borrowedNFT.address, amount)).wait();
+		// ask to distribute rewards
+		await (await borrowedNFT.onERC20Received(args.tokenId, rewardToken.address, amount)).wait();
+	});
+
+task("rental:distribute-rewards-batch", "Distribute rewards to the borrowed NFTs listed in a CSV")
+	.addParam("csv", `CSV file with the "${CSV_HEADER}" columns, amounts in token units`, undefined, types.inputFile)
+	.addOptionalParam("progress", "Progress file of the distribution (default: <csv>.progress.json)", undefined, types.string)
+	.addParam("chunkSize", "Number of rows funded by the same transfers", 50, types.int)
+	.addFlag("dryRun", "Only check the rows and print the projected rewards split")
+	.setAction(async (args, hre) => {
+		const { RentalClient, splitRewards, sumRewardShares, writeJson } = await import("../src/node");
+		const [signer] = await hre.ethers.getSigners();
+		const content = readFileSync(args.csv, "utf8");
+		const parsed = parseCsv(hre, args.csv, content);
+
+		const progressFile: string = args.progress ?? `${args.csv}.progress.json`;
+		const progress: DistributionProgress = existsSync(progressFile)
+			? JSON.parse(readFileSync(progressFile, "utf8"))
+			: { csv: utils.id(content), rows: {} };
+		if (progress.csv !== utils.id(content)) {
+			throw new Error(`Progress file "${progressFile}" is for another CSV`);
+		}
+		// transactions sent before an interruption are done when they succeeded, sent again otherwise
+		const outcomes = new Map<string, Promise<boolean>>();
+		const outcome = (hash: string) => {
+			if (!outcomes.has(hash)) {
+				outcomes.set(hash, succeeded(hre, hash));
+			}
+			return outcomes.get(hash) as Promise<boolean>;
+		};
+		for (const row of Object.keys(progress.rows).map((line) => progress.rows[line])) {
+			const { funding, distributing } = row;
+			delete row.funding;
+			delete row.distributing;
+			if (funding && (await outcome(funding))) {
+				row.funded = funding;
+			}
+			if (distributing && (await outcome(distributing))) {
+				row.distributed = distributing;
+			}
+		}
+
+		// tokens and amounts
+		const decimals = new Map<string, number>();
+		for (const { token } of parsed.rows) {
+			if (!decimals.has(token)) {
+				const erc20 = await hre.ethers.getContractAt("ERC20", token);
+				decimals.set(token, await erc20.decimals());
+			}
+		}
+		const rows: DistributionRow[] = parsed.rows.map((row, i) => {
+			const amount = utils.parseUnits(parsed.amounts[i], decimals.get(row.token));
+			if (amount.isZero()) {
+				throw new Error(`Invalid CSV "${args.csv}" line ${row.line}: the amount must be positive`);
+			}
+			return { ...row, amount };
+		});
+		const format = (token: string, amount: BigNumber | bigint) =>
+			utils.formatUnits(amount.toString(), decimals.get(token));
+
+		// borrowed NFTs and their rental protocol
+		const borrowedNFTs = new Map<string, { contract: BorrowedNFT; original: string; client: RentalClient }>();
+		const getBorrowedNFT = (address: string) =>
+			borrowedNFTs.get(address) as NonNullable<ReturnType<typeof borrowedNFTs.get>>;
+		for (const { borrowedNft } of rows) {
+			if (!borrowedNFTs.has(borrowedNft)) {
+				const contract = (await hre.ethers.getContractAt("BorrowedNFT", borrowedNft, signer)) as BorrowedNFT;
+				const client = RentalClient.connect(await contract.rentalProtocol(), signer);
+				borrowedNFTs.set(borrowedNft, { contract, original: await contract.originalNFT(), client });
+			}
+		}
+
+		// pre-flight: active rentals and projected split of what is left to distribute
+		const pending = rows.filter((row) => !progress.rows[row.line]?.distributed);
+		const now = (await hre.ethers.provider.getBlock("latest")).timestamp;
+		const inactive: number[] = [];
+		const projected: { [line: number]: RewardShare[] } = {};
+		const totals = new Map<string, bigint>();
+		for (const row of pending) {
+			const { contract, original, client } = getBorrowedNFT(row.borrowedNft);
+			const rental = await client.getRental(original, row.tokenId);
+			if (!rental || rental.end.lte(now)) {
+				inactive.push(row.line);
+				continue;
+			}
+			const [fees, holder] = await Promise.all([
+				client.getFeesTable(original, row.tokenId),
+				contract.ownerOf(row.tokenId),
+			]);
+			projected[row.line] = splitRewards(row.amount, fees, holder);
+			const funded = progress.rows[row.line]?.funded ? BigInt(0) : BigInt(row.amount.toString());
+			totals.set(row.token, (totals.get(row.token) ?? BigInt(0)) + funded);
+		}
+		if (inactive.length > 0) {
+			throw new Error(`No active rental for the rows at line(s) ${inactive.join(", ")} of "${args.csv}"`);
+		}
+
+		console.log(`${pending.length} of ${rows.length} row(s) to distribute, projected split:`);
+		for (const token of Array.from(decimals.keys())) {
+			const shares = pending
+				.filter((row) => row.token === token)
+				.reduce((all, row) => all.concat(projected[row.line]), [] as RewardShare[]);
+			const recipients = sumRewardShares(shares);
+			if (recipients.size === 0) {
+				continue;
+			}
+			console.log(`token "${token}":`);
+			for (const [recipient, amount] of Array.from(recipients)) {
+				console.log(`  ${recipient}: ${format(token, amount)}`);
+			}
+		}
+
+		// funding
+		const missing: string[] = [];
+		for (const [token, total] of Array.from(totals)) {
+			const erc20 = await hre.ethers.getContractAt("ERC20", token);
+			const balance = BigInt((await erc20.balanceOf(signer.address)).toString());
+			console.log(`funding "${token}": ${format(token, total)} of ${format(token, balance)}`);
+			if (balance < total) {
+				missing.push(`${format(token, total - balance)} of "${token}"`);
+			}
+		}
+		if (missing.length > 0) {
+			throw new Error(`"${signer.address}" is missing ${missing.join(", ")} to fund the distribution`);
+		}
+		if (args.dryRun) {
+			return;
+		}
+
+		// each chunk is funded with one transfer per borrowed NFT and token, then distributed row by row
+		for (let start = 0; start < pending.length; start += args.chunkSize) {
+			const chunk = pending.slice(start, start + args.chunkSize);
+			const transfers = new Map<string, DistributionRow[]>();
+			for (const row of chunk.filter((row) => !progress.rows[row.line]?.funded)) {
+				const key = `${row.borrowedNft}:${row.token}`;
+				transfers.set(key, (transfers.get(key) ?? []).concat(row));
+			}
+			for (const funded of Array.from(transfers.values())) {
+				const { borrowedNft, token } = funded[0];
+				const erc20 = await hre.ethers.getContractAt("ERC20", token, signer);
+				const amount = funded.reduce((sum, row) => sum.add(row.amount), BigNumber.from(0));
+				const tx = await erc20.transfer(borrowedNft, amount);
+				for (const row of funded) {
+					progress.rows[row.line] = { funding: tx.hash };
+				}
+				await writeJson(progressFile, progress, 2);
+				await tx.wait();
+				for (const row of funded) {
+					progress.rows[row.line] = { funded: tx.hash };
+				}
+				await writeJson(progressFile, progress, 2);
+			}
+
+			for (const row of chunk) {
+				const { contract } = getBorrowedNFT(row.borrowedNft);
+				const tx = await contract.onERC20Received(row.tokenId, row.token, row.amount);
+				progress.rows[row.line].distributing = tx.hash;
+				await writeJson(progressFile, progress, 2);
+				await tx.wait();
+				delete progress.rows[row.line].distributing;
+				progress.rows[row.line].distributed = tx.hash;
+				await writeJson(progressFile, progress, 2);
+			}
+			console.log(`Distributed ${Math.min(start + args.chunkSize, pending.length)} of ${pending.length} row(s)`);
+		}
+
+		// reconciliation against the RewardsDistributed events of every row
+		const mismatches: string[] = [];
+		for (const row of rows) {
+			const { contract } = getBorrowedNFT(row.borrowedNft);
+			const receipt = await hre.ethers.provider.getTransactionReceipt(progress.rows[row.line].distributed as string);
+			const shares = receipt.logs
+				.filter((log) => log.address === row.borrowedNft)
+				.map((log) => contract.interface.parseLog(log))
+				.filter((event) => event.name === "RewardsDistributed" && event.args.tokenId.eq(row.tokenId))
+				.map((event) => ({ to: event.args.recipient as string, amount: BigInt(event.args.amount.toString()) }));
+			const distributed = shares.reduce((sum, share) => sum + share.amount, BigInt(0));
+			if (distributed !== BigInt(row.amount.toString())) {
+				const expected = format(row.token, row.amount);
+				mismatches.push(`line ${row.line}: ${format(row.token, distributed)} distributed instead of ${expected}`);
+			} else if (projected[row.line] && !sameShares(shares, projected[row.line])) {
+				console.warn(`! line ${row.line}: the rewards split changed since the pre-flight`);
+			}
+		}
+		if (mismatches.length > 0) {
+			throw new Error(`The RewardsDistributed events don't match the CSV:\n${mismatches.join("\n")}`);
+		}
+		console.log(`Reconciled the RewardsDistributed events of the ${rows.length} row(s), progress in "${progressFile}"`);
+	});
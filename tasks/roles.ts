@@ -0,0 +1,177 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { RentalProtocol } from "../src";
+import { ROLES, Role, getRoleHolders, rentalProtocolAddress, rentalProtocolStartBlock } from "./deploy";
+import { openSafeBatch } from "./safe";
+
+async function getRentalProtocol(hre: HardhatRuntimeEnvironment, rental?: string) {
+	const [signer] = await hre.ethers.getSigners();
+	const address = rentalProtocolAddress(hre, rental);
+	const rp = (await hre.ethers.getContractAt("RentalProtocol", address, signer)) as RentalProtocol;
+	return { rp, signer };
+}
+
+function parseRole(role: string): Role {
+	if (ROLES.indexOf(role as Role) === -1) {
+		throw new Error(`Unknown role "${role}", expected one of ${ROLES.join(", ")}`);
+	}
+	return role as Role;
+}
+
+/**
+ * @throws when `account` doesn't have `role`
+ */
+async function requireRole(rp: RentalProtocol, role: Role, account: string) {
+	if (!(await rp.hasRole(await rp[role](), account))) {
+		throw new Error(`"${account}" doesn't have the ${role} of "${rp.address}"`);
+	}
+}
+
+interface SafeArgs {
+	safe?: string;
+	batch?: string;
+}
+
+/**
+ * Grant or revoke a role after checking the signer (or the Safe) is allowed to, printing the holders before
+ * and after.
+ */
+async function updateRole(
+	hre: HardhatRuntimeEnvironment,
+	args: SafeArgs & {
+		rental?: string;
+		role: string;
+		account: string;
+		startBlock?: number;
+		blockRange: number;
+		force: boolean;
+	},
+	grant: boolean
+) {
+	const { rp, signer } = await getRentalProtocol(hre, args.rental);
+	const safe = await openSafeBatch(hre, `rental:roles:${grant ? "grant" : "revoke"}`, args);
+	const sender = safe?.batch.safe ?? signer.address;
+	const role = parseRole(args.role);
+	const account = hre.ethers.utils.getAddress(args.account);
+	const hash = await rp[role]();
+	const startBlock = rentalProtocolStartBlock(hre, rp.address, args.startBlock);
+
+	// every role is administered by DEFAULT_ADMIN_ROLE unless the contract says otherwise
+	const adminHash = await rp.getRoleAdmin(hash);
+	const admin = (await Promise.all(ROLES.map(async (name) => ((await rp[name]()) === adminHash ? name : undefined)))).find(
+		Boolean
+	);
+	if (!(await rp.hasRole(adminHash, sender))) {
+		throw new Error(`"${sender}" doesn't have the ${admin ?? adminHash} needed to manage the ${role}`);
+	}
+	if ((await rp.hasRole(hash, account)) === grant) {
+		console.log(`"${account}" ${grant ? "already has" : "doesn't have"} the ${role}, nothing to do`);
+		return;
+	}
+
+	const before = (await getRoleHolders(rp, startBlock, args.blockRange))[role];
+	if (!grant && role === "DEFAULT_ADMIN_ROLE" && before.length === 1 && !args.force) {
+		throw new Error(`"${account}" is the last holder of the DEFAULT_ADMIN_ROLE, use --force to revoke it anyway`);
+	}
+
+	const description = `${grant ? "Grant" : "Revoke"} the ${role} ${grant ? "to" : "of"} "${account}"`;
+	if (safe) {
+		safe.batch.add(rp, grant ? "grantRole" : "revokeRole", [hash, account], description);
+		safe.batch.write(safe.file);
+		console.log(`  holders: ${before.join(", ") || "nobody"}`);
+		return;
+	}
+
+	const tx = grant ? await rp.grantRole(hash, account) : await rp.revokeRole(hash, account);
+	await tx.wait();
+	const after = (await getRoleHolders(rp, startBlock, args.blockRange))[role];
+	console.log(`${grant ? "Granted" : "Revoked"} the ${role} ${grant ? "to" : "of"} "${account}" (tx "${tx.hash}")`);
+	console.log(`  before: ${before.join(", ") || "nobody"}`);
+	console.log(`  after:  ${after.join(", ") || "nobody"}`);
+}
+
+/**
+ * Pause or unpause the protocol after checking the signer (or the Safe) has the PAUSER_ROLE.
+ */
+async function setPaused(hre: HardhatRuntimeEnvironment, args: SafeArgs & { rental?: string }, paused: boolean) {
+	const { rp, signer } = await getRentalProtocol(hre, args.rental);
+	const safe = await openSafeBatch(hre, paused ? "rental:pause" : "rental:unpause", args);
+	const before = await rp.paused();
+	if (before === paused) {
+		console.log(`"${rp.address}" is already ${paused ? "paused" : "unpaused"}, nothing to do`);
+		return;
+	}
+	await requireRole(rp, "PAUSER_ROLE", safe?.batch.safe ?? signer.address);
+
+	if (safe) {
+		safe.batch.add(rp, paused ? "pause" : "unpause", [], `${paused ? "Pause" : "Unpause"} "${rp.address}"`);
+		safe.batch.write(safe.file);
+		return;
+	}
+
+	const tx = paused ? await rp.pause() : await rp.unpause();
+	await tx.wait();
+	console.log(`${paused ? "Paused" : "Unpaused"} "${rp.address}" (tx "${tx.hash}")`);
+	console.log(`  paused: ${before} -> ${await rp.paused()}`);
+}
+
+task("rental:roles:list", "List the holders of each role of the rental protocol")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment (default: registered for the network, else 0)", undefined, types.int)
+	.addParam("blockRange", "Maximum block range of a single eth_getLogs request", 2000, types.int)
+	.setAction(async (args, hre) => {
+		const { rp } = await getRentalProtocol(hre, args.rental);
+		const holders = await getRoleHolders(rp, rentalProtocolStartBlock(hre, rp.address, args.startBlock), args.blockRange);
+		console.log(`Roles of "${rp.address}"${(await rp.paused()) ? " (paused)" : ""}:`);
+		for (const role of ROLES) {
+			console.log(`${role}:`);
+			for (const account of holders[role]) {
+				console.log(`  ${account}`);
+			}
+			if (holders[role].length === 0) {
+				console.log("  nobody");
+			}
+		}
+		return holders;
+	});
+
+task("rental:roles:grant", "Grant a role of the rental protocol")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("role", `Granted role: ${ROLES.join(", ")}`, undefined, types.string)
+	.addParam("account", "Account granted the role", undefined, types.string)
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment (default: registered for the network, else 0)", undefined, types.int)
+	.addParam("blockRange", "Maximum block range of a single eth_getLogs request", 2000, types.int)
+	.addOptionalParam("safe", "Queue the grant in a Safe transaction batch for this Safe instead of sending it", undefined, types.string)
+	.addOptionalParam("batch", "Safe batch file (default: deployments/<network>.safe.json)", undefined, types.string)
+	.setAction(async (args, hre) => {
+		await updateRole(hre, { ...args, force: false }, true);
+	});
+
+task("rental:roles:revoke", "Revoke a role of the rental protocol")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("role", `Revoked role: ${ROLES.join(", ")}`, undefined, types.string)
+	.addParam("account", "Account losing the role", undefined, types.string)
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment (default: registered for the network, else 0)", undefined, types.int)
+	.addParam("blockRange", "Maximum block range of a single eth_getLogs request", 2000, types.int)
+	.addFlag("force", "Allow revoking the last holder of the DEFAULT_ADMIN_ROLE")
+	.addOptionalParam("safe", "Queue the revocation in a Safe transaction batch for this Safe instead of sending it", undefined, types.string)
+	.addOptionalParam("batch", "Safe batch file (default: deployments/<network>.safe.json)", undefined, types.string)
+	.setAction(async (args, hre) => {
+		await updateRole(hre, args, false);
+	});
+
+task("rental:pause", "Pause the rental protocol (needs the PAUSER_ROLE)")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addOptionalParam("safe", "Queue the transaction in a Safe transaction batch for this Safe instead of sending it", undefined, types.string)
+	.addOptionalParam("batch", "Safe batch file (default: deployments/<network>.safe.json)", undefined, types.string)
+	.setAction(async (args, hre) => {
+		await setPaused(hre, args, true);
+	});
+
+task("rental:unpause", "Unpause the rental protocol (needs the PAUSER_ROLE)")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addOptionalParam("safe", "Queue the transaction in a Safe transaction batch for this Safe instead of sending it", undefined, types.string)
+	.addOptionalParam("batch", "Safe batch file (default: deployments/<network>.safe.json)", undefined, types.string)
+	.setAction(async (args, hre) => {
+		await setPaused(hre, args, false);
+	});
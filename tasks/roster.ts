@@ -0,0 +1,164 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { readFileSync } from "fs";
+import type { RentalClient } from "../src";
+import { rentalProtocolAddress } from "./deploy";
+import { registeredCollection } from "./registry";
+
+interface RosterEntry {
+	subtenant: string;
+	/** Share of the rewards of the guild, the sublender */
+	basisPoints: number;
+}
+
+/**
+ * Sublets wanted by a guild, by `BorrowedNFT` token ID, `null` to end the sublet. The token IDs
+ * left out are untouched.
+ */
+export interface Roster {
+	/** Original collection (default: the only registered one) */
+	token?: string;
+	sublets: { [tokenId: string]: RosterEntry | null };
+}
+
+/**
+ * What the roster needs for a token:
+ * - `sublet`: sublet the token, not sublet yet
+ * - `rotate`: end the current sublet, then sublet the token again
+ * - `end`: end the current sublet
+ * - `unchanged`: the sublet is already the wanted one
+ * - `refuse`: the roster can't be applied, see `reason`
+ */
+interface RosterChange {
+	tokenId: string;
+	action: "sublet" | "rotate" | "end" | "unchanged" | "refuse";
+	reason?: string;
+	current?: RosterEntry;
+	wanted?: RosterEntry;
+	transactionHashes?: string[];
+}
+
+function parseRoster(hre: HardhatRuntimeEnvironment, file: string): Roster {
+	const json = JSON.parse(readFileSync(file, "utf8"));
+	if (json.token !== undefined && !hre.ethers.utils.isAddress(json.token)) {
+		throw new Error(`Invalid roster "${file}": "token" isn't an address`);
+	}
+	const sublets: Roster["sublets"] = {};
+	for (const tokenId of Object.keys(json.sublets ?? {})) {
+		const entry = json.sublets[tokenId];
+		if (!/^\d+$/.test(tokenId)) {
+			throw new Error(`Invalid roster "${file}": "${tokenId}" isn't a token ID`);
+		}
+		if (entry === null) {
+			sublets[tokenId] = null;
+			continue;
+		}
+		if (!hre.ethers.utils.isAddress(entry.subtenant)) {
+			throw new Error(`Invalid roster "${file}": "sublets.${tokenId}.subtenant" isn't an address`);
+		}
+		if (!Number.isInteger(entry.basisPoints) || entry.basisPoints < 0 || entry.basisPoints > 100_00) {
+			throw new Error(`Invalid roster "${file}": "sublets.${tokenId}.basisPoints" must be between 0 and 10000`);
+		}
+		sublets[tokenId] = { subtenant: hre.ethers.utils.getAddress(entry.subtenant), basisPoints: entry.basisPoints };
+	}
+	return { token: json.token && hre.ethers.utils.getAddress(json.token), sublets };
+}
+
+/**
+ * Compare the wanted sublet of `tokenId` with the current one, the guild being the tenant.
+ */
+async function planChange(
+	client: RentalClient,
+	token: string,
+	tokenId: string,
+	wanted: RosterEntry | null,
+	guild: string,
+	minEnd: number
+): Promise<RosterChange> {
+	const refuse = (reason: string): RosterChange => ({ tokenId, action: "refuse", reason });
+	const rental = await client.getRental(token, tokenId);
+	if (!rental) {
+		return refuse("not rented");
+	}
+	const { borrowedNFT, subLentNFT } = await client.requireRentalNFTs(token);
+	const sublet = await subLentNFT.exists(tokenId);
+	const tenant = await (sublet ? subLentNFT : borrowedNFT).ownerOf(tokenId);
+	if (tenant !== guild) {
+		return refuse(`rented by "${tenant}"`);
+	}
+	let current: RosterEntry | undefined;
+	if (sublet) {
+		const [, sublender] = await client.getFeesTable(token, tokenId);
+		current = { subtenant: await borrowedNFT.ownerOf(tokenId), basisPoints: sublender.basisPoints };
+	}
+
+	if (!wanted) {
+		return { tokenId, action: current ? "end" : "unchanged", current };
+	}
+	if (current && current.subtenant === wanted.subtenant && current.basisPoints === wanted.basisPoints) {
+		return { tokenId, action: "unchanged", current, wanted };
+	}
+	if (rental.end.lt(minEnd)) {
+		return { ...refuse(`the rental ends at ${new Date(rental.end.toNumber() * 1000).toISOString()}`), current };
+	}
+	return { tokenId, action: current ? "rotate" : "sublet", current, wanted };
+}
+
+const describeEntry = (entry: RosterEntry) => `"${entry.subtenant}" (${entry.basisPoints / 100}%)`;
+
+task("rental:roster", "Sublet the rented NFTs of a guild to the players of a roster file, as the signer")
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addParam("roster", "JSON roster file, see the README", undefined, types.inputFile)
+	.addOptionalParam("collection", "Registered collection when the roster has no token (default: the only registered one)", undefined, types.string)
+	.addParam("margin", "Minimum time left on a rental to sublet it, in seconds", 24 * 3600, types.int)
+	.addFlag("dryRun", "Only print the change plan")
+	.setAction(async (args, hre) => {
+		const { RentalClient } = await import("../src");
+		const [signer] = await hre.ethers.getSigners();
+		const client = RentalClient.connect(rentalProtocolAddress(hre, args.rental), signer);
+		const roster = parseRoster(hre, args.roster);
+		const token = roster.token ?? registeredCollection(hre, args.collection).original;
+		const { timestamp } = await hre.ethers.provider.getBlock("latest");
+
+		const changes: RosterChange[] = [];
+		for (const tokenId of Object.keys(roster.sublets)) {
+			changes.push(
+				await planChange(client, token, tokenId, roster.sublets[tokenId], signer.address, timestamp + args.margin)
+			);
+		}
+
+		console.log(`Roster of "${token}" for "${signer.address}":`);
+		for (const { tokenId, action, reason, current, wanted } of changes) {
+			if (action === "refuse") {
+				console.log(`- refuse #${tokenId}: ${reason}`);
+			} else if (action === "end") {
+				console.log(`- end the sublet of #${tokenId} to ${describeEntry(current as RosterEntry)}`);
+			} else if (action !== "unchanged") {
+				const from = current ? ` instead of ${describeEntry(current)}` : "";
+				console.log(`- ${action} #${tokenId} to ${describeEntry(wanted as RosterEntry)}${from}`);
+			}
+		}
+		const count = (action: RosterChange["action"]) => changes.filter((change) => change.action === action).length;
+		const counts = [`${count("sublet")} sublet`, `${count("rotate")} rotated`, `${count("end")} ended`];
+		counts.push(`${count("unchanged")} unchanged`, `${count("refuse")} refused`);
+		console.log(counts.join(", ") + (args.dryRun ? " (dry run)" : ""));
+		if (args.dryRun) {
+			return changes;
+		}
+
+		for (const change of changes) {
+			const { tokenId, action, wanted } = change;
+			change.transactionHashes = [];
+			if (action === "end" || action === "rotate") {
+				const tx = await client.endSublet(token, tokenId);
+				change.transactionHashes.push(tx.hash);
+				await tx.wait();
+			}
+			if (wanted && (action === "sublet" || action === "rotate")) {
+				const tx = await client.sublet(token, tokenId, wanted.subtenant, wanted.basisPoints);
+				change.transactionHashes.push(tx.hash);
+				await tx.wait();
+			}
+		}
+		return changes;
+	});
@@ -0,0 +1,112 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { utils } from "ethers";
+import { MetaTransaction, encodeMulti } from "ethers-multisend";
+
+/**
+ * Transaction of a Safe transaction builder batch. `contractMethod` and `contractInputsValues` are only
+ * displayed by the transaction builder, which sends `data`.
+ */
+export interface SafeBatchTransaction {
+	to: string;
+	value: string;
+	data: string;
+	contractMethod: { name: string; payable: boolean; inputs: { name: string; type: string; internalType: string }[] };
+	contractInputsValues: { [input: string]: string };
+}
+
+/**
+ * Batch file loaded by the Safe transaction builder app.
+ */
+export interface SafeBatchFile {
+	version: "1.0";
+	chainId: string;
+	createdAt: number;
+	meta: { name: string; description: string; createdFromSafeAddress: string };
+	transactions: SafeBatchTransaction[];
+	/** The transactions encoded as a single `multiSend` delegate call, to execute them without the transaction builder */
+	multiSend?: MetaTransaction;
+}
+
+/**
+ * Admin calls queued for a Safe instead of being sent by the signer.
+ */
+export class SafeBatch {
+	readonly transactions: SafeBatchTransaction[] = [];
+	readonly descriptions: string[] = [];
+
+	constructor(readonly safe: string, readonly chainId: number, readonly name: string) {}
+
+	/**
+	 * Queue a call of `method` on `contract`.
+	 */
+	add(contract: { address: string; interface: utils.Interface }, method: string, args: unknown[], description: string) {
+		const fragment = contract.interface.getFunction(method);
+		const contractInputsValues: SafeBatchTransaction["contractInputsValues"] = {};
+		fragment.inputs.forEach((input, i) => {
+			const value = args[i];
+			contractInputsValues[input.name] = typeof value === "object" ? JSON.stringify(value) : String(value);
+		});
+		this.transactions.push({
+			to: contract.address,
+			value: "0",
+			data: contract.interface.encodeFunctionData(fragment, args),
+			contractMethod: {
+				name: fragment.name,
+				payable: fragment.payable,
+				inputs: fragment.inputs.map((input) => ({ name: input.name, type: input.type, internalType: input.type })),
+			},
+			contractInputsValues,
+		});
+		this.descriptions.push(description);
+	}
+
+	toJSON(): SafeBatchFile {
+		const batch: SafeBatchFile = {
+			version: "1.0",
+			chainId: String(this.chainId),
+			createdAt: Date.now(),
+			meta: { name: this.name, description: this.descriptions.join("\n"), createdFromSafeAddress: this.safe },
+			transactions: this.transactions,
+		};
+		if (this.transactions.length > 1) {
+			batch.multiSend = encodeMulti(this.transactions.map(({ to, value, data }) => ({ to, value, data })));
+		}
+		return batch;
+	}
+
+	/**
+	 * Write the batch when not empty.
+	 */
+	write(file: string) {
+		if (this.transactions.length === 0) {
+			console.log("Nothing to queue in a Safe batch");
+			return;
+		}
+		mkdirSync(dirname(file), { recursive: true });
+		writeFileSync(file, JSON.stringify(this.toJSON(), null, 2));
+		console.log(`${this.transactions.length} transaction(s) for the Safe "${this.safe}" written to "${file}":`);
+		for (const description of this.descriptions) {
+			console.log(`  ${description}`);
+		}
+	}
+}
+
+/**
+ * Safe batch of a task run with `--safe`, written to `--batch` (default: `deployments/<network>.safe.json`).
+ */
+export async function openSafeBatch(
+	hre: HardhatRuntimeEnvironment,
+	name: string,
+	args: { safe?: string; batch?: string }
+): Promise<{ batch: SafeBatch; file: string } | undefined> {
+	if (!args.safe) {
+		return undefined;
+	}
+	const { chainId } = await hre.ethers.provider.getNetwork();
+	return {
+		batch: new SafeBatch(hre.ethers.utils.getAddress(args.safe), chainId, name),
+		file: args.batch ?? join("deployments", `${hre.network.name}.safe.json`),
+	};
+}
@@ -0,0 +1,257 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { Contract, ContractFactory } from "ethers";
+import {
+	Manifest,
+	SolcInput,
+	SolcOutput,
+	ValidationDataCurrent,
+	assertStorageUpgradeSafe,
+	assertUpgradeSafe,
+	concatRunData,
+	getImplementationAddress,
+	getStorageLayout,
+	getStorageLayoutForAddress,
+	getUnlinkedBytecode,
+	getVersion,
+	solcInputOutputDecoder,
+	validate,
+	withValidationDefaults,
+} from "@openzeppelin/upgrades-core";
+import type { RentalProtocol, UpgradeableContract } from "../src";
+import { rentalProtocolAddress, rentalProtocolStartBlock } from "./deploy";
+import { registryFile, updateRegistry } from "./registry";
+import { openSafeBatch } from "./safe";
+
+const UPGRADEABLE_CONTRACTS = ["RentalProtocol", "LentNFT", "BorrowedNFT", "SubLentNFT"];
+const RENTAL_NFTS = ["lentNFT", "borrowedNFT", "subLentNFT"] as const;
+const PROXY_ADMIN_ABI = ["function upgrade(address proxy, address implementation)"];
+
+/**
+ * State of the protocol which must survive upgrades, flattened as `<path>: <value>`.
+ */
+interface StateSnapshot {
+	rentalProtocol: string;
+	startBlock: number;
+	state: { [path: string]: string };
+}
+
+interface UpgradeReport {
+	proxy: string;
+	implementation: string;
+	/** The new implementation is the current one */
+	upToDate: boolean;
+	/** New storage variables, as `<contract>.<label>: <type>` */
+	addedStorage: string[];
+}
+
+/**
+ * Upgrade safety validations of the compiled contracts, computed from the Hardhat build infos like
+ * the compile hook of hardhat-upgrades does.
+ */
+async function readValidations(hre: HardhatRuntimeEnvironment): Promise<ValidationDataCurrent> {
+	let validations: ValidationDataCurrent | undefined;
+	for (const path of await hre.artifacts.getBuildInfoPaths()) {
+		const { input, output }: { input: SolcInput; output: SolcOutput } = JSON.parse(readFileSync(path, "utf8"));
+		validations = concatRunData(validate(output, solcInputOutputDecoder(input, output)), validations);
+	}
+	if (!validations) {
+		throw new Error("No compiled contracts to validate");
+	}
+	return validations;
+}
+
+/**
+ * Same checks as `upgrades.upgradeProxy`, against the storage layout of the current implementation
+ * recorded in the OpenZeppelin manifest.
+ * @throws when the new implementation is unsafe or its storage layout is incompatible
+ */
+async function validateUpgrade(
+	hre: HardhatRuntimeEnvironment,
+	validations: ValidationDataCurrent,
+	proxy: string,
+	factory: ContractFactory
+): Promise<UpgradeReport> {
+	const { provider } = hre.network;
+	const version = getVersion(getUnlinkedBytecode(validations, factory.bytecode), factory.bytecode);
+	const opts = withValidationDefaults({});
+	assertUpgradeSafe(validations, version, opts);
+
+	const implementation = await getImplementationAddress(provider, proxy);
+	const manifest = await Manifest.forNetwork(provider);
+	const currentLayout = await getStorageLayoutForAddress(manifest, validations, implementation);
+	const layout = getStorageLayout(validations, version);
+	assertStorageUpgradeSafe(currentLayout, layout, opts);
+
+	const deployed = (await manifest.read()).impls[version.linkedWithoutMetadata];
+	const currentLabels = currentLayout.storage.map((item) => `${item.contract}.${item.label}`);
+	return {
+		proxy,
+		implementation,
+		upToDate: deployed?.address === implementation,
+		addedStorage: layout.storage
+			.filter((item) => currentLabels.indexOf(`${item.contract}.${item.label}`) === -1)
+			.map((item) => `${item.contract}.${item.label}: ${item.type}`),
+	};
+}
+
+/**
+ * Read the protocol state which must be untouched by upgrades: fees settings, associated collections,
+ * ongoing rentals and the rental NFTs of these rentals.
+ */
+async function snapshotState(hre: HardhatRuntimeEnvironment, rp: RentalProtocol, startBlock: number) {
+	const { MemoryStore, RentalIndexer } = await import("../src/node");
+	const indexer = new RentalIndexer(rp, new MemoryStore(), { startBlock });
+	await indexer.sync();
+
+	const state: StateSnapshot["state"] = {
+		"rentalProtocol.feesCollector": await rp.feesCollector(),
+		"rentalProtocol.protocolFeeBasisPoints": String(await rp.protocolFeeBasisPoints()),
+	};
+
+	for (const collection of indexer.state.getCollections()) {
+		const { original } = collection;
+		const nfts = {
+			lentNFT: await rp.originalToLentNFT(original),
+			borrowedNFT: await rp.originalToBorrowedNFT(original),
+			subLentNFT: await rp.originalToSubLendNFT(original),
+		};
+		for (const name of RENTAL_NFTS) {
+			const address = nfts[name];
+			state[`rentalProtocol.originalTo.${original}.${name}`] = address;
+			const nft = await hre.ethers.getContractAt("LentNFT", address);
+			state[`${name}.${address}.rentalProtocol`] = await nft.rentalProtocol();
+			state[`${name}.${address}.originalNFT`] = await nft.originalNFT();
+			if (name !== "borrowedNFT") {
+				state[`${name}.${address}.uri`] = `${await nft.uriPrefix()}<id>${await nft.uriSuffix()}`;
+			}
+		}
+
+		for (const rental of indexer.state.getRentals({ active: true, token: original })) {
+			const { end, lenderFee, sublenderFee } = await rp.rentals(original, rental.tokenId);
+			state[`rentalProtocol.rentals.${original}.${rental.tokenId}`] = [end, lenderFee, sublenderFee].join(",");
+			for (const name of RENTAL_NFTS) {
+				const nft = await hre.ethers.getContractAt("LentNFT", nfts[name]);
+				state[`${name}.${nft.address}.ownerOf.${rental.tokenId}`] = await nft
+					.ownerOf(rental.tokenId)
+					.catch(() => "none");
+			}
+		}
+	}
+
+	return { rentalProtocol: rp.address, startBlock, state };
+}
+
+/**
+ * @throws when the current state of the protocol differs from the `snapshot`
+ */
+async function checkState(hre: HardhatRuntimeEnvironment, snapshot: StateSnapshot) {
+	const rp = (await hre.ethers.getContractAt("RentalProtocol", snapshot.rentalProtocol)) as RentalProtocol;
+	const { state } = await snapshotState(hre, rp, snapshot.startBlock);
+
+	const changes = Object.keys(snapshot.state)
+		.filter((path) => state[path] !== snapshot.state[path])
+		.map((path) => `${path}: ${snapshot.state[path]} -> ${state[path]}`);
+	if (changes.length > 0) {
+		throw new Error(`The upgrade changed the protocol state:\n${changes.join("\n")}`);
+	}
+	console.log(`Protocol state untouched (${Object.keys(state).length} values checked)`);
+}
+
+task("rental:upgrade", "Upgrade the proxies of a rental protocol contract to a new implementation")
+	.addParam("contract", `Upgraded contract: ${UPGRADEABLE_CONTRACTS.join(", ")}`, undefined, types.string)
+	.addOptionalParam("implementation", "Name of the new implementation (default: --contract)", undefined, types.string)
+	.addOptionalParam("rental", "Address of the rental protocol (default: registered for the network)", undefined, types.string)
+	.addOptionalParam("proxy", "Only upgrade this proxy (default: all the proxies of --contract)", undefined, types.string)
+	.addOptionalParam("startBlock", "Block of the rental protocol deployment, to find the state to check (default: registered for the network, else 0)", undefined, types.int)
+	.addOptionalParam("snapshot", "Where to write the state to check (default: deployments/<network>.upgrade.json)", undefined, types.string)
+	.addFlag("dryRun", "Only validate the new implementation and report the changes")
+	.addFlag("prepare", "Only deploy the new implementation and print the ProxyAdmin transactions (multisig)")
+	.addOptionalParam("safe", "Prepare the upgrade and queue the ProxyAdmin transactions in a Safe transaction batch for this Safe", undefined, types.string)
+	.addOptionalParam("batch", "Safe batch file (default: deployments/<network>.safe.json)", undefined, types.string)
+	.addOptionalParam("registry", "Address registry to update (default: src/address-registry.json, except on local networks)", undefined, types.string)
+	.setAction(async (args, hre) => {
+		if (UPGRADEABLE_CONTRACTS.indexOf(args.contract) === -1) {
+			throw new Error(`Unknown contract "${args.contract}", expected one of ${UPGRADEABLE_CONTRACTS.join(", ")}`);
+		}
+		const rental = rentalProtocolAddress(hre, args.rental);
+		const rp = (await hre.ethers.getContractAt("RentalProtocol", rental)) as RentalProtocol;
+		const startBlock = rentalProtocolStartBlock(hre, rp.address, args.startBlock);
+		const implementationName: string = args.implementation ?? args.contract;
+		const factory = await hre.ethers.getContractFactory(implementationName);
+		const snapshotFile = args.snapshot ?? join("deployments", `${hre.network.name}.upgrade.json`);
+
+		// proxies to upgrade
+		let proxies: string[] = args.proxy ? [args.proxy] : [];
+		if (!args.proxy && args.contract === "RentalProtocol") {
+			proxies = [rp.address];
+		} else if (!args.proxy) {
+			const { MemoryStore, RentalIndexer } = await import("../src/node");
+			const indexer = new RentalIndexer(rp, new MemoryStore(), { startBlock });
+			await indexer.sync();
+			const field = RENTAL_NFTS[UPGRADEABLE_CONTRACTS.indexOf(args.contract) - 1];
+			proxies = indexer.state.getCollections().map((collection) => collection[field]);
+		}
+
+		const validations = await readValidations(hre);
+		const reports: UpgradeReport[] = [];
+		for (const proxy of proxies) {
+			const report = await validateUpgrade(hre, validations, proxy, factory);
+			reports.push(report);
+			console.log(`${args.contract} proxy "${proxy}" (implementation "${report.implementation}"):`);
+			console.log(report.upToDate ? "  already up to date" : `  to upgrade to ${implementationName}`);
+			for (const variable of report.addedStorage) {
+				console.log(`  + ${variable}`);
+			}
+		}
+		const pending = reports.filter((report) => !report.upToDate);
+		if (args.dryRun || pending.length === 0) {
+			return;
+		}
+
+		const snapshot = await snapshotState(hre, rp, startBlock);
+		writeFileSync(snapshotFile, JSON.stringify(snapshot, null, 2));
+
+		const safe = await openSafeBatch(hre, "rental:upgrade", args);
+		if (args.prepare || safe) {
+			for (const { proxy } of pending) {
+				const implementation = await hre.upgrades.prepareUpgrade(proxy, factory);
+				const proxyAdmin = new Contract(await hre.upgrades.erc1967.getAdminAddress(proxy), PROXY_ADMIN_ABI);
+				if (safe) {
+					safe.batch.add(proxyAdmin, "upgrade", [proxy, implementation], `Upgrade "${proxy}" to "${implementation}"`);
+					continue;
+				}
+				const data = proxyAdmin.interface.encodeFunctionData("upgrade", [proxy, implementation]);
+				console.log(`ProxyAdmin transaction upgrading "${proxy}" to "${implementation}":`);
+				console.log(JSON.stringify({ to: proxyAdmin.address, value: "0", data }, null, 2));
+			}
+			safe?.batch.write(safe.file);
+			console.log(`Once executed, check the protocol state with: rental:check-upgrade --snapshot ${snapshotFile}`);
+			return;
+		}
+
+		let implementation = "";
+		for (const { proxy } of pending) {
+			const upgraded = await hre.upgrades.upgradeProxy(proxy, factory);
+			await upgraded.deployTransaction?.wait();
+			implementation = await hre.upgrades.erc1967.getImplementationAddress(proxy);
+			console.log(`Upgraded "${proxy}" to "${implementation}"`);
+		}
+		await checkState(hre, snapshot);
+
+		const registry = registryFile(hre, args.registry);
+		if (registry) {
+			const { chainId } = await hre.ethers.provider.getNetwork();
+			await updateRegistry(registry, chainId, (addresses) => {
+				addresses.implementations[args.contract as UpgradeableContract] = implementation;
+			});
+		}
+	});
+
+task("rental:check-upgrade", "Check that an upgrade didn't change the protocol state snapshotted by rental:upgrade")
+	.addParam("snapshot", "State snapshot written by rental:upgrade", undefined, types.inputFile)
+	.setAction(async (args, hre) => {
+		await checkState(hre, JSON.parse(readFileSync(args.snapshot, "utf8")));
+	});
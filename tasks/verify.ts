@@ -0,0 +1,155 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractFactory, utils } from "ethers";
+import {
+	Deployment,
+	Manifest,
+	ProxyDeployment,
+	getImplementationAddress,
+	getVersion,
+} from "@openzeppelin/upgrades-core";
+import ERC1967Proxy from "@openzeppelin/upgrades-core/artifacts/@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol/ERC1967Proxy.json";
+import TransparentUpgradeableProxy from "@openzeppelin/upgrades-core/artifacts/@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol/TransparentUpgradeableProxy.json";
+
+const UPGRADEABLE_CONTRACTS = ["RentalProtocol", "LentNFT", "BorrowedNFT", "SubLentNFT"];
+
+/**
+ * Fully qualified names of the proxies and proxy admin deployed by hardhat-upgrades, compiled by
+ * `contracts/Proxies.sol` as Etherscan verification needs a local artifact with the deployed bytecode.
+ */
+const PROXY_CONTRACTS = {
+	transparent:
+		"openzeppelin-contracts-4.1/proxy/transparent/TransparentUpgradeableProxy.sol:TransparentUpgradeableProxy",
+	uups: "openzeppelin-contracts-4.1/proxy/ERC1967/ERC1967Proxy.sol:ERC1967Proxy",
+	admin: "openzeppelin-contracts-4.1/proxy/transparent/ProxyAdmin.sol:ProxyAdmin",
+};
+
+type VerificationStatus = "verified" | "already verified" | "failed";
+
+interface VerificationTarget {
+	/** e.g. `LentNFT implementation`, `RentalProtocol proxy` */
+	name: string;
+	address: string;
+	/** Fully qualified name of the contract, `undefined` to let the Etherscan plugin find it */
+	contract?: string;
+	constructorArguments: unknown[];
+}
+
+export interface VerificationResult extends VerificationTarget {
+	status: VerificationStatus;
+	/** Why the verification failed */
+	reason?: string;
+}
+
+/**
+ * Constructor arguments of a proxy, decoded from the tail of its creation transaction data.
+ */
+async function proxyConstructorArguments(hre: HardhatRuntimeEnvironment, proxy: ProxyDeployment): Promise<unknown[]> {
+	if (!proxy.txHash) {
+		throw new Error(`No creation transaction recorded for the proxy "${proxy.address}"`);
+	}
+	// proxies deployed by hardhat-upgrades, from the artifacts published by upgrades-core
+	const { abi, bytecode } = proxy.kind === "transparent" ? TransparentUpgradeableProxy : ERC1967Proxy;
+	const factory: ContractFactory = await hre.ethers.getContractFactory(abi, bytecode);
+	const { data } = await hre.ethers.provider.getTransaction(proxy.txHash);
+	return Array.from(
+		utils.defaultAbiCoder.decode(factory.interface.deploy.inputs, `0x${data.slice(factory.bytecode.length)}`)
+	);
+}
+
+/**
+ * Implementations, proxies and proxy admin of the OpenZeppelin manifest of the network. Deployments
+ * whose creation transaction isn't on chain, such as the ones of a local network since restarted, are
+ * left out.
+ */
+async function verificationTargets(
+	hre: HardhatRuntimeEnvironment,
+	skipProxies: boolean
+): Promise<VerificationTarget[]> {
+	const manifest = await (await Manifest.forNetwork(hre.network.provider)).read();
+	const deployed = async ({ address, txHash }: Deployment) =>
+		txHash
+			? (await hre.ethers.provider.getTransaction(txHash)) !== null
+			: (await hre.ethers.provider.getCode(address)) !== "0x";
+
+	const names = new Map<string, { name: string; contract: string }>();
+	for (const name of UPGRADEABLE_CONTRACTS) {
+		const { sourceName, bytecode } = await hre.artifacts.readArtifact(name);
+		names.set(getVersion(bytecode).linkedWithoutMetadata, { name, contract: `${sourceName}:${name}` });
+	}
+	const targets: VerificationTarget[] = [];
+	const implementations = new Map<string, string>();
+	for (const version of Object.keys(manifest.impls)) {
+		const impl = manifest.impls[version];
+		const { name, contract } = names.get(version) ?? { name: "Unknown", contract: undefined };
+		if (!impl || !(await deployed(impl))) {
+			continue;
+		}
+		for (const address of impl.allAddresses ?? [impl.address]) {
+			if (address === impl.address || (await deployed({ address }))) {
+				implementations.set(address.toLowerCase(), name);
+				targets.push({ name: `${name} implementation`, address, contract, constructorArguments: [] });
+			}
+		}
+	}
+	if (skipProxies) {
+		return targets;
+	}
+
+	for (const proxy of manifest.proxies) {
+		if (await deployed(proxy)) {
+			const implementation = await getImplementationAddress(hre.network.provider, proxy.address);
+			targets.push({
+				name: `${implementations.get(implementation.toLowerCase()) ?? "Unknown"} proxy`,
+				address: proxy.address,
+				contract: proxy.kind === "transparent" ? PROXY_CONTRACTS.transparent : PROXY_CONTRACTS.uups,
+				constructorArguments: await proxyConstructorArguments(hre, proxy),
+			});
+		}
+	}
+	if (manifest.admin && (await deployed(manifest.admin))) {
+		targets.push({
+			name: "ProxyAdmin",
+			address: manifest.admin.address,
+			contract: PROXY_CONTRACTS.admin,
+			constructorArguments: [],
+		});
+	}
+	return targets;
+}
+
+task("rental:verify", "Verify the implementations, proxies and proxy admin of the OpenZeppelin manifest on Etherscan")
+	.addFlag("skipProxies", "Only verify the implementations")
+	.setAction(async (args, hre): Promise<VerificationResult[]> => {
+		const results: VerificationResult[] = [];
+		for (const target of await verificationTargets(hre, args.skipProxies)) {
+			const { address, contract, constructorArguments } = target;
+			const verify = hre.run("verify:verify", { address, contract, constructorArguments });
+			const result: VerificationResult = await verify.then(
+				() => ({ ...target, status: "verified" }),
+				(err: Error) =>
+					/already verified/i.test(err.message)
+						? { ...target, status: "already verified" }
+						: { ...target, status: "failed", reason: err.message.replace(/\s+/g, " ").trim() }
+			);
+			results.push(result);
+		}
+
+		const column = (value: string, length: number) => value + " ".repeat(Math.max(0, length - value.length));
+		const width = Math.max(0, ...results.map((result) => result.name.length));
+		for (const { name, address, status, reason } of results) {
+			console.log(`${column(name, width)}  ${address}  ${reason ? `${column(status, 16)}  ${reason}` : status}`);
+		}
+		const count = (status: VerificationStatus) => results.filter((result) => result.status === status).length;
+		console.log(
+			`${count("verified")} verified, ${count("already verified")} already verified, ${count("failed")} failed on "${
+				hre.network.name
+			}"`
+		);
+		const failures = results.filter((result) => result.status === "failed");
+		if (failures.length > 0) {
+			const reasons = failures.map((failure) => `${failure.name} "${failure.address}": ${failure.reason}`);
+			throw new Error(`Verification failed for ${reasons.join(", ")}`);
+		}
+		return results;
+	});
@@ -0,0 +1,100 @@
+import { network, ethers } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { RentalClient, SignatureType, ZERO_ADDRESS } from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("RentalClient", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let client: RentalClient;
+	let feesCollector: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let subtenant: SignerWithAddress;
+
+	beforeEach(async () => {
+		[, feesCollector, lender, tenant, subtenant] = await ethers.getSigners();
+		({ rp, erc721 } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		await erc721.mint(lender.address, 123);
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+	});
+
+	it("should build an offer with defaults", async () => {
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 123, duration: 3600, basisPoints: 30_00 }],
+		});
+		const block = await ethers.provider.getBlock("latest");
+
+		expect(offer.maker).to.equal(lender.address);
+		expect(offer.taker).to.equal(ZERO_ADDRESS);
+		expect(offer.feeAmount).to.equal(0);
+		expect(offer.nonce).to.match(/^0x[0-9a-f]{64}$/);
+		expect(offer.deadline).to.equal(block.timestamp + 7 * 24 * 3600);
+	});
+
+	it("should resolve rental NFTs of an associated collection", async () => {
+		const nfts = await client.requireRentalNFTs(erc721.address);
+		expect(nfts.lentNFT.address).to.equal(await rp.originalToLentNFT(erc721.address));
+		expect(nfts.borrowedNFT.address).to.equal(await rp.originalToBorrowedNFT(erc721.address));
+		expect(nfts.subLentNFT.address).to.equal(await rp.originalToSubLendNFT(erc721.address));
+
+		expect(await client.getRentalNFTs(lender.address)).to.be.undefined;
+		const error = await client.requireRentalNFTs(lender.address).catch((err: Error) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("isn't associated");
+	});
+
+	it("should go through a full rental lifecycle", async () => {
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 123, duration: 3600, basisPoints: 30_00 }],
+		});
+		await client.preSignOffer(offer);
+
+		const tenantClient = client.connect(tenant);
+		await expect(tenantClient.rent(offer)).to.emit(rp, "RentalStarted");
+		expect(await client.isNonceUsed(lender.address, offer.nonce)).to.be.true;
+
+		const rental = await client.getRental(erc721.address, 123);
+		expect(rental?.lenderBasisPoints).to.equal(30_00);
+		expect(rental?.sublenderBasisPoints).to.equal(0);
+
+		await tenantClient.sublet(erc721.address, 123, subtenant.address, 20_00);
+		expect(await client.getFeesTable(erc721.address, 123)).to.deep.equal([
+			{ to: lender.address, basisPoints: 30_00 },
+			{ to: tenant.address, basisPoints: 20_00 },
+		]);
+		await tenantClient.endSublet(erc721.address, 123);
+
+		await network.provider.send("evm_increaseTime", [3601]);
+		await expect(client.endRental(erc721.address, 123)).to.emit(rp, "RentalEnded");
+		expect(await client.getRental(erc721.address, 123)).to.be.undefined;
+		expect(await erc721.ownerOf(123)).to.equal(lender.address);
+	});
+
+	it("should start a rental with an EIP-712 signature", async () => {
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 123, duration: 3600, basisPoints: 30_00 }],
+		});
+		const signature = await client.signOffer(offer);
+
+		await expect(client.connect(tenant).rent(offer, SignatureType.EIP_712, signature)).to.emit(rp, "RentalStarted");
+	});
+
+	it("should end a rental prematurely", async () => {
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 123, duration: 3600, basisPoints: 30_00 }],
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+
+		await expect(client.endRentalPrematurely(erc721.address, 123)).to.emit(rp, "RequestToEndRentalPrematurely");
+		await expect(client.connect(tenant).endRentalPrematurely(erc721.address, 123)).to.emit(rp, "RentalEnded");
+	});
+});
@@ -5,6 +5,8 @@ import { RentalProtocol, IRentalProtocol, LentNFT, BorrowedNFT, SubLentNFT, ERC2
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import { randomBytes } from "crypto";
 import { BigNumberish } from "ethers";
+import { getRentalDomain, signRentalOffer } from "../src";
+import { expectMetadataSnapshot } from "./snapshot";
 
 chai.use(solidity);
 const { expect } = chai;
@@ -129,10 +131,9 @@ describe("Rental", () => {
     });
 
     it("should start a rental with EIP-712 signature", async () => {
-      const domain = await getDomain(rp)
-      const types = await getTypes()
+      const domain = await getRentalDomain(rp)
       const offer = await createBundleOffer(lender, ZERO_ADDR, erc721, rp, `0x${randomBytes(32).toString('hex')}`)
-      const signature = await lender._signTypedData(domain, types as any, offer)
+      const signature = await signRentalOffer(lender, domain, offer)
       const txAcceptOffer = rp.connect(tenant).rent(offer, SignatureType.EIP_712, signature);
       await expect(txAcceptOffer).to.emit(rp, 'RentalStarted')
     });
@@ -305,10 +306,9 @@ describe("Rental", () => {
     });
 
     it("should fail if rental offer already filled", async () => {
-      const domain = await getDomain(rp)
-      const types = await getTypes()
+      const domain = await getRentalDomain(rp)
       const offer = await createBundleOffer(lender, ZERO_ADDR, erc721, rp, `0x${randomBytes(32).toString('hex')}`)
-      const signature = await lender._signTypedData(domain, types as any, offer)
+      const signature = await signRentalOffer(lender, domain, offer)
       await rp.connect(tenant).rent(offer, SignatureType.EIP_712, signature);
       await expect(rp.connect(tenant).rent(offer, SignatureType.EIP_712, signature)).to.be.revertedWith("cancelled or filled offer");
     });
@@ -397,14 +397,14 @@ describe("Rental", () => {
       await erc721.mint(admin.address, 123);
       expect(await lentNFT.name()).to.equal('lERC721Test');
       expect(await lentNFT.symbol()).to.equal('lMNFT');
-      expect(await lentNFT.tokenURI(123)).to.equal('data:application/json;base64,eyJuYW1lIjoiTGVudCBNTkZUIDEyMyIsImRlc2NyaXB0aW9uIjoiTGVudCBNTkZUIGZyb20gQ29tZXRoIFJlbnRhbCIsImFuaW1hdGlvbl91cmwiOiJkYXRhOmltYWdlL3N2Zyt4bWw7YmFzZTY0LFBEOTRiV3dnZG1WeWMybHZiajBpTVM0d0lpQmxibU52WkdsdVp6MGlWVlJHTFRnaVB6NDhjM1puSUhkcFpIUm9QU0l4TURBbElpQm9aV2xuYUhROUlqRXdNQ1VpSUhacFpYZENiM2c5SWpBZ01DQTRNaklnTVRBNU1pSWdlRzFzYm5NOUltaDBkSEE2THk5M2QzY3Vkek11YjNKbkx6SXdNREF2YzNabklpQjRiV3h1Y3pwNGJHbHVhejBpYUhSMGNEb3ZMM2QzZHk1M015NXZjbWN2TVRrNU9TOTRiR2x1YXlJK1BHbHRZV2RsSUhoc2FXNXJPbWh5WldZOUltaDBkSEJ6T2k4dmFYQm1jeTVwYnk4eE1qTXVjRzVuSWlCNFBTSXdJaUI1UFNJd0lpQjNhV1IwYUQwaU9ESXlJaUJvWldsbmFIUTlJakV3T1RJaUlDOCtJanhuUGp4d2IyeDVaMjl1SUhCdmFXNTBjejBpTlRBd0xERXpJRFV3TUN3MU55QTFOVEFzTlRjaUlITjBlV3hsUFNKbWFXeHNPaUFqTTBRMk1FTkZPeUJtYVd4MFpYSTZJR0p5YVdkb2RHNWxjM01vTUM0MUtUc2lMejQ4Y0c5c2VXZHZiaUJ3YjJsdWRITTlJamMzTXl3eU9EQWdOek15TERJNE1DQTNNeklzTWpNMklpQnpkSGxzWlQwaVptbHNiRG9nSXpORU5qQkRSVHNnWm1sc2RHVnlPaUJpY21sbmFIUnVaWE56S0RBdU5TazdJaTgrUEhCdmJIbG5iMjRnY0c5cGJuUnpQU0kyTURBc01UTWdOemN6TERFNE1DQTNOek1zTWpnd0lEVXdNQ3d4TXlJZ2MzUjViR1U5SW1acGJHdzZJQ016UkRZd1EwVTdJaTgrUEhSbGVIUWdlRDBpTUNJZ2VUMGlNQ0lnWkc5dGFXNWhiblF0WW1GelpXeHBibVU5SW0xcFpHUnNaU0lnZEdWNGRDMWhibU5vYjNJOUltMXBaR1JzWlNJZ2MzUjViR1U5SW1acGJHdzZJSGRvYVhSbE95Qm1iMjUwTFdaaGJXbHNlVG9nUVhKcFlXdzdJR1p2Ym5RdGMybDZaVG9nTWpod2VEc2dabTl1ZEMxM1pXbG5hSFE2SUdKdmJHUTdJSFJ5WVc1elptOXliVG9nZEhKaGJuTnNZWFJsS0RZMk1IQjRMREV5TlhCNEtTQnliM1JoZEdVb05EVmtaV2NwT3lJK1RHVnVkRHd2ZEdWNGRENDhMMmMrUEM5emRtYysifQ==');
+      expectMetadataSnapshot("LentNFT-123", await lentNFT.tokenURI(123));
     });
 
     it("checks SubLentNFT metadata", async () => {
       await erc721.mint(admin.address, 123);
       expect(await subLentNFT.name()).to.equal('slERC721Test');
       expect(await subLentNFT.symbol()).to.equal('slMNFT');
-      expect(await subLentNFT.tokenURI(1000036)).to.equal('data:application/json;base64,eyJuYW1lIjoiU3ViTGVudCBNTkZUIDEwMDAwMzYiLCJkZXNjcmlwdGlvbiI6IlN1YkxlbnQgTU5GVCBmcm9tIENvbWV0aCBSZW50YWwiLCJhbmltYXRpb25fdXJsIjoiZGF0YTppbWFnZS9zdmcreG1sO2Jhc2U2NCxQRDk0Yld3Z2RtVnljMmx2YmowaU1TNHdJaUJsYm1OdlpHbHVaejBpVlZSR0xUZ2lQejQ4YzNabklIZHBaSFJvUFNJeE1EQWxJaUJvWldsbmFIUTlJakV3TUNVaUlIWnBaWGRDYjNnOUlqQWdNQ0E0TWpJZ01UQTVNaUlnZUcxc2JuTTlJbWgwZEhBNkx5OTNkM2N1ZHpNdWIzSm5Mekl3TURBdmMzWm5JaUI0Yld4dWN6cDRiR2x1YXowaWFIUjBjRG92TDNkM2R5NTNNeTV2Y21jdk1UazVPUzk0YkdsdWF5SStQR2x0WVdkbElIaHNhVzVyT21oeVpXWTlJbWgwZEhCek9pOHZhWEJtY3k1cGJ5OHhNREF3TURNMkxuQnVaeUlnZUQwaU1DSWdlVDBpTUNJZ2QybGtkR2c5SWpneU1pSWdhR1ZwWjJoMFBTSXhNRGt5SWlBdlBpSThaejQ4Y0c5c2VXZHZiaUJ3YjJsdWRITTlJalV3TUN3eE15QTFNREFzTlRjZ05UVXdMRFUzSWlCemRIbHNaVDBpWm1sc2JEb2dJek5FTmpCRFJUc2dabWxzZEdWeU9pQmljbWxuYUhSdVpYTnpLREF1TlNrN0lpOCtQSEJ2YkhsbmIyNGdjRzlwYm5SelBTSTNOek1zTWpnd0lEY3pNaXd5T0RBZ056TXlMREl6TmlJZ2MzUjViR1U5SW1acGJHdzZJQ016UkRZd1EwVTdJR1pwYkhSbGNqb2dZbkpwWjJoMGJtVnpjeWd3TGpVcE95SXZQanh3YjJ4NVoyOXVJSEJ2YVc1MGN6MGlOakF3TERFeklEYzNNeXd4T0RBZ056Y3pMREk0TUNBMU1EQXNNVE1pSUhOMGVXeGxQU0ptYVd4c09pQWpNMFEyTUVORk95SXZQangwWlhoMElIZzlJakFpSUhrOUlqQWlJR1J2YldsdVlXNTBMV0poYzJWc2FXNWxQU0p0YVdSa2JHVWlJSFJsZUhRdFlXNWphRzl5UFNKdGFXUmtiR1VpSUhOMGVXeGxQU0ptYVd4c09pQjNhR2wwWlRzZ1ptOXVkQzFtWVcxcGJIazZJRUZ5YVdGc095Qm1iMjUwTFhOcGVtVTZJREk0Y0hnN0lHWnZiblF0ZDJWcFoyaDBPaUJpYjJ4a095QjBjbUZ1YzJadmNtMDZJSFJ5WVc1emJHRjBaU2cyTmpCd2VDd3hNalZ3ZUNrZ2NtOTBZWFJsS0RRMVpHVm5LVHNpUGxOMVlreGxiblE4TDNSbGVIUStQQzluUGp3dmMzWm5QZz09In0=');
+      expectMetadataSnapshot("SubLentNFT-1000036", await subLentNFT.tokenURI(1000036));
     });
   });
 
@@ -0,0 +1,42 @@
+import { run } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("Gas benchmark", () => {
+	let baseline: string;
+
+	beforeEach(() => {
+		baseline = join(mkdtempSync(join(tmpdir(), "rental-gas-")), "gas.json");
+	});
+
+	it("should write the baseline of the selected operations", async () => {
+		const results = await run("rental:gas-benchmark", { baseline, operations: "onERC20Received", update: true });
+		expect(Object.keys(results)).to.deep.equal([
+			"onERC20Received/1-recipient",
+			"onERC20Received/2-recipients",
+			"onERC20Received/3-recipients",
+		]);
+		expect(results["onERC20Received/3-recipients"]).to.be.greaterThan(results["onERC20Received/2-recipients"]);
+		expect(JSON.parse(readFileSync(baseline, "utf8"))).to.deep.equal(results);
+
+		// the same state is benchmarked whatever the operations before
+		const again = await run("rental:gas-benchmark", { baseline, operations: "onERC20Received/3", threshold: 0 });
+		expect(again).to.deep.equal({ "onERC20Received/3-recipients": results["onERC20Received/3-recipients"] });
+	});
+
+	it("should fail when an operation regresses past the threshold", async () => {
+		writeFileSync(baseline, JSON.stringify({ sublet: 100_000, "endRental/no-sublet": 1_000_000 }));
+
+		const error = await run("rental:gas-benchmark", { baseline, operations: "sublet", threshold: 5 }).catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("sublet: 100000 -> ");
+
+		// improvements don't fail
+		const results = await run("rental:gas-benchmark", { baseline, operations: "endRental/no-sublet", threshold: 5 });
+		expect(results["endRental/no-sublet"]).to.be.lessThan(1_000_000);
+
+		const unknown = await run("rental:gas-benchmark", { baseline, operations: "transfer" }).catch((err) => err);
+		expect(unknown).to.be.instanceOf(Error).with.property("message", 'No operation starts with "transfer"');
+	});
+});
@@ -0,0 +1,147 @@
+import { ethers, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ERC20Test, ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import {
+	BundleConfig,
+	InvalidBundleConfigError,
+	RentalClient,
+	RentalOffer,
+	SignatureType,
+	getRentalDomain,
+	offerFromJSON,
+	offerToJSON,
+	parseBundleConfig,
+	priceToken,
+	recoverRentalOfferSigner,
+	signedOfferFromJSON,
+} from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+const ONE = ethers.constants.WeiPerEther;
+
+describe("Bundle offers", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let feesToken: ERC20Test;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let dir: string;
+	let configFile: string;
+
+	const config = (overrides: Partial<BundleConfig> = {}) => ({
+		collection: erc721.address,
+		feeToken: feesToken.address,
+		maxBundleSize: 2,
+		default: { duration: 3600, basisPoints: 10_00, feeAmount: "1" },
+		rules: [
+			{ tokenIds: ["4"], basisPoints: 20_00 },
+			{ traits: { rarity: "legendary" }, duration: 7200, feeAmount: "5" },
+			{ tokenIds: ["4", "5"], basisPoints: 30_00 },
+		],
+		traits: { 5: { rarity: "legendary" }, 6: { rarity: "common" } },
+		...overrides,
+	});
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		let other: SignerWithAddress;
+		// the tasks are run by the admin, the lender
+		[lender, feesCollector, tenant, other] = await ethers.getSigners();
+		({ rp, erc721, feesToken } = await deployRentalFixture(feesCollector.address));
+		dir = mkdtempSync(join(tmpdir(), "rental-bundles-"));
+		configFile = join(dir, "config.json");
+		writeFileSync(configFile, JSON.stringify(config()));
+
+		for (const tokenId of [1, 2, 3, 4, 5]) {
+			await erc721.mint(lender.address, tokenId);
+		}
+		await erc721.mint(other.address, 6);
+		// token 2 is sold and token 3 rented
+		await erc721.transferFrom(lender.address, other.address, 2);
+		await erc721.setApprovalForAll(rp.address, true);
+		const client = RentalClient.connect(rp.address, lender);
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 3, duration: 60, basisPoints: 0 }],
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+		await erc721.setApprovalForAll(rp.address, false);
+	});
+
+	const bundleOffers = (args: { [name: string]: unknown } = {}) =>
+		run("rental:bundle-offers", { rental: rp.address, pricing: configFile, nonces: join(dir, "nonces.json"), ...args });
+
+	it("should price each token with the first matching rules", () => {
+		const parsed = parseBundleConfig(config());
+		const terms = (tokenId: string) => {
+			const { duration, basisPoints, feeAmount } = priceToken(parsed, tokenId);
+			return [duration, basisPoints, ethers.utils.formatEther(feeAmount)];
+		};
+		expect(terms("1")).to.deep.equal([3600, 10_00, "1.0"]);
+		expect(terms("4")).to.deep.equal([3600, 20_00, "1.0"]);
+		expect(terms("5")).to.deep.equal([7200, 30_00, "5.0"]);
+		expect(terms("6")).to.deep.equal([3600, 10_00, "1.0"]);
+
+		const problem = (json: Partial<BundleConfig>) => {
+			try {
+				parseBundleConfig(json);
+			} catch (err: unknown) {
+				expect(err).to.be.instanceOf(InvalidBundleConfigError);
+				return (err as InvalidBundleConfigError).problem;
+			}
+		};
+		expect(problem(config({ maxBundleSize: 0 }))).to.equal('"maxBundleSize" must be a positive integer');
+		expect(problem(config({ feeToken: undefined }))).to.equal('"feeToken" is required for upfront fees');
+		expect(problem(config({ rules: [{ basisPoints: 100_01, tokenIds: ["1"] }] }))).to.equal(
+			'"rules[0].basisPoints" must be between 0 and 10000'
+		);
+		expect(problem(config({ rules: [{ duration: 60 }] }))).to.equal('"rules[0]" needs tokenIds or traits');
+	});
+
+	it("should pre-sign bundles of the available tokens", async () => {
+		const error = await bundleOffers().catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("use --approve");
+
+		const block = await ethers.provider.getBlockNumber();
+		const planned = await bundleOffers({ approve: true, dryRun: true });
+		expect(await ethers.provider.getBlockNumber()).to.equal(block);
+		expect(planned.map(({ offer }: { offer: RentalOffer }) => offer.nfts.map((nft) => nft.tokenId))).to.deep.equal([
+			["1", "4"],
+			["5"],
+		]);
+
+		const offers = await bundleOffers({ approve: true, out: dir });
+		expect(offers.map(({ offer }: { offer: RentalOffer }) => offer.feeAmount)).to.deep.equal([ONE.mul(2), ONE.mul(5)]);
+
+		// a tenant rents the second bundle from its file
+		const offer = offerFromJSON(JSON.parse(readFileSync(offers[1].file, "utf8")));
+		expect(offerToJSON(offer).nfts).to.deep.equal([
+			{ token: erc721.address, tokenId: "5", duration: "7200", basisPoints: 30_00 },
+		]);
+		await feesToken.mint(tenant.address, ONE.mul(5));
+		await feesToken.connect(tenant).approve(rp.address, ONE.mul(5));
+		await RentalClient.connect(rp.address, tenant).rent(offer);
+		expect(await erc721.ownerOf(5)).to.equal(rp.address);
+	});
+
+	it("should sign bundles off-chain", async () => {
+		await erc721.setApprovalForAll(rp.address, true);
+		writeFileSync(configFile, JSON.stringify(config({ maxBundleSize: 10, validity: 3600 })));
+		const [bundle] = await bundleOffers({ sign: true, out: dir });
+
+		const { offer, signatureType, signature } = signedOfferFromJSON(JSON.parse(readFileSync(bundle.file, "utf8")));
+		expect(signatureType).to.equal(SignatureType.EIP_712);
+		expect(offerToJSON(offer).nfts.map((nft) => nft.tokenId)).to.deep.equal(["1", "4", "5"]);
+		expect(recoverRentalOfferSigner(await getRentalDomain(rp), offer, signature)).to.equal(lender.address);
+		const { timestamp } = await ethers.provider.getBlock("latest");
+		expect(offer.deadline).to.equal(timestamp + 3600);
+	});
+});
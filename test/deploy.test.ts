@@ -0,0 +1,147 @@
+import { ethers, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ERC721Test, LentNFT, RentalProtocol } from "../artifacts/typechain";
+import type { DeploymentManifest, DeploymentRecord } from "../tasks/deploy";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("rental:deploy", () => {
+	let admin: SignerWithAddress;
+	let feesCollector: SignerWithAddress;
+	let pauser: SignerWithAddress;
+	let spaceships: ERC721Test;
+	let cards: ERC721Test;
+	let manifestFile: string;
+	let recordFile: string;
+
+	beforeEach(async () => {
+		[admin, feesCollector, pauser] = await ethers.getSigners();
+		const ERC721Test = await ethers.getContractFactory("ERC721Test");
+		spaceships = (await ERC721Test.deploy()) as ERC721Test;
+		cards = (await ERC721Test.deploy()) as ERC721Test;
+
+		const dir = mkdtempSync(join(tmpdir(), "rental-deploy-"));
+		manifestFile = join(dir, "manifest.json");
+		recordFile = join(dir, "record.json");
+		writeManifest({
+			feesCollector: feesCollector.address,
+			feesBasisPoints: 5_00,
+			collections: [
+				{ name: "spaceships", address: spaceships.address, uriPrefix: "https://images.example/", uriSuffix: ".png" },
+			],
+			roles: { PAUSER_ROLE: [pauser.address] },
+		});
+	});
+
+	function writeManifest(manifest: DeploymentManifest) {
+		writeFileSync(manifestFile, JSON.stringify(manifest));
+	}
+
+	function readRecord(): DeploymentRecord {
+		return JSON.parse(readFileSync(recordFile, "utf8"));
+	}
+
+	const deploy = (dryRun = false) => run("rental:deploy", { manifest: manifestFile, record: recordFile, dryRun });
+
+	it("should deploy the manifest once", async () => {
+		await deploy();
+		const record = readRecord();
+		expect(record.steps.map((step) => step.step)).to.deep.equal([
+			"Deploy RentalProtocol",
+			'Deploy LentNFT of "spaceships"',
+			'Deploy BorrowedNFT of "spaceships"',
+			'Deploy SubLentNFT of "spaceships"',
+			'Associate "spaceships" to its rental NFTs',
+			`Grant PAUSER_ROLE to "${pauser.address}"`,
+		]);
+
+		const rp = (await ethers.getContractAt("RentalProtocol", record.rentalProtocol as string)) as RentalProtocol;
+		const { lentNFT, borrowedNFT, subLentNFT } = record.collections.spaceships;
+		expect(await rp.feesCollector()).to.equal(feesCollector.address);
+		expect(await rp.originalToLentNFT(spaceships.address)).to.equal(lentNFT);
+		expect(await rp.originalToBorrowedNFT(spaceships.address)).to.equal(borrowedNFT);
+		expect(await rp.originalToSubLendNFT(spaceships.address)).to.equal(subLentNFT);
+		expect(await rp.hasRole(await rp.PAUSER_ROLE(), pauser.address)).to.be.true;
+		const lent = (await ethers.getContractAt("LentNFT", lentNFT as string)) as LentNFT;
+		expect(await lent.uriPrefix()).to.equal("https://images.example/");
+		expect(await lent.uriSuffix()).to.equal(".png");
+
+		// nothing left to do
+		const block = await ethers.provider.getBlockNumber();
+		await deploy();
+		expect(await ethers.provider.getBlockNumber()).to.equal(block);
+		expect(readRecord().steps).to.have.lengthOf(6);
+	});
+
+	it("should only print the missing steps on dry runs", async () => {
+		await deploy();
+		writeManifest({
+			feesCollector: admin.address,
+			feesBasisPoints: 10_00,
+			collections: [{ name: "cards", address: cards.address, uriPrefix: "https://cards.example/", uriSuffix: ".jpg" }],
+			roles: {},
+		});
+
+		const block = await ethers.provider.getBlockNumber();
+		// the pauser removed from the manifest is reported, not revoked
+		const { unlistedRoleHolders } = await deploy(true);
+		expect(await ethers.provider.getBlockNumber()).to.equal(block);
+		expect(readRecord().steps).to.have.lengthOf(6);
+		expect(unlistedRoleHolders).to.deep.equal({
+			DEFAULT_ADMIN_ROLE: [],
+			TOKENS_MANAGER_ROLE: [],
+			FEES_MANAGER_ROLE: [],
+			PAUSER_ROLE: [pauser.address],
+		});
+
+		await deploy();
+		expect(readRecord().steps.slice(6).map((step) => step.step)).to.deep.equal([
+			`Set fees collector to "${admin.address}"`,
+			"Set fees basis points to 1000",
+			'Deploy LentNFT of "cards"',
+			'Deploy BorrowedNFT of "cards"',
+			'Deploy SubLentNFT of "cards"',
+			'Associate "cards" to its rental NFTs',
+		]);
+	});
+
+	it("should resume a failed deployment", async () => {
+		await deploy();
+		const record = readRecord();
+		const rp = (await ethers.getContractAt("RentalProtocol", record.rentalProtocol as string)) as RentalProtocol;
+		const tokensManager = await rp.TOKENS_MANAGER_ROLE();
+
+		// the association fails once the rental NFTs are deployed
+		await rp.revokeRole(tokensManager, admin.address);
+		writeManifest({
+			feesCollector: feesCollector.address,
+			feesBasisPoints: 5_00,
+			collections: [{ name: "cards", address: cards.address, uriPrefix: "https://cards.example/", uriSuffix: ".jpg" }],
+			roles: {},
+		});
+		const error = await deploy().catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("is missing role");
+		const partial = readRecord().collections.cards;
+		expect(partial.lentNFT).to.be.properAddress;
+		expect(partial.subLentNFT).to.be.properAddress;
+
+		await rp.grantRole(tokensManager, admin.address);
+		await deploy();
+		const resumed = readRecord();
+		expect(resumed.collections.cards).to.deep.equal(partial);
+		expect(resumed.steps[resumed.steps.length - 1].step).to.equal('Associate "cards" to its rental NFTs');
+		expect(await rp.originalToLentNFT(cards.address)).to.equal(partial.lentNFT);
+	});
+
+	it("should reject invalid manifests", async () => {
+		writeFileSync(manifestFile, JSON.stringify({ feesCollector: "0x1234", feesBasisPoints: 5_00 }));
+		const error = await deploy().catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains('"feesCollector" isn\'t an address');
+	});
+});
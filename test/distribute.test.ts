@@ -0,0 +1,165 @@
+import { ethers, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BorrowedNFT, ERC20Test, ERC721Test } from "../artifacts/typechain";
+import { RentalClient } from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+const ONE = ethers.constants.WeiPerEther;
+
+describe("rental:distribute-rewards-batch", () => {
+	let erc721: ERC721Test;
+	let borrowedNFT: BorrowedNFT;
+	let rewardsToken: ERC20Test;
+	let funder: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let subtenant: SignerWithAddress;
+	let csv: string;
+	let progress: string;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		let rp;
+		[funder, feesCollector, lender, tenant, subtenant] = await ethers.getSigners();
+		({ rp, erc721, borrowedNFT, rewardsToken } = await deployRentalFixture(feesCollector.address));
+		const dir = mkdtempSync(join(tmpdir(), "rental-rewards-"));
+		csv = join(dir, "season.csv");
+		progress = `${csv}.progress.json`;
+
+		// token 1 rented at 10% for the lender, token 2 sublet at 50% for the tenant
+		const client = RentalClient.connect(rp.address, lender);
+		for (const tokenId of [1, 2, 3]) {
+			await erc721.mint(lender.address, tokenId);
+		}
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		const offer = await client.createOffer({
+			nfts: [
+				{ token: erc721.address, tokenId: 1, duration: 3600, basisPoints: 10_00 },
+				{ token: erc721.address, tokenId: 2, duration: 3600, basisPoints: 20_00 },
+			],
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+		await client.connect(tenant).sublet(erc721.address, 2, subtenant.address, 50_00);
+		await rewardsToken.mint(funder.address, ONE.mul(100));
+	});
+
+	function writeCsv(rows: [number, string][]) {
+		const lines = rows.map(([tokenId, amount]) => `${borrowedNFT.address},${tokenId},${rewardsToken.address},${amount}`);
+		writeFileSync(csv, ["borrowedNft,tokenId,token,amount", ...lines].join("\n"));
+	}
+
+	const distribute = (args: { [name: string]: unknown } = {}) =>
+		run("rental:distribute-rewards-batch", { csv, chunkSize: 1, ...args });
+
+	it("should distribute the rewards of every row", async () => {
+		writeCsv([
+			[1, "10"],
+			[2, "1.5"],
+			[1, "20"],
+		]);
+		await distribute();
+
+		// 10% of 30 for the lender, 20% of 1.5 for the lender and 50% of the remaining 1.2 for the tenant
+		expect(await rewardsToken.balanceOf(lender.address)).to.equal(ONE.mul(33).div(10));
+		expect(await rewardsToken.balanceOf(tenant.address)).to.equal(ONE.mul(27).add(ONE.mul(6).div(10)));
+		expect(await rewardsToken.balanceOf(subtenant.address)).to.equal(ONE.mul(6).div(10));
+		expect(await rewardsToken.balanceOf(funder.address)).to.equal(ONE.mul(685).div(10));
+		expect(await rewardsToken.balanceOf(borrowedNFT.address)).to.equal(0);
+
+		// nothing left to do
+		const block = await ethers.provider.getBlockNumber();
+		await distribute();
+		expect(await ethers.provider.getBlockNumber()).to.equal(block);
+	});
+
+	it("should resume an interrupted distribution", async () => {
+		writeCsv([
+			[1, "10"],
+			[2, "10"],
+		]);
+		// the second row was funded before the interruption
+		const transfer = await rewardsToken.transfer(borrowedNFT.address, ONE.mul(10));
+		const hash = ethers.utils.id(readFileSync(csv, "utf8"));
+		writeFileSync(progress, JSON.stringify({ csv: hash, rows: { 3: { funded: transfer.hash } } }));
+
+		await distribute({ chunkSize: 10 });
+		expect(await rewardsToken.balanceOf(funder.address)).to.equal(ONE.mul(80));
+		expect(await rewardsToken.balanceOf(borrowedNFT.address)).to.equal(0);
+		const rows = JSON.parse(readFileSync(progress, "utf8")).rows;
+		expect(rows[3].funded).to.equal(transfer.hash);
+		expect(rows[2].distributed).to.be.a("string");
+		expect(rows[3].distributed).to.be.a("string");
+
+		// the progress of another CSV is rejected
+		writeCsv([[1, "5"]]);
+		const error = await distribute().catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("is for another CSV");
+	});
+
+	it("should not send twice the transactions sent before an interruption", async () => {
+		writeCsv([
+			[1, "10"],
+			[2, "10"],
+		]);
+		// both rows were funded and the first one distributed, but neither was confirmed
+		const funding = await rewardsToken.transfer(borrowedNFT.address, ONE.mul(20));
+		const distribution = await borrowedNFT.onERC20Received(1, rewardsToken.address, ONE.mul(10));
+		const hash = ethers.utils.id(readFileSync(csv, "utf8"));
+		const dropped = ethers.utils.id("dropped");
+		writeFileSync(
+			progress,
+			JSON.stringify({
+				csv: hash,
+				rows: {
+					2: { funding: funding.hash, distributing: distribution.hash },
+					3: { funding: funding.hash, distributing: dropped },
+				},
+			})
+		);
+
+		await distribute({ chunkSize: 10 });
+		expect(await rewardsToken.balanceOf(funder.address)).to.equal(ONE.mul(80));
+		expect(await rewardsToken.balanceOf(borrowedNFT.address)).to.equal(0);
+		// 10% of the first row and 20% of the second one for the lender
+		expect(await rewardsToken.balanceOf(lender.address)).to.equal(ONE.mul(3));
+		const rows = JSON.parse(readFileSync(progress, "utf8")).rows;
+		expect(rows[2]).to.deep.equal({ funded: funding.hash, distributed: distribution.hash });
+		expect(rows[3].funded).to.equal(funding.hash);
+		expect(rows[3].distributed).to.be.a("string").and.not.equal(dropped);
+	});
+
+	it("should check the rows before distributing", async () => {
+		const block = await ethers.provider.getBlockNumber();
+
+		writeCsv([
+			[1, "10"],
+			[3, "10"],
+		]);
+		let error = await distribute().catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("No active rental for the rows at line(s) 3");
+
+		writeCsv([
+			[1, "60"],
+			[2, "60"],
+		]);
+		error = await distribute().catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("is missing 20.0 of");
+
+		writeCsv([[1, "abc"]]);
+		error = await distribute().catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("invalid decimal value");
+
+		writeCsv([[1, "1"]]);
+		await distribute({ dryRun: true });
+		expect(await ethers.provider.getBlockNumber()).to.equal(block);
+	});
+});
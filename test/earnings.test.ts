@@ -0,0 +1,140 @@
+import { ethers, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BorrowedNFT, ERC20Test, ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { RentalClient, SignatureType } from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+const ONE = ethers.constants.WeiPerEther;
+
+describe("rental:earnings", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let borrowedNFT: BorrowedNFT;
+	let feesToken: ERC20Test;
+	let rewardsToken: ERC20Test;
+	let feesCollector: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let subtenant: SignerWithAddress;
+	let out: string;
+
+	beforeEach(async () => {
+		[, feesCollector, lender, tenant, subtenant] = await ethers.getSigners();
+		({ rp, erc721, borrowedNFT, feesToken, rewardsToken } = await deployRentalFixture(feesCollector.address));
+		out = join(mkdtempSync(join(tmpdir(), "rental-earnings-")), "earnings");
+
+		// token 1 rented at 10% for the lender, token 2 at 20% and sublet at 50% for the tenant
+		const client = RentalClient.connect(rp.address, lender);
+		await erc721.mint(lender.address, 1);
+		await erc721.mint(lender.address, 2);
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		await feesToken.mint(tenant.address, ONE.mul(1000));
+		await feesToken.connect(tenant).approve(rp.address, ONE.mul(1000));
+		const offer = await client.createOffer({
+			nfts: [
+				{ token: erc721.address, tokenId: 1, duration: 3600, basisPoints: 10_00 },
+				{ token: erc721.address, tokenId: 2, duration: 3600, basisPoints: 20_00 },
+			],
+			feeToken: feesToken.address,
+			feeAmount: ONE.mul(1000),
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+		await client.connect(tenant).sublet(erc721.address, 2, subtenant.address, 50_00);
+	});
+
+	async function distribute(tokenId: number) {
+		await rewardsToken.mint(borrowedNFT.address, ONE.mul(100));
+		await borrowedNFT.onERC20Received(tokenId, rewardsToken.address, ONE.mul(100));
+	}
+
+	/** Earnings as `<recipient> <role> <amount> <symbol>` */
+	const summary = (earnings: { recipient: string; role: string; amount: string; symbol: string }[]) =>
+		earnings.map(({ recipient, role, amount, symbol }) => `${recipient} ${role} ${amount} ${symbol}`).sort();
+
+	it("should export the earnings of each recipient by token and role", async () => {
+		await distribute(1);
+		await distribute(2);
+
+		const earnings = await run("rental:earnings", { rental: rp.address, out });
+		const symbol = await rewardsToken.symbol();
+		const feesSymbol = await feesToken.symbol();
+		expect(summary(earnings)).to.deep.equal(
+			[
+				`${feesCollector.address} protocol 50.0 ${feesSymbol}`,
+				`${lender.address} lender 950.0 ${feesSymbol}`,
+				`${lender.address} lender 30.0 ${symbol}`,
+				`${subtenant.address} player 40.0 ${symbol}`,
+				`${tenant.address} player 90.0 ${symbol}`,
+				`${tenant.address} sublender 40.0 ${symbol}`,
+			].sort()
+		);
+
+		const lenderRewards = earnings.find(
+			(earning: { recipient: string; token: string }) =>
+				earning.recipient === lender.address && earning.token === rewardsToken.address
+		);
+		expect(lenderRewards).to.include({ role: "lender", rawAmount: ONE.mul(30).toString(), decimals: 18, transfers: 2 });
+
+		const json = JSON.parse(readFileSync(`${out}.json`, "utf8"));
+		expect(json).to.include({ rentalProtocol: rp.address, fromBlock: 0 });
+		expect(json.earnings).to.deep.equal(earnings);
+		const csv = readFileSync(`${out}.csv`, "utf8").trim().split("\n");
+		expect(csv[0]).to.equal("recipient,role,token,symbol,amount,rawAmount,transfers");
+		expect(csv).to.have.lengthOf(7);
+		expect(csv).to.include(
+			`${tenant.address},sublender,${rewardsToken.address},${symbol},40.0,${ONE.mul(40).toString()},1`
+		);
+	});
+
+	it("should match the rental fees with the fees collector of their block and the maker", async () => {
+		// off-chain offer, whose fee is only known from the rent call
+		const client = RentalClient.connect(rp.address, lender);
+		await erc721.mint(lender.address, 3);
+		await feesToken.mint(tenant.address, ONE.mul(100));
+		await feesToken.connect(tenant).approve(rp.address, ONE.mul(100));
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 3, duration: 3600, basisPoints: 0 }],
+			feeToken: feesToken.address,
+			feeAmount: ONE.mul(100),
+		});
+		const signature = await client.signOffer(offer);
+		const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+		await client.connect(tenant).rent(offer, SignatureType.EIP_712, signature);
+		await rp.setFeesCollector(subtenant.address);
+
+		const earnings = await run("rental:earnings", { rental: rp.address, out, fromBlock });
+		expect(summary(earnings)).to.deep.equal(
+			[
+				`${feesCollector.address} protocol 5.0 ${await feesToken.symbol()}`,
+				`${lender.address} lender 95.0 ${await feesToken.symbol()}`,
+			].sort()
+		);
+	});
+
+	it("should only export the earnings of the period", async () => {
+		await distribute(1);
+		const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+		await distribute(2);
+
+		const earnings = await run("rental:earnings", { rental: rp.address, out, fromBlock });
+		expect(summary(earnings)).to.deep.equal(
+			[
+				`${lender.address} lender 20.0 ${await rewardsToken.symbol()}`,
+				`${subtenant.address} player 40.0 ${await rewardsToken.symbol()}`,
+				`${tenant.address} sublender 40.0 ${await rewardsToken.symbol()}`,
+			].sort()
+		);
+
+		const error = await run("rental:earnings", { rental: rp.address, out, fromDate: "2999-01-01" }).catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("Empty period");
+	});
+});
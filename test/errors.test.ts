@@ -0,0 +1,115 @@
+import { ethers } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import {
+	decodeRentalError,
+	PausedError,
+	RentalClient,
+	RentalError,
+	RentalOffer,
+	RentalStateError,
+	REVERT_REASONS,
+	UnauthorizedError,
+	UnknownRevertError,
+} from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("Rental errors", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let admin: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let client: RentalClient;
+	let offer: RentalOffer;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		[admin, feesCollector, lender, tenant] = await ethers.getSigners();
+		({ rp, erc721 } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		await erc721.mint(lender.address, 1);
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 1, duration: 3600, basisPoints: 10_00 }],
+		});
+		await client.preSignOffer(offer);
+	});
+
+	it("should catalogue every revert reason of the contracts", () => {
+		const dir = join(__dirname, "..", "contracts");
+		const reasons = new Set<string>();
+		for (const file of readdirSync(dir).filter((name) => name.endsWith(".sol"))) {
+			const source = readFileSync(join(dir, file), "utf8");
+			const pattern = /(?:require\([^;]*?|revert\()"((?:[^"\\]|\\.)*)"\)/g;
+			for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+				reasons.add(match[1]);
+			}
+		}
+
+		expect(reasons.size).to.be.greaterThan(15);
+		const missing = Array.from(reasons).filter((reason) => !(reason in REVERT_REASONS));
+		expect(missing).to.be.empty;
+	});
+
+	it("should decode the errors of transactions and calls", async () => {
+		await client.connect(tenant).rent(offer);
+
+		const notEnded = decodeRentalError(await client.endRental(erc721.address, 1).catch((err) => err));
+		expect(notEnded).to.be.instanceOf(RentalStateError).and.include({
+			code: "RENTAL_NOT_ENDED",
+			reason: "Rental hasn't ended",
+			message: "The rental hasn't ended yet",
+		});
+
+		const forbidden = decodeRentalError(
+			await rp
+				.connect(admin)
+				.callStatic.endRentalPrematurely(erc721.address, 1)
+				.catch((err) => err)
+		);
+		expect(forbidden).to.be.instanceOf(UnauthorizedError).with.property("code", "ONLY_LENDER_OR_TENANT");
+
+		const missingRole = decodeRentalError(
+			await rp
+				.connect(tenant)
+				.pause()
+				.catch((err) => err)
+		);
+		expect(missingRole)
+			.to.be.instanceOf(UnauthorizedError)
+			.and.include({
+				code: "MISSING_ROLE",
+				account: tenant.address,
+				role: await rp.PAUSER_ROLE(),
+			});
+
+		await rp.connect(admin).grantRole(await rp.PAUSER_ROLE(), admin.address);
+		await rp.connect(admin).pause();
+		const paused = decodeRentalError(
+			await rp
+				.connect(admin)
+				.callStatic.pause()
+				.catch((err) => err)
+		);
+		expect(paused).to.be.instanceOf(PausedError).and.to.be.instanceOf(RentalError).with.property("code", "PAUSED");
+	});
+
+	it("should decode revert data and reasons", async () => {
+		const encoded = "0x08c379a0" + ethers.utils.defaultAbiCoder.encode(["string"], ["Offer deadline"]).slice(2);
+		expect(decodeRentalError({ error: { data: encoded } })).to.include({ code: "OFFER_EXPIRED" });
+
+		expect(decodeRentalError("Pausable: not paused")).to.include({ code: "NOT_PAUSED" });
+		const unknown = decodeRentalError("Something else");
+		expect(unknown).to.be.instanceOf(UnknownRevertError).and.include({ code: "UNKNOWN", message: "Something else" });
+		expect(decodeRentalError(new Error("could not detect network"))).to.be.undefined;
+	});
+});
@@ -0,0 +1,86 @@
+import { ethers, network, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { ERC20Test, ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { OfferRejectedError, RentalClient, SignatureType, TransactionExplanation, explainTransaction } from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("Transaction timeline", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let feesToken: ERC20Test;
+	let feesCollector: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let client: RentalClient;
+
+	beforeEach(async () => {
+		[, feesCollector, lender, tenant] = await ethers.getSigners();
+		({ rp, erc721, feesToken } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		await erc721.mint(lender.address, 123);
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		await feesToken.mint(tenant.address, ethers.utils.parseEther("10"));
+		await feesToken.connect(tenant).approve(rp.address, ethers.utils.parseEther("10"));
+	});
+
+	it("should decode a rental into a timeline", async () => {
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 123, duration: 3600, basisPoints: 30_00 }],
+			feeToken: feesToken.address,
+			feeAmount: ethers.utils.parseEther("10"),
+		});
+		await client.preSignOffer(offer);
+		const tx = await client.connect(tenant).rent(offer);
+
+		const explanation: TransactionExplanation = await run("rental:explain", { rental: rp.address, txHash: tx.hash });
+		expect(explanation.status).to.equal("success");
+		const end = (await client.getRental(erc721.address, 123))?.end.toNumber() as number;
+		const lenderLabel = `lender "${lender.address}"`;
+		const tenantLabel = `tenant "${tenant.address}"`;
+		expect(explanation.timeline.map(({ contract, description }) => `[${contract}] ${description}`)).to.deep.equal([
+			"[ERC721] approval of MNFT #123 cleared",
+			`[ERC721] original MNFT #123 moved into escrow from ${lenderLabel}`,
+			`[LentNFT] LentNFT #123 minted to ${lenderLabel}`,
+			`[BorrowedNFT] BorrowedNFT #123 minted to ${tenantLabel}`,
+			`[RentalProtocol] ${tenantLabel} rented MNFT #123 from ${lenderLabel} until ` +
+				`${new Date(end * 1000).toISOString()}, 30% of the rewards to the lender`,
+			`[ERC20] ${tenantLabel} allowance of rental protocol "${rp.address}" set to 9.5 TEST`,
+			`[ERC20] ${tenantLabel} paid 0.5 TEST protocol fee to fees collector "${feesCollector.address}"`,
+			`[ERC20] ${tenantLabel} allowance of rental protocol "${rp.address}" set to 0.0 TEST`,
+			`[ERC20] ${tenantLabel} paid 9.5 TEST to ${lenderLabel}`,
+		]);
+	});
+
+	it("should replay reverted transactions", async () => {
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 123, duration: 3600, basisPoints: 30_00 }],
+		});
+		await client.preSignOffer(offer);
+		await client.cancelOffer(offer.nonce);
+
+		// mine the failing transaction instead of rejecting it
+		await network.provider.send("evm_setAutomine", [false]);
+		let tx;
+		try {
+			tx = await client.connect(tenant).rent(offer, SignatureType.PRE_SIGNED, "0x", { gasLimit: 1_000_000 });
+			await network.provider.send("evm_mine");
+		} finally {
+			await network.provider.send("evm_setAutomine", [true]);
+		}
+
+		const explanation = await explainTransaction(client, tx.hash);
+		expect(explanation.status).to.equal("reverted");
+		expect(explanation.timeline).to.deep.equal([]);
+		expect(explanation.revertReason).to.equal("cancelled or filled offer");
+		expect(explanation.revertError).to.be.instanceOf(OfferRejectedError).with.property("code", "NONCE_USED");
+
+		const error = await explainTransaction(client, ethers.utils.id("unknown")).catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("not found");
+	});
+});
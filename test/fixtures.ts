@@ -0,0 +1,41 @@
+import { ethers, upgrades } from "hardhat";
+import { RentalProtocol, LentNFT, BorrowedNFT, SubLentNFT, ERC20Test, ERC721Test } from "../artifacts/typechain";
+
+export const FEE_PERCENTAGE = 5_00; // 5%
+
+export interface RentalFixture {
+	rp: RentalProtocol;
+	erc721: ERC721Test;
+	feesToken: ERC20Test;
+	rewardsToken: ERC20Test;
+	lentNFT: LentNFT;
+	borrowedNFT: BorrowedNFT;
+	subLentNFT: SubLentNFT;
+}
+
+/**
+ * Deploy the rental protocol with a fake ERC721 collection associated to its rental NFTs.
+ */
+export async function deployRentalFixture(feesCollector: string): Promise<RentalFixture> {
+	const ERC721Test = await ethers.getContractFactory("ERC721Test");
+	const erc721 = (await ERC721Test.deploy().then((c) => c.deployed())) as ERC721Test;
+
+	const ERC20Test = await ethers.getContractFactory("ERC20Test");
+	const feesToken = (await ERC20Test.deploy().then((c) => c.deployed())) as ERC20Test;
+	const rewardsToken = (await ERC20Test.deploy().then((c) => c.deployed())) as ERC20Test;
+
+	const RentalProtocol = await ethers.getContractFactory("RentalProtocol");
+	const rp = (await upgrades.deployProxy(RentalProtocol, [feesCollector, FEE_PERCENTAGE])) as RentalProtocol;
+	await rp.deployed();
+
+	const LentNFT = await ethers.getContractFactory("LentNFT");
+	const lentNFT = (await upgrades.deployProxy(LentNFT, [rp.address, erc721.address, "https://ipfs.io/", ".png"])) as LentNFT;
+	const BorrowedNFT = await ethers.getContractFactory("BorrowedNFT");
+	const borrowedNFT = (await upgrades.deployProxy(BorrowedNFT, [rp.address, erc721.address])) as BorrowedNFT;
+	const SubLentNFT = await ethers.getContractFactory("SubLentNFT");
+	const subLentNFT = (await upgrades.deployProxy(SubLentNFT, [rp.address, erc721.address, "https://ipfs.io/", ".png"])) as SubLentNFT;
+
+	await rp.associateOriginalToLentAndBorrowedNFT(erc721.address, lentNFT.address, borrowedNFT.address, subLentNFT.address);
+
+	return { rp, erc721, feesToken, rewardsToken, lentNFT, borrowedNFT, subLentNFT };
+}
@@ -0,0 +1,189 @@
+import { network, ethers } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { appendFileSync, mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BorrowedNFT, ERC20Test, ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { IndexedEvent, IndexerCheckpoint, JsonFileStore, MemoryStore, RentalClient, RentalIndexer } from "../src/node";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("RentalIndexer", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let borrowedNFT: BorrowedNFT;
+	let rewardsToken: ERC20Test;
+	let admin: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let subtenant: SignerWithAddress;
+	let client: RentalClient;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		[admin, feesCollector, lender, tenant, subtenant] = await ethers.getSigners();
+		({ rp, erc721, borrowedNFT, rewardsToken } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		await erc721.mint(lender.address, 123);
+		await erc721.mint(lender.address, 234);
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+	});
+
+	async function startRental(tokenIds: number[]) {
+		const offer = await client.createOffer({
+			nfts: tokenIds.map((tokenId) => ({ token: erc721.address, tokenId, duration: 3600, basisPoints: 30_00 })),
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+		return offer;
+	}
+
+	it("should rebuild the rental state from events", async () => {
+		const cancelled = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 123, duration: 3600, basisPoints: 0 }],
+		});
+		await client.preSignOffer(cancelled);
+		await client.cancelOffer(cancelled.nonce);
+		const offer = await startRental([123, 234]);
+
+		const tenantClient = client.connect(tenant);
+		await tenantClient.sublet(erc721.address, 123, subtenant.address, 20_00);
+		await tenantClient.endRentalPrematurely(erc721.address, 234);
+
+		await rewardsToken.mint(borrowedNFT.address, 1_000_000);
+		await borrowedNFT.onERC20Received(123, rewardsToken.address, 1_000_000);
+
+		const indexer = new RentalIndexer(rp, new MemoryStore());
+		const result = await indexer.sync();
+		expect(result.events).to.be.greaterThan(0);
+		const { state } = indexer;
+
+		expect(state.getCollections()).to.have.lengthOf(1);
+		expect(state.getOffers({ status: "cancelled" })).to.have.lengthOf(1);
+		expect(state.getOffers({ status: "filled" })[0].nonce).to.equal(ethers.BigNumber.from(offer.nonce).toString());
+
+		expect(state.getActiveRentals()).to.have.lengthOf(2);
+		const rental = state.getRental(erc721.address, "123");
+		expect(rental?.tenant).to.equal(tenant.address);
+		expect(rental?.sublet?.subtenant).to.equal(subtenant.address);
+		expect(state.getRental(erc721.address, "234")?.prematureEndRequester).to.equal(tenant.address);
+
+		const rewards = state.getRewards({ tokenId: "123" });
+		expect(rewards.map((reward) => [reward.recipient, reward.amount])).to.deep.equal([
+			[lender.address, "300000"],
+			[tenant.address, "140000"],
+			[subtenant.address, "560000"],
+		]);
+		expect(rewards[0].collection).to.equal(erc721.address);
+
+		// end everything
+		await tenantClient.endSublet(erc721.address, 123);
+		await network.provider.send("evm_increaseTime", [3601]);
+		await client.endRental(erc721.address, 123);
+		await client.endRental(erc721.address, 234);
+		await indexer.sync();
+
+		expect(state.getActiveRentals()).to.be.empty;
+		expect(state.getRentals({ active: false })).to.have.lengthOf(2);
+		expect(state.getSublets({ active: true })).to.be.empty;
+		expect(state.getSublets({ sublender: tenant.address })).to.have.lengthOf(1);
+	});
+
+	it("should resume from the last checkpoint", async () => {
+		await startRental([123]);
+		const store = new MemoryStore();
+		const first = await new RentalIndexer(rp, store, { batchSize: 3 }).sync();
+
+		await startRental([234]);
+		const indexer = new RentalIndexer(rp, store, { batchSize: 3 });
+		const second = await indexer.sync();
+
+		expect(second.fromBlock).to.equal(first.toBlock + 1);
+		expect(indexer.state.getActiveRentals()).to.have.lengthOf(2);
+		expect(indexer.state.getOffers({ status: "filled" })).to.have.lengthOf(2);
+	});
+
+	it("should append the events of each batch to the JSON file store", async () => {
+		const store = new JsonFileStore(join(mkdtempSync(join(tmpdir(), "rental-index-")), "index.json"));
+		await startRental([123]);
+		await new RentalIndexer(rp, store, { batchSize: 3 }).sync();
+		const log = readFileSync(store.eventsPath, "utf8");
+
+		// events of a batch interrupted before its checkpoint are dropped
+		appendFileSync(store.eventsPath, '{"name":"RentalStarted"');
+		await startRental([234]);
+		const indexer = new RentalIndexer(rp, new JsonFileStore(store.path), { batchSize: 3 });
+		await indexer.sync();
+		expect(readFileSync(store.eventsPath, "utf8").startsWith(log)).to.equal(true);
+		expect(indexer.state.getActiveRentals()).to.have.lengthOf(2);
+
+		const resumed = new RentalIndexer(rp, new JsonFileStore(store.path));
+		await resumed.sync();
+		expect(resumed.state.getActiveRentals()).to.deep.equal(indexer.state.getActiveRentals());
+	});
+
+	it("should store again the batch whose append failed", async () => {
+		/** Store failing after writing the first event of the next `failures` batches */
+		class FailingStore extends JsonFileStore {
+			failures = 0;
+
+			async append(events: IndexedEvent[], checkpoint: IndexerCheckpoint): Promise<void> {
+				if (this.failures > 0) {
+					this.failures--;
+					appendFileSync(this.eventsPath, `${JSON.stringify(events[0])}\n`);
+					throw new Error("ENOSPC: no space left on device");
+				}
+				return super.append(events, checkpoint);
+			}
+		}
+		const store = new FailingStore(join(mkdtempSync(join(tmpdir(), "rental-index-")), "index.json"));
+		await startRental([123]);
+		const indexer = new RentalIndexer(rp, store);
+		await indexer.sync();
+
+		await startRental([234]);
+		store.failures = 1;
+		const error = await indexer.sync().catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("no space left");
+		expect(indexer.state.getActiveRentals()).to.have.lengthOf(1);
+		await indexer.sync();
+		expect(indexer.state.getActiveRentals()).to.have.lengthOf(2);
+
+		const reference = new MemoryStore();
+		await new RentalIndexer(rp, reference).sync();
+		expect(await new JsonFileStore(store.path).load()).to.deep.equal(await reference.load());
+	});
+
+	it("should handle chain reorganisations", async () => {
+		const indexer = new RentalIndexer(rp, new MemoryStore());
+		await indexer.sync();
+
+		const snapshot = await network.provider.send("evm_snapshot");
+		await startRental([123]);
+		await indexer.sync();
+		expect(indexer.state.getActiveRentals()).to.have.lengthOf(1);
+
+		// replace the rental by another chain of blocks
+		await network.provider.send("evm_revert", [snapshot]);
+		await startRental([234]);
+		await network.provider.send("evm_mine");
+
+		const result = await indexer.sync();
+		expect(result.reorg).to.be.lessThan(result.toBlock);
+		expect(indexer.state.getActiveRentals().map((rental) => rental.tokenId)).to.deep.equal(["234"]);
+		expect(indexer.state.getOffers({ status: "filled" })).to.have.lengthOf(1);
+	});
+
+	it("should refuse a store of another protocol", async () => {
+		const store = new MemoryStore();
+		await new RentalIndexer(rp, store).sync();
+
+		const error = await new RentalIndexer(rp.attach(admin.address), store).sync().catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("another rental protocol");
+	});
+});
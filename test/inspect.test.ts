@@ -0,0 +1,101 @@
+import { ethers, network, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { BorrowedNFT, ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { RentalClient } from "../src";
+import type { RentalInspection } from "../tasks/inspect";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("rental:inspect", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let borrowedNFT: BorrowedNFT;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let subtenant: SignerWithAddress;
+	let client: RentalClient;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		[, feesCollector, lender, tenant, subtenant] = await ethers.getSigners();
+		({ rp, erc721, borrowedNFT } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		await erc721.mint(lender.address, 123);
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+	});
+
+	const inspect = (): Promise<RentalInspection> =>
+		run("rental:inspect", { rental: rp.address, token: erc721.address, tokenId: "123" });
+
+	const rent = async () => {
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 123, duration: 3600, basisPoints: 30_00 }],
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+	};
+
+	it("should report the premature end requests of a rental", async () => {
+		const available = await inspect();
+		expect(available).to.include({ holder: lender.address, escrowed: false, over: false });
+		expect(available.rental).to.be.undefined;
+		expect(available.actions).to.deep.equal({});
+
+		await rent();
+		const rented = await inspect();
+		expect(rented).to.include({ holder: rp.address, escrowed: true, over: false });
+		expect(rented.owners).to.deep.equal({
+			LentNFT: lender.address,
+			BorrowedNFT: tenant.address,
+			SubLentNFT: undefined,
+		});
+		expect(rented.fees).to.deep.equal([{ to: lender.address, basisPoints: 30_00 }]);
+		expect(rented.actions).to.deep.equal({
+			LentNFT: ["endRentalPrematurely (request)"],
+			BorrowedNFT: ["endRentalPrematurely (request)", "sublet"],
+		});
+
+		await client.connect(tenant).endRentalPrematurely(erc721.address, 123);
+		const requested = await inspect();
+		expect(requested.prematureEnd).to.include({ requester: tenant.address, valid: true });
+		expect(requested.actions).to.deep.equal({ LentNFT: ["endRentalPrematurely (accept)"], BorrowedNFT: ["sublet"] });
+
+		// the request goes stale once the tenant transfers the BorrowedNFT
+		await borrowedNFT.connect(tenant).transferFrom(tenant.address, subtenant.address, 123);
+		const stale = await inspect();
+		expect(stale.prematureEnd).to.include({ requester: tenant.address, valid: false });
+		expect(stale.actions.LentNFT).to.deep.equal(["endRentalPrematurely (request)"]);
+	});
+
+	it("should report what the parties of a sublet can do", async () => {
+		await rent();
+		await client.connect(tenant).sublet(erc721.address, 123, subtenant.address, 20_00);
+		const sublet = await inspect();
+		expect(sublet.owners).to.deep.equal({
+			LentNFT: lender.address,
+			BorrowedNFT: subtenant.address,
+			SubLentNFT: tenant.address,
+		});
+		expect(sublet.rental).to.include({ lenderBasisPoints: 30_00, sublenderBasisPoints: 20_00 });
+		expect(sublet.fees).to.deep.equal([
+			{ to: lender.address, basisPoints: 30_00 },
+			{ to: tenant.address, basisPoints: 20_00 },
+		]);
+		expect(sublet.actions).to.deep.equal({ LentNFT: [], SubLentNFT: ["endSublet"], BorrowedNFT: [] });
+
+		await network.provider.send("evm_increaseTime", [3601]);
+		await network.provider.send("evm_mine");
+		const over = await inspect();
+		expect(over.over).to.be.true;
+		expect(over.actions).to.deep.equal({
+			LentNFT: ["endRental"],
+			SubLentNFT: ["endRental", "endSublet"],
+			BorrowedNFT: [],
+		});
+	});
+});
@@ -0,0 +1,363 @@
+import { network, ethers } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import fc from "fast-check";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { Contract } from "ethers";
+import { BorrowedNFT, ERC721Test, LentNFT, RentalProtocol, SubLentNFT } from "../artifacts/typechain";
+import { MAX_BASIS_POINTS, SignatureType } from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+const RUNS = Number(process.env.FUZZ_RUNS ?? 40);
+const MAX_STEPS = Number(process.env.FUZZ_STEPS ?? 30);
+// fixed default seed so that runs are reproducible, `FUZZ_SEED` explores other sequences
+const SEED = Number(process.env.FUZZ_SEED ?? 0x5eed);
+const ACTORS = 4;
+const TOKEN_IDS = [1, 2, 3];
+
+interface Protocol {
+	rp: RentalProtocol;
+	erc721: ERC721Test;
+	lentNFT: LentNFT;
+	borrowedNFT: BorrowedNFT;
+	subLentNFT: SubLentNFT;
+	admin: SignerWithAddress;
+	accounts: SignerWithAddress[];
+}
+
+/**
+ * Synced from the chain after each step, only used to skip steps that would trivially revert.
+ * The invariants are checked against the chain itself.
+ */
+interface Model {
+	paused: boolean;
+	rented: number[];
+}
+
+/**
+ * Who sends a transaction: an actor, or the current owner of one of the NFTs of the token
+ * (most random senders would only hit "Only ..." reverts).
+ */
+type Party = number | "owner" | "lender" | "tenant" | "sublender";
+
+async function resolve({ erc721, lentNFT, borrowedNFT, subLentNFT, accounts }: Protocol, party: Party, id: number) {
+	if (typeof party === "number") {
+		return party;
+	}
+	const nft = { owner: erc721, lender: lentNFT, tenant: borrowedNFT, sublender: subLentNFT }[party];
+	const owner = await ownerOf(nft, id);
+	return Math.max(0, accounts.findIndex((account) => account.address === owner));
+}
+
+/**
+ * A step of the rental lifecycle. Steps are allowed to revert, `toString` gives the code replaying it.
+ */
+abstract class Step implements fc.AsyncCommand<Model, Protocol> {
+	/** Index of the sender account, resolved when run */
+	sender?: number;
+
+	constructor(readonly party: Party, readonly tokenId: number) {}
+
+	check(model: Model): boolean {
+		return !model.paused && model.rented.indexOf(this.tokenId) !== -1;
+	}
+
+	async run(model: Model, protocol: Protocol): Promise<void> {
+		this.sender = await resolve(protocol, this.party, this.tokenId);
+		try {
+			await this.execute(protocol, protocol.accounts[this.sender]);
+		} catch (err: unknown) {
+			if (!/revert/.test((err as Error).message)) {
+				throw err;
+			}
+		}
+		Object.assign(model, await checkInvariants(protocol));
+	}
+
+	protected get from(): string {
+		return `accounts[${this.sender ?? this.party}]`;
+	}
+
+	abstract execute(protocol: Protocol, sender: SignerWithAddress): Promise<unknown>;
+	abstract toString(): string;
+}
+
+class Rent extends Step {
+	constructor(
+		readonly taker: number,
+		readonly nonce: number,
+		readonly nfts: { tokenId: number; duration: number; basisPoints: number }[]
+	) {
+		super("owner", nfts[0].tokenId);
+	}
+
+	check(model: Model) {
+		return !model.paused && this.nfts.every((nft) => model.rented.indexOf(nft.tokenId) === -1);
+	}
+
+	async execute({ rp, erc721, accounts }: Protocol, maker: SignerWithAddress) {
+		const offer = {
+			maker: maker.address,
+			taker: ethers.constants.AddressZero,
+			nfts: this.nfts.map((nft) => ({ token: erc721.address, ...nft })),
+			feeToken: ethers.constants.AddressZero,
+			feeAmount: 0,
+			nonce: this.nonce,
+			deadline: ethers.constants.MaxUint256,
+		};
+		await rp.connect(maker).preSignRentalOffer(offer);
+		await rp.connect(accounts[this.taker]).rent(offer, SignatureType.PRE_SIGNED, "0x");
+	}
+
+	toString() {
+		const nfts = this.nfts.map((nft) => `{ token: erc721.address, ...${JSON.stringify(nft)} }`).join(", ");
+		return (
+			`offer = { maker: ${this.from}.address, taker: AddressZero, nfts: [${nfts}], ` +
+			`feeToken: AddressZero, feeAmount: 0, nonce: ${this.nonce}, deadline: MaxUint256 };\n` +
+			`await rp.connect(${this.from}).preSignRentalOffer(offer);\n` +
+			`await rp.connect(accounts[${this.taker}]).rent(offer, SignatureType.PRE_SIGNED, "0x");`
+		);
+	}
+}
+
+class Sublet extends Step {
+	constructor(party: Party, tokenId: number, readonly subtenant: number, readonly basisPoints: number) {
+		super(party, tokenId);
+	}
+
+	execute({ rp, erc721, accounts }: Protocol, sender: SignerWithAddress) {
+		const subtenant = accounts[this.subtenant].address;
+		return rp.connect(sender).sublet(erc721.address, this.tokenId, subtenant, this.basisPoints);
+	}
+
+	toString() {
+		return (
+			`await rp.connect(${this.from})` +
+			`.sublet(erc721.address, ${this.tokenId}, accounts[${this.subtenant}].address, ${this.basisPoints});`
+		);
+	}
+}
+
+/** `endSublet`, `endRental` and `endRentalPrematurely` */
+class End extends Step {
+	constructor(readonly method: "endSublet" | "endRental" | "endRentalPrematurely", party: Party, tokenId: number) {
+		super(party, tokenId);
+	}
+
+	execute({ rp, erc721 }: Protocol, sender: SignerWithAddress) {
+		return rp.connect(sender)[this.method](erc721.address, this.tokenId);
+	}
+
+	toString() {
+		return `await rp.connect(${this.from}).${this.method}(erc721.address, ${this.tokenId});`;
+	}
+}
+
+class Transfer extends Step {
+	constructor(readonly nft: "lentNFT" | "borrowedNFT", party: Party, readonly to: number, tokenId: number) {
+		super(party, tokenId);
+	}
+
+	/** Also tried while paused */
+	check(model: Model) {
+		return model.rented.indexOf(this.tokenId) !== -1;
+	}
+
+	execute(protocol: Protocol, sender: SignerWithAddress) {
+		const to = protocol.accounts[this.to].address;
+		return protocol[this.nft].connect(sender).transferFrom(sender.address, to, this.tokenId);
+	}
+
+	toString() {
+		return (
+			`await ${this.nft}.connect(${this.from})` +
+			`.transferFrom(${this.from}.address, accounts[${this.to}].address, ${this.tokenId});`
+		);
+	}
+}
+
+class Pause extends Step {
+	constructor(readonly paused: boolean) {
+		super(0, 0);
+	}
+
+	check(model: Model) {
+		return model.paused !== this.paused && (model.paused || model.rented.length > 0);
+	}
+
+	execute({ rp, admin }: Protocol) {
+		return this.paused ? rp.connect(admin).pause() : rp.connect(admin).unpause();
+	}
+
+	toString() {
+		return `await rp.connect(admin).${this.paused ? "pause" : "unpause"}();`;
+	}
+}
+
+class TimeJump extends Step {
+	constructor(readonly seconds: number) {
+		super(0, 0);
+	}
+
+	check(model: Model) {
+		return model.rented.length > 0;
+	}
+
+	async execute() {
+		await network.provider.send("evm_increaseTime", [this.seconds]);
+		await network.provider.send("evm_mine");
+	}
+
+	toString() {
+		return `await network.provider.send("evm_increaseTime", [${this.seconds}]); await network.provider.send("evm_mine");`;
+	}
+}
+
+const actor = fc.integer({ min: 0, max: ACTORS - 1 });
+const party = (...roles: Party[]) => fc.oneof({ arbitrary: fc.constantFrom(...roles), weight: 4 }, { arbitrary: actor, weight: 1 });
+const tokenId = fc.constantFrom(...TOKEN_IDS);
+const basisPoints = fc.oneof(fc.constantFrom(0, MAX_BASIS_POINTS), fc.integer({ min: 0, max: MAX_BASIS_POINTS }));
+let nonce = 0;
+
+const rent = fc
+	.tuple(
+		actor,
+		fc.uniqueArray(fc.record({ tokenId, duration: fc.constantFrom(0, 3600, 86400), basisPoints }), {
+			minLength: 1,
+			maxLength: 2,
+			selector: (nft) => nft.tokenId,
+		})
+	)
+	.map(([taker, nfts]): Step => new Rent(taker, ++nonce, nfts));
+const sublet = fc
+	.tuple(party("tenant"), tokenId, actor, basisPoints)
+	.map(([sender, id, subtenant, bps]): Step => new Sublet(sender, id, subtenant, bps));
+const end = fc
+	.tuple(
+		fc.constantFrom("endSublet" as const, "endRental" as const, "endRentalPrematurely" as const),
+		party("lender", "tenant", "sublender"),
+		tokenId
+	)
+	.map(([method, sender, id]): Step => new End(method, sender, id));
+const transfer = fc.oneof(
+	fc.tuple(party("lender"), actor, tokenId).map(([sender, to, id]): Step => new Transfer("lentNFT", sender, to, id)),
+	fc.tuple(party("tenant"), actor, tokenId).map(([sender, to, id]): Step => new Transfer("borrowedNFT", sender, to, id))
+);
+const pause = fc.boolean().map((paused): Step => new Pause(paused));
+const timeJump = fc.constantFrom(60, 3600, 86400).map((seconds): Step => new TimeJump(seconds));
+
+/** Weighted so that most sequences go through whole rentals */
+const step = fc.oneof(
+	{ arbitrary: rent, weight: 3 },
+	{ arbitrary: sublet, weight: 2 },
+	{ arbitrary: end, weight: 4 },
+	{ arbitrary: transfer, weight: 2 },
+	{ arbitrary: pause, weight: 1 },
+	{ arbitrary: timeJump, weight: 2 }
+);
+
+async function ownerOf(nft: Contract, id: number): Promise<string | undefined> {
+	return nft.ownerOf(id).catch(() => undefined);
+}
+
+async function checkInvariants({ rp, erc721, lentNFT, borrowedNFT, subLentNFT }: Protocol): Promise<Model> {
+	const rented: number[] = [];
+	for (const id of TOKEN_IDS) {
+		const [original, lender, tenant, sublender] = await Promise.all(
+			[erc721, lentNFT, borrowedNFT, subLentNFT].map((nft) => ownerOf(nft, id))
+		);
+		const isRented = lender !== undefined;
+
+		expect(original === rp.address, `original #${id} is held by the protocol iff lent`).to.equal(isRented);
+		expect(tenant !== undefined, `borrowed #${id} exists iff lent`).to.equal(isRented);
+		expect(sublender === undefined || isRented, `sublent #${id} only exists during a rental`).to.be.true;
+
+		const rental = await rp.rentals(erc721.address, id);
+		if (!isRented) {
+			expect(rental.end, `rental #${id} is cleaned up`).to.equal(0);
+			await expect(rp.getFeesTable(erc721.address, id), `fees table of #${id}`).to.be.reverted;
+			continue;
+		}
+		rented.push(id);
+
+		const fees = await rp.getFeesTable(erc721.address, id);
+		const expected = [{ to: lender, basisPoints: rental.lenderFee }];
+		if (sublender !== undefined) {
+			expected.push({ to: sublender, basisPoints: rental.sublenderFee });
+		}
+		expect(
+			fees.map((fee) => ({ to: fee.to, basisPoints: fee.basisPoints })),
+			`fees table of #${id} matches ownership`
+		).to.deep.equal(expected);
+	}
+
+	return { paused: await rp.paused(), rented };
+}
+
+describe("Rental lifecycle invariants", () => {
+	let protocol: Protocol;
+
+	before(async () => {
+		const [admin, feesCollector, ...signers] = await ethers.getSigners();
+		const accounts = signers.slice(0, ACTORS);
+		const { rp, erc721, lentNFT, borrowedNFT, subLentNFT } = await deployRentalFixture(feesCollector.address);
+		await rp.grantRole(await rp.PAUSER_ROLE(), admin.address);
+
+		for (const id of TOKEN_IDS) {
+			await erc721.mint(accounts[id % 2].address, id);
+		}
+		for (const account of accounts) {
+			await erc721.connect(account).setApprovalForAll(rp.address, true);
+		}
+		protocol = { rp, erc721, lentNFT, borrowedNFT, subLentNFT, admin, accounts };
+	});
+
+	/**
+	 * Replay a failing sequence up to the step breaking an invariant, in order to resolve its senders.
+	 * @returns the code of the sequence
+	 */
+	async function replay(commands: Iterable<fc.AsyncCommand<Model, Protocol>>): Promise<string> {
+		const snapshot = await network.provider.send("evm_snapshot");
+		const model: Model = { paused: false, rented: [] };
+		const ran: fc.AsyncCommand<Model, Protocol>[] = [];
+		try {
+			for (const command of Array.from(commands)) {
+				if (await command.check(model)) {
+					ran.push(command);
+					await command.run(model, protocol);
+				}
+			}
+		} catch (err: unknown) {
+			// the broken invariant
+		} finally {
+			await network.provider.send("evm_revert", [snapshot]);
+		}
+
+		return ["let offer;", "const { AddressZero, MaxUint256 } = ethers.constants;", ...ran.map(String)].join("\n");
+	}
+
+	it("should hold after any sequence of actions", async function () {
+		this.timeout(0);
+
+		const property = fc.asyncProperty(fc.commands([step], { maxCommands: MAX_STEPS, size: "max" }), async (commands) => {
+			const snapshot = await network.provider.send("evm_snapshot");
+			try {
+				await fc.asyncModelRun(() => ({ model: { paused: false, rented: [] }, real: protocol }), commands);
+			} finally {
+				await network.provider.send("evm_revert", [snapshot]);
+			}
+		});
+		const details = await fc.check(property, { numRuns: RUNS, seed: SEED });
+
+		if (details.failed) {
+			const script = await replay(details.counterexample ? details.counterexample[0] : []);
+			throw new Error(
+				`Invariant broken (FUZZ_SEED=${details.seed}, after ${details.numShrinks} shrinks): ` +
+					`${(details.errorInstance as Error)?.message}\n\nReproduction, from the initial fixture:\n\n${script}\n`
+			);
+		}
+	});
+});
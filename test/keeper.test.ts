@@ -0,0 +1,128 @@
+import { ethers } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { RentalClient, RentalKeeper } from "../src/node";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("RentalKeeper", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let admin: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let subtenant: SignerWithAddress;
+	let client: RentalClient;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		[admin, feesCollector, lender, tenant, subtenant] = await ethers.getSigners();
+		({ rp, erc721 } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		await erc721.mint(lender.address, 1);
+		await erc721.mint(lender.address, 2);
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		const offer = await client.createOffer({
+			nfts: [
+				{ token: erc721.address, tokenId: 1, duration: 3600, basisPoints: 10_00 },
+				{ token: erc721.address, tokenId: 2, duration: 7200, basisPoints: 10_00 },
+			],
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+	});
+
+	async function increaseTime(seconds: number) {
+		await ethers.provider.send("evm_increaseTime", [seconds]);
+		await ethers.provider.send("evm_mine", []);
+	}
+
+	const summary = (keeper: RentalKeeper) => keeper.status().jobs.map((job) => `${job.tokenId}: ${job.status}`);
+
+	it("should end rentals once over", async () => {
+		const keeper = new RentalKeeper(rp, [lender]);
+		expect(await keeper.poll()).to.be.empty;
+		expect(summary(keeper)).to.deep.equal(["1: scheduled", "2: scheduled"]);
+
+		await increaseTime(3600);
+		const [ended] = await keeper.poll();
+		expect(ended).to.include({ tokenId: "1", status: "ended", signer: lender.address, attempts: 1 });
+		expect(ended.transactionHash).to.be.a("string");
+		expect(await erc721.ownerOf(1)).to.equal(lender.address);
+		expect(summary(keeper)).to.deep.equal(["1: ended", "2: scheduled"]);
+
+		// rental 1 is dropped once its end is indexed
+		await increaseTime(3600);
+		await keeper.poll();
+		expect(await erc721.ownerOf(2)).to.equal(lender.address);
+		expect(summary(keeper)).to.deep.equal(["2: ended"]);
+
+		await keeper.poll();
+		expect(keeper.status()).to.include({ ended: 2 }).and.to.have.property("jobs").that.is.empty;
+	});
+
+	it("should only end rentals its signers are allowed to end", async () => {
+		// the subtenant holds the borrowed NFT but only the sublender can end a sublet rental
+		await client.connect(tenant).sublet(erc721.address, 1, subtenant.address, 50_00);
+		await increaseTime(7200);
+		const keeper = new RentalKeeper(rp, [admin, subtenant]);
+		await keeper.poll();
+		expect(summary(keeper)).to.deep.equal(["1: unmanaged", "2: unmanaged"]);
+		expect(keeper.status().jobs[0]).to.include({ attempts: 0, signer: undefined });
+		// unmanaged rentals are only checked again once their rental NFTs change hands
+		expect(await keeper.poll()).to.be.empty;
+		const { lentNFT } = await client.requireRentalNFTs(erc721.address);
+		await lentNFT.connect(lender).transferFrom(lender.address, admin.address, 2);
+		const [job] = await keeper.poll();
+		expect(job).to.include({ tokenId: "2", status: "ended", signer: admin.address });
+		expect(await keeper.poll()).to.be.empty;
+
+		const tenantKeeper = new RentalKeeper(rp, [admin, tenant]);
+		await tenantKeeper.poll();
+		expect(summary(tenantKeeper)).to.deep.equal(["1: ended"]);
+		expect(await erc721.ownerOf(1)).to.equal(lender.address);
+	});
+
+	it("should skip rentals while paused", async () => {
+		const keeper = new RentalKeeper(rp, [tenant]);
+		await rp.grantRole(await rp.PAUSER_ROLE(), admin.address);
+		await rp.pause();
+		await increaseTime(7200);
+		expect(await keeper.poll()).to.be.empty;
+		expect(keeper.status().paused).to.be.true;
+
+		await rp.unpause();
+		expect(await keeper.poll()).to.have.lengthOf(2);
+		expect(summary(keeper)).to.deep.equal(["1: ended", "2: ended"]);
+	});
+
+	it("should retry failed attempts", async () => {
+		// a signer unable to send transactions
+		const keeper = new RentalKeeper(rp, [new ethers.VoidSigner(lender.address, ethers.provider)], undefined, {
+			maxAttempts: 2,
+			retryDelay: 0,
+		});
+		await increaseTime(3600);
+		const [job] = await keeper.poll();
+		expect(job).to.include({ tokenId: "1", status: "scheduled", attempts: 1 });
+		expect(job.lastError).to.contain("VoidSigner cannot sign transactions");
+
+		await keeper.poll();
+		expect(job).to.include({ status: "failed", attempts: 2 });
+		expect(await keeper.poll()).to.be.empty;
+	});
+
+	it("should forget rentals ended by someone else", async () => {
+		const keeper = new RentalKeeper(rp, [admin]);
+		await keeper.poll();
+		await increaseTime(3600);
+		await rp.connect(lender).endRental(erc721.address, 1);
+		await keeper.poll();
+		expect(summary(keeper)).to.deep.equal(["2: scheduled"]);
+	});
+});
@@ -0,0 +1,68 @@
+import { ethers, run } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { utils } from "ethers";
+import { LentNFT } from "../artifacts/typechain";
+import { decodeRentalNFTMetadata, InvalidMetadataError, validateSVG } from "../src";
+import { deployRentalFixture } from "./fixtures";
+import { formatSVG } from "./snapshot";
+
+const dataURI = (mimeType: string, content: string) =>
+	`data:${mimeType};base64,${utils.base64.encode(utils.toUtf8Bytes(content))}`;
+
+describe("Rental NFT metadata", () => {
+	it("should render the metadata of a token into JSON and SVG files", async () => {
+		const [admin]: SignerWithAddress[] = await ethers.getSigners();
+		const { lentNFT } = (await deployRentalFixture(admin.address)) as { lentNFT: LentNFT };
+		const out = join(mkdtempSync(join(tmpdir(), "rental-metadata-")), "lent");
+
+		const { metadata, svg } = await run("rental:render-metadata", { nft: lentNFT.address, tokenId: "7", out });
+		expect(metadata).to.include({ name: "Lent MNFT 7", description: "Lent MNFT from Cometh Rental" });
+		expect(JSON.parse(readFileSync(`${out}.json`, "utf8"))).to.deep.equal(metadata);
+		expect(readFileSync(`${out}.svg`, "utf8")).to.equal(svg);
+		expect(formatSVG(svg)).to.contain('\n<image xlink:href="https://ipfs.io/7.png"');
+	});
+
+	it("should reject metadata of an unexpected shape", () => {
+		const decode = (json: string) => {
+			try {
+				decodeRentalNFTMetadata(dataURI("application/json", json));
+			} catch (err: unknown) {
+				expect(err).to.be.instanceOf(InvalidMetadataError);
+				return (err as InvalidMetadataError).problems;
+			}
+			return [];
+		};
+
+		const svg = dataURI("image/svg+xml", "<svg><g/></svg>");
+		expect(decode(JSON.stringify({ name: "Lent", description: "Lent", animation_url: svg }))).to.be.empty;
+		expect(decode(JSON.stringify({ name: "Lent", animation_url: svg, image: svg }))).to.deep.equal([
+			'"description" must be a non-empty string',
+			'unexpected field "image"',
+		]);
+		expect(decode("[]")).to.deep.equal(["metadata must be a JSON object"]);
+		expect(decode("{")[0]).to.match(/^invalid JSON/);
+		expect(decode(JSON.stringify({ name: "Lent", description: "Lent", animation_url: "https://" }))).to.deep.equal([
+			'expected a "data:image/svg+xml;base64," URI, got "https://..."',
+		]);
+		expect(
+			decode(JSON.stringify({ name: "Lent", description: "Lent", animation_url: dataURI("image/svg+xml", "<svg>") }))
+		).to.deep.equal(["SVG: unclosed element(s): <svg>"]);
+	});
+
+	it("should check that SVGs are well-formed", () => {
+		expect(validateSVG('<?xml version="1.0"?><svg a="1"><!-- x --><text>A &amp; B</text><g/></svg>')).to.be.empty;
+		expect(validateSVG("<svg><g></svg>")).to.deep.equal(["</svg> closes <g>", "unclosed element(s): <svg>"]);
+		expect(validateSVG('<svg a="1" a="2"/>')).to.deep.equal(['duplicate attribute "a" on <svg>']);
+		expect(validateSVG("<svg><text>A & B</text></svg>")).to.deep.equal(['unescaped "&" in text "A & B"']);
+		expect(validateSVG("<svg x=1/>")).to.deep.equal(["malformed tag <svg x=1/>", "expected a single root element, got 0"]);
+		expect(validateSVG("<g/><svg/>")).to.deep.equal([
+			"the root element must be <svg>, not <g>",
+			"expected a single root element, got 2",
+		]);
+		expect(validateSVG('<svg/><?xml version="1.0"?>')).to.deep.equal(["the XML declaration must start the document"]);
+	});
+});
@@ -0,0 +1,110 @@
+import { ethers, network, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { JsonFileNonceStore, NonceManager, RentalClient, RentalOffer, SignatureType, deriveNonce } from "../src/node";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("Nonce manager", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let maker: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let noncesFile: string;
+	let client: RentalClient;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		// the tasks are run by the admin, the maker
+		[maker, feesCollector, tenant] = await ethers.getSigners();
+		({ rp, erc721 } = await deployRentalFixture(feesCollector.address));
+		noncesFile = join(mkdtempSync(join(tmpdir(), "rental-nonces-")), "nonces.json");
+		client = RentalClient.connect(rp.address, maker, new NonceManager(new JsonFileNonceStore(noncesFile)));
+
+		for (const tokenId of [1, 2, 3, 4, 5, 6]) {
+			await erc721.mint(maker.address, tokenId);
+		}
+		await erc721.setApprovalForAll(rp.address, true);
+	});
+
+	const createOffer = (tokenId: number, deadline?: number) =>
+		client.createOffer({ nfts: [{ token: erc721.address, tokenId, duration: 3600, basisPoints: 0 }], deadline });
+
+	it("should derive the nonces and record the offers signed off-chain", async () => {
+		const first = await createOffer(1);
+		const second = await createOffer(2);
+		expect([first.nonce, second.nonce]).to.deep.equal([deriveNonce(maker.address, 0), deriveNonce(maker.address, 1)]);
+		await client.signOffer(second);
+
+		// the next nonce and the recorded offers survive a restart
+		const nonces = new NonceManager(new JsonFileNonceStore(noncesFile));
+		const { chainId } = await ethers.provider.getNetwork();
+		expect(await nonces.next(maker.address)).to.equal(deriveNonce(maker.address, 2));
+		expect(await nonces.getRecordedOffers(maker.address, chainId, rp.address)).to.deep.equal([
+			{
+				chainId,
+				rentalProtocol: rp.address,
+				nonce: second.nonce,
+				deadline: second.deadline.toString(),
+				signatureType: "EIP_712",
+			},
+		]);
+		expect(await nonces.getRecordedOffers(tenant.address, chainId, rp.address)).to.deep.equal([]);
+		// the nonce file may be shared by other networks and deployments
+		expect(await nonces.getRecordedOffers(maker.address, chainId + 1, rp.address)).to.deep.equal([]);
+		expect(await nonces.getRecordedOffers(maker.address, chainId, erc721.address)).to.deep.equal([]);
+	});
+
+	it("should cancel every live offer of the signer", async () => {
+		const preSign = async (offer: RentalOffer) => {
+			await client.preSignOffer(offer);
+			return offer;
+		};
+		const live = await preSign(await createOffer(1));
+		await client.connect(tenant).rent(await preSign(await createOffer(2)));
+		await client.cancelOffer((await preSign(await createOffer(3))).nonce);
+		const { timestamp } = await ethers.provider.getBlock("latest");
+		await preSign(await createOffer(4, timestamp + 60));
+		const signed = await createOffer(5);
+		const signature = await client.signOffer(signed);
+		const filled = await createOffer(6);
+		await client.connect(tenant).rent(filled, SignatureType.EIP_712, await client.signOffer(filled));
+		await network.provider.send("evm_increaseTime", [120]);
+		await network.provider.send("evm_mine", []);
+
+		const cancelAll = (args: { [name: string]: unknown } = {}) =>
+			run("rental:cancel-all", { rental: rp.address, nonces: noncesFile, ...args });
+		const block = await ethers.provider.getBlockNumber();
+		const planned = await cancelAll({ dryRun: true });
+		expect(await ethers.provider.getBlockNumber()).to.equal(block);
+		expect(planned.map(({ nonce, source }: { nonce: string; source: string }) => [nonce, source])).to.deep.equal([
+			[live.nonce, "pre-signed"],
+			[signed.nonce, "off-chain"],
+		]);
+
+		await rp.grantRole(await rp.PAUSER_ROLE(), maker.address);
+		await rp.pause();
+		const error = await cancelAll().catch((err) => err);
+		expect(error)
+			.to.be.instanceOf(Error)
+			.with.property("message")
+			.that.contains(`Cancellation failed for ${live.nonce}: The rental protocol is paused`);
+		await rp.unpause();
+
+		const results = await cancelAll({ batchSize: 1 });
+		expect(results.map(({ cancellation }: { cancellation: string }) => cancellation)).to.deep.equal([
+			"cancelled",
+			"cancelled",
+		]);
+		const rent = client.connect(tenant).rent(signed, SignatureType.EIP_712, signature);
+		await expect(rent).to.be.revertedWith("cancelled or filled offer");
+		expect(await cancelAll({ dryRun: true })).to.deep.equal([]);
+	});
+});
@@ -0,0 +1,150 @@
+import { network, ethers } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { AddressInfo } from "net";
+import { Server, request } from "http";
+import { ERC20Test, ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import {
+	OrderBook,
+	OrderBookEntry,
+	RentalClient,
+	RentalOfferParams,
+	SignatureType,
+	SignedRentalOfferJSON,
+	createOrderBookServer,
+	signedOfferToJSON,
+} from "../src/node";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("OrderBook", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let feesToken: ERC20Test;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let anotherTenant: SignerWithAddress;
+	let client: RentalClient;
+	let book: OrderBook;
+	let server: Server;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		[, feesCollector, lender, tenant, anotherTenant] = await ethers.getSigners();
+		({ rp, erc721, feesToken } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		for (const tokenId of [1, 2, 3]) {
+			await erc721.mint(lender.address, tokenId);
+		}
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+
+		book = new OrderBook(rp);
+		server = createOrderBookServer(book);
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+	});
+
+	afterEach(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	/** Response of the order book, `{ error }` when the request failed */
+	function call<T = { error: string }>(
+		method: string,
+		path: string,
+		body?: unknown
+	): Promise<{ status: number; body: T }> {
+		const { port } = server.address() as AddressInfo;
+		return new Promise((resolve, reject) => {
+			const req = request({ port, method, path, headers: { "Content-Type": "application/json" } }, (res) => {
+				let data = "";
+				res.on("data", (chunk) => (data += chunk));
+				res.on("end", () => resolve({ status: res.statusCode as number, body: JSON.parse(data) }));
+			});
+			req.on("error", reject);
+			req.end(body === undefined ? undefined : JSON.stringify(body));
+		});
+	}
+
+	async function signedOffer(params: Partial<RentalOfferParams> & { tokenId: number }): Promise<SignedRentalOfferJSON> {
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: params.tokenId, duration: 3600, basisPoints: 30_00 }],
+			feeToken: feesToken.address,
+			...params,
+		});
+		const signature = await client.signOffer(offer);
+		return signedOfferToJSON({ offer, signatureType: SignatureType.EIP_712, signature });
+	}
+
+	it("should store and filter signed offers", async () => {
+		await call("POST", "/offers", await signedOffer({ tokenId: 1, feeAmount: 100 }));
+		await call("POST", "/offers", await signedOffer({ tokenId: 2, feeAmount: 200, taker: tenant.address }));
+		await call("POST", "/offers", await signedOffer({ tokenId: 3, feeAmount: 300, taker: anotherTenant.address }));
+
+		const all = await call<OrderBookEntry[]>("GET", "/offers");
+		expect(all.status).to.equal(200);
+		expect(all.body).to.have.lengthOf(3);
+
+		const tokenIds = async (query: string) =>
+			(await call<OrderBookEntry[]>("GET", `/offers?${query}`)).body.map((entry) => entry.offer.nfts[0].tokenId);
+		expect(await tokenIds("visibility=public")).to.deep.equal(["1"]);
+		expect(await tokenIds("visibility=private")).to.deep.equal(["2", "3"]);
+		expect(await tokenIds(`taker=${tenant.address}`)).to.deep.equal(["1", "2"]);
+		expect(await tokenIds("minPrice=150&maxPrice=250")).to.deep.equal(["2"]);
+		expect(await tokenIds(`maker=${tenant.address}`)).to.be.empty;
+		expect(await tokenIds(`collection=${erc721.address}&feeToken=${feesToken.address}`)).to.have.lengthOf(3);
+
+		const { timestamp } = await ethers.provider.getBlock("latest");
+		expect(await tokenIds(`validUntil=${timestamp + 30 * 24 * 3600}`)).to.be.empty;
+
+		expect(await call("GET", "/offers?minPrice=1.5")).to.deep.equal({
+			status: 400,
+			body: { error: 'Invalid minPrice "1.5", expected a non-negative integer' },
+		});
+		expect((await call("GET", "/offers?maxPrice=-1")).status).to.equal(400);
+		expect((await call("GET", "/offers?validUntil=tomorrow")).status).to.equal(400);
+	});
+
+	it("should reject invalid offers", async () => {
+		const tampered = await signedOffer({ tokenId: 1 });
+		tampered.offer.nfts[0].basisPoints = 0;
+		expect(await call("POST", "/offers", tampered)).to.deep.equal({ status: 400, body: { error: "Signer is not maker" } });
+
+		const { timestamp } = await ethers.provider.getBlock("latest");
+		const expired = await signedOffer({ tokenId: 1, deadline: timestamp - 1 });
+		expect((await call("POST", "/offers", expired)).body.error).to.equal("Offer deadline");
+
+		const cancelled = await signedOffer({ tokenId: 1 });
+		await client.cancelOffer(cancelled.offer.nonce);
+		expect((await call("POST", "/offers", cancelled)).body.error).to.equal("cancelled or filled offer");
+
+		const offer = await signedOffer({ tokenId: 1 });
+		expect((await call("POST", "/offers", offer)).status).to.equal(201);
+		expect((await call("POST", "/offers", offer)).body.error).to.equal("Offer already exists");
+
+		expect((await call("GET", "/offers/0x1234")).status).to.equal(404);
+		expect((await call("DELETE", "/offers")).status).to.equal(405);
+	});
+
+	it("should provide the rent calldata and drop filled offers", async () => {
+		const { body } = await call<{ hash: string }>("POST", "/offers", await signedOffer({ tokenId: 1 }));
+		const { body: entry } = await call<OrderBookEntry>("GET", `/offers/${body.hash}`);
+
+		await expect(tenant.sendTransaction(entry.rent)).to.emit(rp, "RentalStarted");
+
+		expect(await book.prune()).to.deep.equal([body.hash]);
+		expect((await call<OrderBookEntry[]>("GET", "/offers")).body).to.be.empty;
+	});
+
+	it("should drop expired offers", async () => {
+		await call("POST", "/offers", await signedOffer({ tokenId: 1 }));
+		await network.provider.send("evm_increaseTime", [8 * 24 * 3600]);
+		await network.provider.send("evm_mine");
+
+		expect(await book.prune()).to.have.lengthOf(1);
+		expect(book.size).to.equal(0);
+	});
+});
@@ -0,0 +1,140 @@
+import { ethers, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ERC20Test, ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { RentalClient, RentalOffer, SignatureType, signedOfferToJSON } from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("Rent preflight", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let feesToken: ERC20Test;
+	let admin: SignerWithAddress;
+	let feesCollector: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let client: RentalClient;
+	let offer: RentalOffer;
+
+	beforeEach(async () => {
+		[admin, feesCollector, lender, tenant] = await ethers.getSigners();
+		({ rp, erc721, feesToken } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		await erc721.mint(lender.address, 1);
+		await erc721.mint(lender.address, 2);
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		await feesToken.mint(tenant.address, 1000);
+		await feesToken.connect(tenant).approve(rp.address, 1000);
+		offer = await client.createOffer({
+			nfts: [
+				{ token: erc721.address, tokenId: 1, duration: 3600, basisPoints: 10_00 },
+				{ token: erc721.address, tokenId: 2, duration: 3600, basisPoints: 10_00 },
+			],
+			feeToken: feesToken.address,
+			feeAmount: 1000,
+		});
+	});
+
+	/** Problems found, as `<code> #<index of the NFT>` */
+	const codes = async (...args: Parameters<RentalClient["preflightRent"]>) =>
+		(await client.preflightRent(...args)).problems.map(({ code, nft }) =>
+			nft === undefined ? code : `${code} #${nft}`
+		);
+
+	it("should split the fees of a valid offer", async () => {
+		const signature = await client.signOffer(offer);
+		const dir = mkdtempSync(join(tmpdir(), "rental-preflight-"));
+		const file = join(dir, "offer.json");
+		writeFileSync(file, JSON.stringify(signedOfferToJSON({ offer, signatureType: SignatureType.EIP_712, signature })));
+
+		const preflight = await run("rental:preflight", { rental: rp.address, offer: file, tenant: tenant.address });
+		expect(preflight.ok).to.be.true;
+		expect(preflight.problems).to.be.empty;
+		expect(preflight.revertReason).to.be.undefined;
+		const { fees } = preflight;
+		expect(fees.feesCollector).to.equal(feesCollector.address);
+		expect(fees.protocolFee).to.equal(50);
+		expect(fees.lender).to.equal(lender.address);
+		expect(fees.lenderAmount).to.equal(950);
+
+		await client.connect(tenant).rent(offer, SignatureType.EIP_712, signature);
+		expect(await feesToken.balanceOf(feesCollector.address)).to.equal(fees.protocolFee);
+		expect(await feesToken.balanceOf(lender.address)).to.equal(fees.lenderAmount);
+	});
+
+	it("should report every blocking problem", async () => {
+		const other = await (await ethers.getContractFactory("ERC721Test")).deploy();
+		await erc721.connect(lender).transferFrom(lender.address, admin.address, 2);
+		await erc721.mint(lender.address, 3);
+		await erc721.connect(lender).setApprovalForAll(rp.address, false);
+		await erc721.connect(lender).approve(rp.address, 3);
+		const { timestamp } = await ethers.provider.getBlock("latest");
+		const invalid = await client.createOffer({
+			taker: admin.address,
+			nfts: [
+				{ token: erc721.address, tokenId: 1, duration: 3600, basisPoints: 100_01 },
+				{ token: erc721.address, tokenId: 2, duration: 3600, basisPoints: 10_00 },
+				{ token: other.address, tokenId: 1, duration: 3600, basisPoints: 10_00 },
+				{ token: erc721.address, tokenId: 3, duration: 3600, basisPoints: 10_00 },
+				{ token: erc721.address, tokenId: 3, duration: 3600, basisPoints: 10_00 },
+			],
+			feeToken: feesToken.address,
+			feeAmount: 2000,
+			deadline: timestamp,
+		});
+
+		const preflight = await client.preflightRent(invalid, SignatureType.PRE_SIGNED, "0x", tenant.address);
+		expect(preflight.ok).to.be.false;
+		expect(preflight.revertReason).to.equal("Presigned offer not found");
+		expect(await codes(invalid, SignatureType.PRE_SIGNED, "0x", tenant.address)).to.deep.equal([
+			"PRESIGNED_OFFER_NOT_FOUND",
+			"DEADLINE_PASSED",
+			"PRIVATE_RENTAL",
+			"BASIS_POINTS_TOO_HIGH #0",
+			"NFT_NOT_APPROVED #0",
+			"MAKER_NOT_OWNER #1",
+			"COLLECTION_NOT_ASSOCIATED #2",
+			"DUPLICATE_NFT #4",
+			"INSUFFICIENT_FEE_BALANCE",
+			"INSUFFICIENT_FEE_ALLOWANCE",
+		]);
+	});
+
+	it("should check the signature, nonce and pause", async () => {
+		const tenantSignature = await client.connect(tenant).signOffer(offer);
+		expect(await codes(offer, SignatureType.EIP_712, tenantSignature, tenant.address)).to.deep.equal(["SIGNER_NOT_MAKER"]);
+		expect(await codes(offer, SignatureType.EIP_712, "0x1234", tenant.address)).to.deep.equal(["SIGNER_NOT_MAKER"]);
+		expect(await codes(offer, SignatureType.EIP_1271, "0x", tenant.address)).to.deep.equal([
+			"UNSUPPORTED_SIGNATURE_TYPE",
+		]);
+
+		await client.preSignOffer(offer);
+		expect(await codes(offer, SignatureType.PRE_SIGNED, "0x", tenant.address)).to.be.empty;
+		await rp.grantRole(await rp.PAUSER_ROLE(), admin.address);
+		await rp.pause();
+		expect(await codes(offer, SignatureType.PRE_SIGNED, "0x", tenant.address)).to.deep.equal(["PAUSED"]);
+		await rp.unpause();
+		await client.cancelOffer(offer.nonce);
+		expect(await codes(offer, SignatureType.PRE_SIGNED, "0x", tenant.address)).to.deep.equal(["NONCE_USED"]);
+	});
+
+	it("should report a missing or non-contract fee token", async () => {
+		for (const feeToken of [ethers.constants.AddressZero, lender.address]) {
+			const invalid = await client.createOffer({ nfts: offer.nfts, feeToken, feeAmount: 1000 });
+			await client.preSignOffer(invalid);
+			expect(await codes(invalid, SignatureType.PRE_SIGNED, "0x", tenant.address)).to.deep.equal(["INVALID_FEE_TOKEN"]);
+		}
+
+		const free = await client.createOffer({ nfts: offer.nfts });
+		await client.preSignOffer(free);
+		expect(await codes(free, SignatureType.PRE_SIGNED, "0x", tenant.address)).to.be.empty;
+	});
+});
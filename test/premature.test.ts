@@ -0,0 +1,131 @@
+import { ethers, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { ERC721Test, LentNFT, RentalProtocol } from "../artifacts/typechain";
+import { RentalClient } from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("Premature end of rentals", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let lentNFT: LentNFT;
+	let admin: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let subtenant: SignerWithAddress;
+	let client: RentalClient;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		[admin, feesCollector, lender, tenant, subtenant] = await ethers.getSigners();
+		({ rp, erc721, lentNFT } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		for (const tokenId of [1, 2, 3]) {
+			await erc721.mint(lender.address, tokenId);
+		}
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		const offer = await client.createOffer({
+			nfts: [1, 2, 3].map((tokenId) => ({ token: erc721.address, tokenId, duration: 3600, basisPoints: 10_00 })),
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+	});
+
+	// the tasks are run by the admin
+	const endPrematurely = (args: { [name: string]: unknown }) => run("rental:premature-end", { rental: rp.address, ...args });
+
+	it("should report the premature end status", async () => {
+		expect(await client.getPrematureEndStatus(erc721.address, 1)).to.deep.equal({
+			lender: lender.address,
+			tenant: tenant.address,
+			requester: undefined,
+			valid: false,
+			counterparty: undefined,
+			subletBlocking: false,
+		});
+
+		await client.endRentalPrematurely(erc721.address, 1);
+		expect(await client.getPrematureEndStatus(erc721.address, 1)).to.include({
+			requester: lender.address,
+			valid: true,
+			counterparty: tenant.address,
+		});
+
+		// the request goes stale once the lender transfers its LentNFT
+		await lentNFT.connect(lender).transferFrom(lender.address, admin.address, 1);
+		expect(await client.getPrematureEndStatus(erc721.address, 1)).to.include({ valid: false, counterparty: undefined });
+		expect(await client.getPrematureEndStatus(erc721.address, 4)).to.be.undefined;
+	});
+
+	it("should list the requests awaiting an account", async () => {
+		await client.endRentalPrematurely(erc721.address, 1);
+		await client.endRentalPrematurely(erc721.address, 2);
+		await client.connect(tenant).endRentalPrematurely(erc721.address, 3);
+		await lentNFT.connect(lender).transferFrom(lender.address, admin.address, 2);
+		await client.connect(tenant).sublet(erc721.address, 1, subtenant.address, 50_00);
+
+		const requests = await run("rental:premature-end:list", { rental: rp.address, account: tenant.address });
+		expect(
+			requests.map(({ tokenId, status }: { tokenId: string; status: { valid: boolean; subletBlocking: boolean } }) => [
+				tokenId,
+				status.valid,
+				status.subletBlocking,
+			])
+		).to.deep.equal([
+			// the tenant is no longer the BorrowedNFT holder of the sublet token 1
+			["2", false, false],
+		]);
+
+		const lenderRequests = await run("rental:premature-end:list", { rental: rp.address, account: lender.address });
+		expect(lenderRequests.map(({ tokenId }: { tokenId: string }) => tokenId)).to.deep.equal(["3"]);
+	});
+
+	it("should request and accept in bulk", async () => {
+		await client.connect(tenant).endRentalPrematurely(erc721.address, 1);
+		await client.connect(tenant).endRentalPrematurely(erc721.address, 2);
+		await client.connect(tenant).sublet(erc721.address, 3, subtenant.address, 50_00);
+
+		// the admin becomes the lender
+		await lentNFT.connect(lender).transferFrom(lender.address, admin.address, 1);
+		await lentNFT.connect(lender).transferFrom(lender.address, admin.address, 2);
+		await lentNFT.connect(lender).transferFrom(lender.address, admin.address, 3);
+		const nfts = [1, 2, 3, 4].map((tokenId) => `${erc721.address}:${tokenId}`).join(",");
+
+		const planned = await endPrematurely({ nfts, dryRun: true });
+		expect(planned.map(({ action, reason }: { action: string; reason?: string }) => reason ?? action)).to.deep.equal([
+			"accept",
+			"accept",
+			"the sublet must end first",
+			"not rented",
+		]);
+		expect(await erc721.ownerOf(1)).to.equal(rp.address);
+
+		await endPrematurely({ nfts });
+		expect(await erc721.ownerOf(1)).to.equal(admin.address);
+		expect(await erc721.ownerOf(2)).to.equal(admin.address);
+		expect(await erc721.ownerOf(3)).to.equal(rp.address);
+	});
+
+	it("should accept every request awaiting the signer", async () => {
+		await lentNFT.connect(lender).transferFrom(lender.address, admin.address, 1);
+		await lentNFT.connect(lender).transferFrom(lender.address, admin.address, 2);
+		await client.connect(tenant).endRentalPrematurely(erc721.address, 1);
+		await client.connect(tenant).endRentalPrematurely(erc721.address, 2);
+
+		// the admin isn't a party of the rental of token 3
+		const [skipped] = await endPrematurely({ nfts: `${erc721.address}:3` });
+		expect(skipped.reason).to.equal("neither the lender nor the tenant");
+
+		const actions = await endPrematurely({ acceptAll: true });
+		expect(actions.map(({ tokenId, action }: { tokenId: string; action: string }) => `${tokenId}: ${action}`)).to.deep.equal([
+			"1: accept",
+			"2: accept",
+		]);
+		expect(await erc721.ownerOf(2)).to.equal(admin.address);
+	});
+});
@@ -0,0 +1,115 @@
+import { ethers, run, upgrades } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ERC20Test, ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { addresses, AddressRegistry, RentalClient } from "../src";
+import type { DeploymentManifest } from "../tasks/deploy";
+import { REGISTRY_FILE } from "../tasks/registry";
+
+chai.use(solidity);
+const { expect } = chai;
+
+const CHAIN_ID = "31337";
+
+describe("Address registry", () => {
+	let admin: SignerWithAddress;
+	let feesCollector: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let spaceships: ERC721Test;
+	let rewardsToken: ERC20Test;
+	let registryFile: string;
+	const committed = readFileSync(REGISTRY_FILE, "utf8");
+
+	beforeEach(async () => {
+		[admin, feesCollector, lender, tenant] = await ethers.getSigners();
+		spaceships = (await (await ethers.getContractFactory("ERC721Test")).deploy()) as ERC721Test;
+		rewardsToken = (await (await ethers.getContractFactory("ERC20Test")).deploy()) as ERC20Test;
+
+		const dir = mkdtempSync(join(tmpdir(), "rental-registry-"));
+		const manifestFile = join(dir, "manifest.json");
+		registryFile = join(dir, "addresses.json");
+		const manifest: DeploymentManifest = {
+			feesCollector: feesCollector.address,
+			feesBasisPoints: 5_00,
+			collections: [
+				{ name: "spaceships", address: spaceships.address, uriPrefix: "https://images.example/", uriSuffix: ".png" },
+			],
+			roles: {},
+			rewardTokens: { TEST: rewardsToken.address },
+		};
+		writeFileSync(manifestFile, JSON.stringify(manifest));
+		await run("rental:deploy", { manifest: manifestFile, record: join(dir, "record.json"), registry: registryFile });
+	});
+
+	afterEach(() => {
+		writeFileSync(REGISTRY_FILE, committed);
+	});
+
+	const readRegistry = (): AddressRegistry => JSON.parse(readFileSync(registryFile, "utf8"));
+
+	it("should register the deployed addresses of the network", async () => {
+		const registered = readRegistry()[CHAIN_ID];
+		const rentalProtocol = registered.rentalProtocol as string;
+		const { lentNFT, borrowedNFT, subLentNFT } = registered.collections.spaceships;
+		expect(registered.collections.spaceships.original).to.equal(spaceships.address);
+		expect(registered.rewardTokens).to.deep.equal({ TEST: rewardsToken.address });
+		const deploymentBlock = registered.deploymentBlock as number;
+		expect(await ethers.provider.getCode(rentalProtocol, deploymentBlock - 1)).to.equal("0x");
+		expect(await ethers.provider.getCode(rentalProtocol, deploymentBlock)).to.not.equal("0x");
+
+		const rp = (await ethers.getContractAt("RentalProtocol", rentalProtocol)) as RentalProtocol;
+		expect(await rp.originalToBorrowedNFT(spaceships.address)).to.equal(borrowedNFT);
+		expect(registered.implementations).to.deep.equal({
+			RentalProtocol: await upgrades.erc1967.getImplementationAddress(rentalProtocol),
+			LentNFT: await upgrades.erc1967.getImplementationAddress(lentNFT as string),
+			BorrowedNFT: await upgrades.erc1967.getImplementationAddress(borrowedNFT as string),
+			SubLentNFT: await upgrades.erc1967.getImplementationAddress(subLentNFT as string),
+		});
+
+		// the committed registry only knows the production networks
+		expect(Object.keys(addresses)).to.not.include(CHAIN_ID);
+		expect(addresses[137].rewardTokens.MUST).to.be.properAddress;
+	});
+
+	it("should default the task parameters to the registered addresses", async () => {
+		const registry = readRegistry();
+		writeFileSync(REGISTRY_FILE, JSON.stringify({ ...JSON.parse(committed), [CHAIN_ID]: registry[CHAIN_ID] }));
+		const rentalProtocol = registry[CHAIN_ID].rentalProtocol as string;
+
+		const client = RentalClient.connect(rentalProtocol, lender);
+		await spaceships.mint(lender.address, 1);
+		await spaceships.connect(lender).setApprovalForAll(rentalProtocol, true);
+		const offer = await client.createOffer({
+			nfts: [{ token: spaceships.address, tokenId: 1, duration: 3600, basisPoints: 10_00 }],
+			feeToken: rewardsToken.address,
+			feeAmount: 0,
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+
+		await rewardsToken.mint(admin.address, ethers.constants.WeiPerEther.mul(100));
+		await run("rental:distribute-rewards", { tokenId: 1, amount: "100" });
+		expect(await rewardsToken.balanceOf(lender.address)).to.equal(ethers.constants.WeiPerEther.mul(10));
+		expect(await rewardsToken.balanceOf(tenant.address)).to.equal(ethers.constants.WeiPerEther.mul(90));
+
+		const { metadata } = await run("rental:render-metadata", { tokenId: "1", out: join(tmpdir(), "registry-lent") });
+		expect(metadata.name).to.match(/ 1$/);
+
+		const earnings = await run("rental:earnings", { out: join(tmpdir(), "registry-earnings") });
+		expect(earnings.map((earning: { token: string }) => earning.token)).to.deep.equal([
+			rewardsToken.address,
+			rewardsToken.address,
+		]);
+
+		// symbols of other networks aren't known
+		const error = await run("rental:distribute-rewards", { tokenId: 1, token: "MUST", amount: "1" }).catch(
+			(err) => err
+		);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains(`No reward token "MUST"`);
+	});
+});
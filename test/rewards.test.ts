@@ -0,0 +1,146 @@
+import { ethers } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { BorrowedNFT, ERC20Test, ERC721Test } from "../artifacts/typechain";
+import { MAX_BASIS_POINTS, RentalClient, RewardShare, splitRewards, sumRewardShares } from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+const MAX_UINT256 = ethers.constants.MaxUint256;
+const SEED = Number(process.env.REWARDS_SEED ?? 0x5eed);
+const RUNS = Number(process.env.REWARDS_RUNS ?? 2000);
+const TOKENS = 20;
+
+/**
+ * Small seeded PRNG (mulberry32) with a fixed default seed, so that runs are reproducible;
+ * `REWARDS_SEED` explores other inputs.
+ * `REWARDS_RUNS` sets how many distributions are compared.
+ */
+function prng(seed: number) {
+	let state = seed >>> 0;
+	const next = () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+	};
+	const int = (max: number) => Math.floor(next() * (max + 1));
+	return {
+		int,
+		basisPoints: () => [0, 1, MAX_BASIS_POINTS - 1, MAX_BASIS_POINTS, int(MAX_BASIS_POINTS)][int(4)],
+		/** Amounts of random bit lengths, up to the point where the contract overflows */
+		amount: () => {
+			const bits = int(242);
+			let value = BigInt(0);
+			for (let i = 0; i < bits; i += 16) {
+				value = (value << BigInt(16)) | BigInt(int(0xffff));
+			}
+			return value & ((BigInt(1) << BigInt(bits)) - BigInt(1));
+		},
+	};
+}
+
+describe("Rewards split", () => {
+	let erc721: ERC721Test;
+	let borrowedNFT: BorrowedNFT;
+	let rewardsToken: ERC20Test;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let subtenant: SignerWithAddress;
+	let client: RentalClient;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		let rp;
+		[, feesCollector, lender, tenant, subtenant] = await ethers.getSigners();
+		({ rp, erc721, borrowedNFT, rewardsToken } = await deployRentalFixture(feesCollector.address));
+		client = RentalClient.connect(rp.address, lender);
+
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		await rewardsToken.mint(borrowedNFT.address, MAX_UINT256);
+	});
+
+	async function distribute(tokenId: number, amount: bigint): Promise<RewardShare[]> {
+		const tx = await borrowedNFT.onERC20Received(tokenId, rewardsToken.address, amount.toString());
+		const receipt = await tx.wait();
+		return receipt.logs
+			.filter((log) => log.address === borrowedNFT.address)
+			.map((log) => borrowedNFT.interface.parseLog(log))
+			.filter((event) => event.name === "RewardsDistributed")
+			.map((event) => ({ to: event.args.recipient, amount: BigInt(event.args.amount.toString()) }));
+	}
+
+	it("should match BorrowedNFT on random amounts and basis points", async function () {
+		this.timeout(0);
+		const random = prng(SEED);
+		const tokenIds = Array.from({ length: TOKENS }, (_, i) => i + 1);
+		for (const tokenId of tokenIds) {
+			await erc721.mint(lender.address, tokenId);
+		}
+
+		const offer = await client.createOffer({
+			nfts: tokenIds.map((tokenId) => ({
+				token: erc721.address,
+				tokenId,
+				duration: 3600,
+				basisPoints: random.basisPoints(),
+			})),
+		});
+		await client.preSignOffer(offer);
+		const tenantClient = client.connect(tenant);
+		await tenantClient.rent(offer);
+		for (const tokenId of tokenIds.filter((tokenId) => tokenId % 2 === 0)) {
+			await tenantClient.sublet(erc721.address, tokenId, subtenant.address, random.basisPoints());
+		}
+
+		for (const tokenId of tokenIds) {
+			const fees = await client.getFeesTable(erc721.address, tokenId);
+			const holder = await borrowedNFT.ownerOf(tokenId);
+			for (let i = 0; i < RUNS / TOKENS; i++) {
+				const amount = random.amount();
+				const context = `REWARDS_SEED=${SEED} tokenId=${tokenId} amount=${amount} fees=${JSON.stringify(fees)}`;
+				expect(await distribute(tokenId, amount), context).to.deep.equal(splitRewards(amount, fees, holder));
+			}
+		}
+	});
+
+	it("should revert like BorrowedNFT on overflows", async () => {
+		await erc721.mint(lender.address, 1);
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 1, duration: 3600, basisPoints: MAX_BASIS_POINTS }],
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+		const fees = await client.getFeesTable(erc721.address, 1);
+
+		const limit = BigInt(MAX_UINT256.div(MAX_BASIS_POINTS).toString());
+		expect(await distribute(1, limit)).to.deep.equal(splitRewards(limit, fees, tenant.address));
+
+		const overflow = limit + BigInt(1);
+		expect(() => splitRewards(overflow, fees, tenant.address)).to.throw(RangeError);
+		await expect(borrowedNFT.onERC20Received(1, rewardsToken.address, overflow.toString())).to.be.reverted;
+	});
+
+	it("should preview the rewards of a rental", async () => {
+		await erc721.mint(lender.address, 1);
+		const offer = await client.createOffer({
+			nfts: [{ token: erc721.address, tokenId: 1, duration: 3600, basisPoints: 33_33 }],
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+		await client.connect(tenant).sublet(erc721.address, 1, subtenant.address, 50_00);
+
+		const shares = await client.previewRewards(erc721.address, 1, 1_000_001);
+		expect(shares).to.deep.equal([
+			{ to: lender.address, amount: BigInt(333_300) },
+			{ to: tenant.address, amount: BigInt(333_350) },
+			{ to: subtenant.address, amount: BigInt(333_351) },
+		]);
+		expect(await distribute(1, BigInt(1_000_001))).to.deep.equal(shares);
+		expect(sumRewardShares(shares).get(tenant.address)).to.equal(BigInt(333_350));
+	});
+});
@@ -0,0 +1,72 @@
+import { ethers, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { RentalProtocol } from "../artifacts/typechain";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("rental:roles", () => {
+	let rp: RentalProtocol;
+	let admin: SignerWithAddress;
+	let pauser: SignerWithAddress;
+	let feesManager: SignerWithAddress;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		[admin, feesCollector, pauser, feesManager] = await ethers.getSigners();
+		({ rp } = await deployRentalFixture(feesCollector.address));
+	});
+
+	it("should list the current role holders", async () => {
+		await rp.grantRole(await rp.FEES_MANAGER_ROLE(), feesManager.address);
+		await rp.grantRole(await rp.PAUSER_ROLE(), pauser.address);
+		await rp.revokeRole(await rp.FEES_MANAGER_ROLE(), admin.address);
+		await rp.revokeRole(await rp.PAUSER_ROLE(), pauser.address);
+
+		const holders = await run("rental:roles:list", { rental: rp.address, blockRange: 3 });
+		expect(holders).to.deep.equal({
+			DEFAULT_ADMIN_ROLE: [admin.address],
+			TOKENS_MANAGER_ROLE: [admin.address],
+			FEES_MANAGER_ROLE: [feesManager.address],
+			PAUSER_ROLE: [],
+		});
+	});
+
+	it("should grant and revoke roles", async () => {
+		await run("rental:roles:grant", { rental: rp.address, role: "PAUSER_ROLE", account: pauser.address });
+		expect(await rp.hasRole(await rp.PAUSER_ROLE(), pauser.address)).to.be.true;
+
+		await run("rental:roles:revoke", { rental: rp.address, role: "PAUSER_ROLE", account: pauser.address });
+		expect(await rp.hasRole(await rp.PAUSER_ROLE(), pauser.address)).to.be.false;
+
+		const error = await run("rental:roles:grant", { rental: rp.address, role: "OWNER", account: pauser.address }).catch(
+			(err) => err
+		);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains('Unknown role "OWNER"');
+	});
+
+	it("should not revoke the last admin", async () => {
+		const args = { rental: rp.address, role: "DEFAULT_ADMIN_ROLE", account: admin.address };
+		const error = await run("rental:roles:revoke", args).catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("last holder of the DEFAULT_ADMIN_ROLE");
+		expect(await rp.hasRole(await rp.DEFAULT_ADMIN_ROLE(), admin.address)).to.be.true;
+
+		await run("rental:roles:revoke", { ...args, force: true });
+		expect(await rp.hasRole(await rp.DEFAULT_ADMIN_ROLE(), admin.address)).to.be.false;
+	});
+
+	it("should pause and unpause with the PAUSER_ROLE", async () => {
+		// nobody is granted the PAUSER_ROLE at initialization
+		const error = await run("rental:pause", { rental: rp.address }).catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("doesn't have the PAUSER_ROLE");
+
+		await rp.grantRole(await rp.PAUSER_ROLE(), admin.address);
+		await run("rental:pause", { rental: rp.address });
+		expect(await rp.paused()).to.be.true;
+		await run("rental:unpause", { rental: rp.address });
+		expect(await rp.paused()).to.be.false;
+	});
+});
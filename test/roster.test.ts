@@ -0,0 +1,120 @@
+import { ethers, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BorrowedNFT, ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import { RentalClient } from "../src";
+import type { Roster } from "../tasks/roster";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("rental:roster", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let borrowedNFT: BorrowedNFT;
+	let guild: SignerWithAddress;
+	let player1: SignerWithAddress;
+	let player2: SignerWithAddress;
+	let client: RentalClient;
+	let rosterFile: string;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		let lender: SignerWithAddress;
+		// the tasks are run by the admin, the guild renting the NFTs
+		[guild, feesCollector, lender, player1, player2] = await ethers.getSigners();
+		({ rp, erc721, borrowedNFT } = await deployRentalFixture(feesCollector.address));
+		rosterFile = join(mkdtempSync(join(tmpdir(), "rental-roster-")), "roster.json");
+
+		const lenderClient = RentalClient.connect(rp.address, lender);
+		for (const tokenId of [1, 2, 3, 4, 5, 6]) {
+			await erc721.mint(lender.address, tokenId);
+		}
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		const offer = await lenderClient.createOffer({
+			nfts: [1, 2, 3, 4, 5].map((tokenId) => ({
+				token: erc721.address,
+				tokenId,
+				duration: tokenId === 5 ? 600 : 7200,
+				basisPoints: 10_00,
+			})),
+		});
+		await lenderClient.preSignOffer(offer);
+		client = lenderClient.connect(guild);
+		await client.rent(offer);
+		await client.sublet(erc721.address, 2, player1.address, 50_00);
+		await client.sublet(erc721.address, 3, player1.address, 30_00);
+		await client.sublet(erc721.address, 4, player2.address, 20_00);
+	});
+
+	const applyRoster = (roster: Roster, args: { [name: string]: unknown } = {}) => {
+		writeFileSync(rosterFile, JSON.stringify(roster));
+		return run("rental:roster", { rental: rp.address, roster: rosterFile, margin: 1800, ...args });
+	};
+
+	/** Changes as `<tokenId> <action>[: <reason>]` */
+	const summary = (changes: { tokenId: string; action: string; reason?: string }[]) =>
+		changes.map(({ tokenId, action, reason }) => `${tokenId} ${action}${reason ? `: ${reason}` : ""}`);
+
+	it("should perform the minimal sublet changes", async () => {
+		const sublets: Roster["sublets"] = {
+			1: { subtenant: player2.address, basisPoints: 40_00 },
+			2: { subtenant: player1.address, basisPoints: 50_00 },
+			3: { subtenant: player2.address, basisPoints: 30_00 },
+			4: null,
+			5: { subtenant: player1.address, basisPoints: 10_00 },
+			6: { subtenant: player1.address, basisPoints: 10_00 },
+		};
+
+		const block = await ethers.provider.getBlockNumber();
+		const planned = await applyRoster({ token: erc721.address, sublets }, { dryRun: true });
+		expect(await ethers.provider.getBlockNumber()).to.equal(block);
+		const end = (await client.getRental(erc721.address, 5))?.end.toNumber() as number;
+		expect(summary(planned)).to.deep.equal([
+			"1 sublet",
+			"2 unchanged",
+			"3 rotate",
+			"4 end",
+			`5 refuse: the rental ends at ${new Date(end * 1000).toISOString()}`,
+			"6 refuse: not rented",
+		]);
+
+		const changes = await applyRoster({ token: erc721.address, sublets });
+		expect(changes.map((change: { transactionHashes: string[] }) => change.transactionHashes.length)).to.deep.equal([
+			1, 0, 2, 1, 0, 0,
+		]);
+		expect(await borrowedNFT.ownerOf(1)).to.equal(player2.address);
+		expect(await borrowedNFT.ownerOf(3)).to.equal(player2.address);
+		expect(await borrowedNFT.ownerOf(4)).to.equal(guild.address);
+		expect((await client.getFeesTable(erc721.address, 1))[1]).to.deep.equal({ to: guild.address, basisPoints: 40_00 });
+
+		// nothing left to do, but the refused entries
+		expect(summary(await applyRoster({ token: erc721.address, sublets }, { dryRun: true })).slice(0, 4)).to.deep.equal([
+			"1 unchanged",
+			"2 unchanged",
+			"3 unchanged",
+			"4 unchanged",
+		]);
+		// without margin, the last minutes of a rental can be sublet
+		expect(summary(await applyRoster({ token: erc721.address, sublets }, { margin: 0, dryRun: true }))[4]).to.equal(
+			"5 sublet"
+		);
+	});
+
+	it("should refuse the NFTs rented by others and invalid rosters", async () => {
+		await borrowedNFT.transferFrom(guild.address, player1.address, 1);
+		const changes = await applyRoster({ token: erc721.address, sublets: { 1: null, 2: null } }, { dryRun: true });
+		expect(summary(changes)).to.deep.equal([`1 refuse: rented by "${player1.address}"`, "2 end"]);
+
+		const error = await applyRoster({
+			token: erc721.address,
+			sublets: { 1: { subtenant: player1.address, basisPoints: 100_01 } },
+		}).catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains('"sublets.1.basisPoints"');
+	});
+});
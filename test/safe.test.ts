@@ -0,0 +1,149 @@
+import { ethers, run, upgrades } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { utils } from "ethers";
+import { decodeMulti } from "ethers-multisend";
+import { ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import type { DeploymentRecord } from "../tasks/deploy";
+import type { SafeBatchFile } from "../tasks/safe";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("Safe batches", () => {
+	let rp: RentalProtocol;
+	let admin: SignerWithAddress;
+	let safe: SignerWithAddress;
+	let pauser: SignerWithAddress;
+	let dir: string;
+	let batchFile: string;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		[admin, feesCollector, safe, pauser] = await ethers.getSigners();
+		({ rp } = await deployRentalFixture(feesCollector.address));
+		dir = mkdtempSync(join(tmpdir(), "rental-safe-"));
+		batchFile = join(dir, "batch.json");
+	});
+
+	function readBatch(): SafeBatchFile {
+		return JSON.parse(readFileSync(batchFile, "utf8"));
+	}
+
+	/** Decode the calls of the batch as `<method>(<args>)` */
+	function decodeCalls(batch: SafeBatchFile, contractInterface: utils.Interface) {
+		return batch.transactions.map(({ data }) => {
+			const { name, args } = contractInterface.parseTransaction({ data });
+			return `${name}(${args.map(String).join(",")})`;
+		});
+	}
+
+	/** Execute the batch the way the Safe would, from the Safe account */
+	async function execute(batch: SafeBatchFile) {
+		for (const { to, value, data } of batch.transactions) {
+			await safe.sendTransaction({ to, value, data }).then((tx) => tx.wait());
+		}
+	}
+
+	it("should queue the admin calls of a deployment", async () => {
+		const cards = (await (await ethers.getContractFactory("ERC721Test")).deploy()) as ERC721Test;
+		const manifestFile = join(dir, "manifest.json");
+		const recordFile = join(dir, "record.json");
+		const manifest = {
+			feesCollector: admin.address,
+			feesBasisPoints: 10_00,
+			collections: [{ name: "cards", address: cards.address, uriPrefix: "https://cards.example/", uriSuffix: ".jpg" }],
+			roles: { PAUSER_ROLE: [pauser.address] },
+		};
+		writeFileSync(manifestFile, JSON.stringify(manifest));
+		const { chainId } = await ethers.provider.getNetwork();
+		const record: DeploymentRecord = { chainId, rentalProtocol: rp.address, collections: {}, steps: [] };
+		writeFileSync(recordFile, JSON.stringify(record));
+
+		const deploy = () =>
+			run("rental:deploy", { manifest: manifestFile, record: recordFile, safe: safe.address, batch: batchFile });
+		await deploy();
+		const batch = readBatch();
+		expect(batch.chainId).to.equal(String(chainId));
+		expect(batch.meta.createdFromSafeAddress).to.equal(safe.address);
+		expect(batch.transactions.every(({ to }) => to === rp.address)).to.be.true;
+
+		// the rental NFTs are deployed, the calls to the rental protocol are queued
+		const { lentNFT, borrowedNFT, subLentNFT } = JSON.parse(readFileSync(recordFile, "utf8")).collections.cards;
+		expect(decodeCalls(batch, rp.interface)).to.deep.equal([
+			`setFeesCollector(${admin.address})`,
+			"setFeesBasisPoints(1000)",
+			`associateOriginalToLentAndBorrowedNFT(${cards.address},${lentNFT},${borrowedNFT},${subLentNFT})`,
+			`grantRole(${await rp.PAUSER_ROLE()},${pauser.address})`,
+		]);
+		expect(await rp.protocolFeeBasisPoints()).to.equal(5_00);
+
+		// the multisend encodes the same calls
+		const multiSend = batch.multiSend as NonNullable<SafeBatchFile["multiSend"]>;
+		expect(multiSend.operation).to.equal(1);
+		expect(decodeMulti(multiSend.data).map(({ to, data }) => ({ to, data }))).to.deep.equal(
+			batch.transactions.map(({ to, data }) => ({ to, data }))
+		);
+
+		// once executed by the Safe, nothing is left to do
+		await rp.grantRole(await rp.DEFAULT_ADMIN_ROLE(), safe.address);
+		await rp.grantRole(await rp.TOKENS_MANAGER_ROLE(), safe.address);
+		await rp.grantRole(await rp.FEES_MANAGER_ROLE(), safe.address);
+		await execute(batch);
+		expect(await rp.originalToLentNFT(cards.address)).to.equal(lentNFT);
+		const block = await ethers.provider.getBlockNumber();
+		await deploy();
+		expect(await ethers.provider.getBlockNumber()).to.equal(block);
+	});
+
+	it("should queue role grants and pauses of the Safe", async () => {
+		const grant = { rental: rp.address, role: "PAUSER_ROLE", account: pauser.address, safe: safe.address, batch: batchFile };
+		const error = await run("rental:roles:grant", grant).catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("doesn't have the DEFAULT_ADMIN_ROLE");
+
+		await rp.grantRole(await rp.DEFAULT_ADMIN_ROLE(), safe.address);
+		await run("rental:roles:grant", grant);
+		expect(decodeCalls(readBatch(), rp.interface)).to.deep.equal([
+			`grantRole(${await rp.PAUSER_ROLE()},${pauser.address})`,
+		]);
+		expect(readBatch().multiSend).to.be.undefined;
+		expect(await rp.hasRole(await rp.PAUSER_ROLE(), pauser.address)).to.be.false;
+
+		await rp.grantRole(await rp.PAUSER_ROLE(), safe.address);
+		await run("rental:pause", { rental: rp.address, safe: safe.address, batch: batchFile });
+		expect(decodeCalls(readBatch(), rp.interface)).to.deep.equal(["pause()"]);
+		await execute(readBatch());
+		expect(await rp.paused()).to.be.true;
+	});
+
+	it("should queue upgrades", async () => {
+		await run("rental:upgrade", {
+			contract: "RentalProtocol",
+			implementation: "RentalProtocolV2",
+			rental: rp.address,
+			startBlock: 0,
+			snapshot: join(dir, "snapshot.json"),
+			safe: safe.address,
+			batch: batchFile,
+		});
+		const batch = readBatch();
+		const proxyAdmin = await upgrades.admin.getInstance();
+		expect(batch.transactions[0].to).to.equal(proxyAdmin.address);
+		const [call] = decodeCalls(batch, proxyAdmin.interface);
+		expect(call).to.match(new RegExp(`^upgrade\\(${rp.address},0x[0-9a-fA-F]{40}\\)$`));
+		expect(batch.transactions[0].contractInputsValues.proxy).to.equal(rp.address);
+
+		await proxyAdmin.transferOwnership(safe.address);
+		await execute(batch);
+		expect(await upgrades.erc1967.getImplementationAddress(rp.address)).to.equal(
+			batch.transactions[0].contractInputsValues.implementation
+		);
+		// the ProxyAdmin is shared by all the proxies of the tests
+		await proxyAdmin.connect(safe).transferOwnership(admin.address);
+	});
+});
@@ -0,0 +1,99 @@
+import { ethers, run } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ERC721Test, RentalProtocol } from "../artifacts/typechain";
+import {
+	RentalClient,
+	RentalOffer,
+	SignatureType,
+	checkRentalOfferHash,
+	getRentalDomain,
+	offerFromJSON,
+	offerToJSON,
+	recoverRentalOfferSigner,
+	signRentalOffer,
+	signedOfferFromJSON,
+	verifyRentalOffer,
+} from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("Offer signing", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let admin: SignerWithAddress;
+	let feesCollector: SignerWithAddress;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let offer: RentalOffer;
+
+	beforeEach(async () => {
+		[admin, feesCollector, lender, tenant] = await ethers.getSigners();
+		({ rp, erc721 } = await deployRentalFixture(feesCollector.address));
+
+		offer = await RentalClient.connect(rp.address, lender).createOffer({
+			nfts: [
+				{ token: erc721.address, tokenId: 123, duration: 3600, basisPoints: 30_00 },
+				{ token: erc721.address, tokenId: 234, duration: 7200, basisPoints: 10_00 },
+			],
+			feeAmount: ethers.utils.parseEther("10"),
+		});
+	});
+
+	it("should recover the maker of a signed offer", async () => {
+		const domain = await getRentalDomain(rp);
+		const signature = await signRentalOffer(lender, domain, offer);
+
+		expect(recoverRentalOfferSigner(domain, offer, signature)).to.equal(lender.address);
+		expect(verifyRentalOffer(domain, offer, signature)).to.be.true;
+		expect(verifyRentalOffer(domain, { ...offer, feeAmount: 0 }, signature)).to.be.false;
+		expect(verifyRentalOffer(domain, offer, await signRentalOffer(tenant, domain, offer))).to.be.false;
+		expect(verifyRentalOffer(domain, offer, "0x1234")).to.be.false;
+	});
+
+	it("should match the on-chain hash", async () => {
+		const { local, onChain, matches } = await checkRentalOfferHash(rp, offer);
+		expect(matches).to.be.true;
+		expect(local).to.equal(onChain);
+	});
+
+	it("should serialize offers to JSON", async () => {
+		const json = JSON.parse(JSON.stringify(offerToJSON(offer)));
+		const parsed = offerFromJSON(json);
+
+		expect(json.nfts[0].tokenId).to.equal("123");
+		expect(json.feeAmount).to.equal("10000000000000000000");
+		expect((await checkRentalOfferHash(rp, parsed)).local).to.equal(await rp.hashRentalOffer(offer));
+		expect(() => offerFromJSON({ ...json, nonce: undefined })).to.throw('Missing "nonce"');
+	});
+
+	it("should sign and verify offers files with tasks", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "rental-offer-"));
+		const file = join(dir, "offer.json");
+		writeFileSync(
+			file,
+			JSON.stringify({ nfts: [{ token: erc721.address, tokenId: "123", duration: "3600", basisPoints: 30_00 }] })
+		);
+
+		await run("rental:sign-offer", { rental: rp.address, offer: file, nonces: join(dir, "nonces.json") });
+		const signedFile = join(dir, "offer.signed.json");
+		const signed = signedOfferFromJSON(JSON.parse(readFileSync(signedFile, "utf8")));
+		expect(signed.signatureType).to.equal(SignatureType.EIP_712);
+		expect(signed.offer.maker).to.equal(admin.address);
+
+		await run("rental:verify-offer", { rental: rp.address, offer: signedFile });
+
+		// tamper with the offer
+		const tampered = JSON.parse(readFileSync(signedFile, "utf8"));
+		tampered.offer.nfts[0].basisPoints = 0;
+		writeFileSync(signedFile, JSON.stringify(tampered));
+		const error = await run("rental:verify-offer", { rental: rp.address, offer: signedFile }).catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message", "Signer is not maker");
+	});
+});
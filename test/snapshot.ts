@@ -0,0 +1,41 @@
+import { expect } from "chai";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { decodeRentalNFTMetadata } from "../src";
+
+const SNAPSHOTS_DIR = join(__dirname, "snapshots");
+
+/**
+ * Compare `value` with the `test/snapshots/<file>` snapshot. Missing snapshots are written, unless `CI`
+ * is set, run the tests with `UPDATE_SNAPSHOTS=1` to overwrite the existing ones after an intended change.
+ */
+export function expectSnapshot(file: string, value: string): void {
+	const path = join(SNAPSHOTS_DIR, file);
+	const missing = !existsSync(path);
+	if (missing && process.env.CI && !process.env.UPDATE_SNAPSHOTS) {
+		expect.fail(`Missing snapshot "${file}", run the tests with UPDATE_SNAPSHOTS=1 and commit it`);
+	}
+	if (process.env.UPDATE_SNAPSHOTS || missing) {
+		mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+		writeFileSync(path, value);
+	}
+	expect(value, `snapshot "${file}"`).to.equal(readFileSync(path, "utf8"));
+}
+
+/**
+ * One element per line, so that snapshot diffs point at the changed elements.
+ */
+export function formatSVG(svg: string): string {
+	return svg.replace(/>\s*</g, ">\n<") + "\n";
+}
+
+/**
+ * Snapshot the decoded metadata of a rental NFT as `<name>.json` and its SVG as `<name>.svg`.
+ */
+export function expectMetadataSnapshot(name: string, tokenURI: string): void {
+	const { metadata, svg } = decodeRentalNFTMetadata(tokenURI);
+	const { animation_url, ...fields } = metadata;
+	expect(animation_url).to.match(/^data:image\/svg\+xml;base64,/);
+	expectSnapshot(`${name}.json`, JSON.stringify(fields, null, 2) + "\n");
+	expectSnapshot(`${name}.svg`, formatSVG(svg));
+}
@@ -0,0 +1,101 @@
+import { ethers, run, upgrades } from "hardhat";
+import chai from "chai";
+import { solidity } from "ethereum-waffle";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ERC721Test, LentNFT, RentalProtocol, RentalProtocolV2 } from "../artifacts/typechain";
+import { RentalClient } from "../src";
+import { deployRentalFixture } from "./fixtures";
+
+chai.use(solidity);
+const { expect } = chai;
+
+describe("rental:upgrade", () => {
+	let rp: RentalProtocol;
+	let erc721: ERC721Test;
+	let lentNFT: LentNFT;
+	let lender: SignerWithAddress;
+	let tenant: SignerWithAddress;
+	let subtenant: SignerWithAddress;
+	let snapshot: string;
+
+	beforeEach(async () => {
+		let feesCollector: SignerWithAddress;
+		[, feesCollector, lender, tenant, subtenant] = await ethers.getSigners();
+		({ rp, erc721, lentNFT } = await deployRentalFixture(feesCollector.address));
+		snapshot = join(mkdtempSync(join(tmpdir(), "rental-upgrade-")), "snapshot.json");
+
+		// populate the deployment
+		const client = RentalClient.connect(rp.address, lender);
+		await erc721.mint(lender.address, 1);
+		await erc721.mint(lender.address, 2);
+		await erc721.connect(lender).setApprovalForAll(rp.address, true);
+		const offer = await client.createOffer({
+			nfts: [
+				{ token: erc721.address, tokenId: 1, duration: 3600, basisPoints: 10_00 },
+				{ token: erc721.address, tokenId: 2, duration: 7200, basisPoints: 20_00 },
+			],
+		});
+		await client.preSignOffer(offer);
+		await client.connect(tenant).rent(offer);
+		await client.connect(tenant).sublet(erc721.address, 2, subtenant.address, 50_00);
+	});
+
+	const upgrade = (args: { [name: string]: unknown }) =>
+		run("rental:upgrade", { rental: rp.address, startBlock: 0, snapshot, ...args });
+
+	it("should only validate on dry runs", async () => {
+		const implementation = await upgrades.erc1967.getImplementationAddress(rp.address);
+		await upgrade({ contract: "RentalProtocol", implementation: "RentalProtocolV2", dryRun: true });
+		expect(await upgrades.erc1967.getImplementationAddress(rp.address)).to.equal(implementation);
+	});
+
+	it("should reject incompatible storage layouts", async () => {
+		const error = await upgrade({ contract: "RentalProtocol", implementation: "RentalProtocolBadV2", dryRun: true }).catch(
+			(err) => err
+		);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("storage layout is incompatible");
+	});
+
+	it("should upgrade and keep the protocol state", async () => {
+		await upgrade({ contract: "RentalProtocol", implementation: "RentalProtocolV2" });
+
+		const v2 = (await ethers.getContractAt("RentalProtocolV2", rp.address)) as RentalProtocolV2;
+		expect(await v2.version()).to.equal("2");
+		expect((await rp.rentals(erc721.address, 2)).sublenderFee).to.equal(50_00);
+
+		// the rentals still end normally
+		await ethers.provider.send("evm_increaseTime", [7201]);
+		await rp.connect(lender).endRental(erc721.address, 1);
+		await rp.connect(lender).endRental(erc721.address, 2);
+		expect(await erc721.ownerOf(1)).to.equal(lender.address);
+		expect(await erc721.ownerOf(2)).to.equal(lender.address);
+	});
+
+	it("should prepare upgrades for a multisig", async () => {
+		const implementation = await upgrades.erc1967.getImplementationAddress(rp.address);
+		await upgrade({ contract: "RentalProtocol", implementation: "RentalProtocolV2", prepare: true });
+		expect(await upgrades.erc1967.getImplementationAddress(rp.address)).to.equal(implementation);
+
+		// the multisig executes the upgrade
+		const V2 = await ethers.getContractFactory("RentalProtocolV2");
+		const prepared = await upgrades.prepareUpgrade(rp.address, V2);
+		const proxyAdmin = await upgrades.admin.getInstance();
+		await proxyAdmin.upgrade(rp.address, prepared);
+		await run("rental:check-upgrade", { snapshot });
+
+		// anything changed is reported
+		await rp.setFeesBasisPoints(10_00);
+		const error = await run("rental:check-upgrade", { snapshot }).catch((err) => err);
+		expect(error).to.be.instanceOf(Error).with.property("message").that.contains("protocolFeeBasisPoints: 500 -> 1000");
+	});
+
+	it("should skip proxies already up to date", async () => {
+		const block = await ethers.provider.getBlockNumber();
+		await upgrade({ contract: "LentNFT" });
+		expect(await ethers.provider.getBlockNumber()).to.equal(block);
+		expect(await lentNFT.ownerOf(1)).to.equal(lender.address);
+	});
+});
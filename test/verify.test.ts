@@ -0,0 +1,150 @@
+import { config, ethers, run, upgrades } from "hardhat";
+import { subtask } from "hardhat/config";
+import { expect } from "chai";
+import { BorrowedNFT, LentNFT, RentalProtocol, SubLentNFT } from "../artifacts/typechain";
+import type { VerificationResult } from "../tasks/verify";
+import { deployRentalFixture } from "./fixtures";
+
+interface VerifyArgs {
+	address: string;
+	contract?: string;
+	constructorArguments: unknown[];
+}
+
+// Etherscan is replaced by `verify` in these tests, which may run the Etherscan plugin with `runSuper`
+let verify: (args: VerifyArgs, runSuper: (args: VerifyArgs) => Promise<void>) => Promise<void>;
+subtask("verify:verify").setAction(async (args: VerifyArgs, hre, runSuper) => verify(args, runSuper));
+
+interface ContractInformation {
+	sourceName: string;
+	contractName: string;
+}
+
+// contracts submitted to the Etherscan API by the Etherscan plugin, without compiling their minimum build
+let submitted: { address: string; contract: string }[];
+subtask("verify:get-etherscan-endpoint").setAction(async () => ({
+	apiURL: "https://api.etherscan.test/api",
+	browserURL: "https://etherscan.test",
+}));
+subtask("verify:get-minimum-build").setAction(async () => ({}));
+subtask("verify:verify-minimum-build").setAction(
+	async ({ address, contractInformation }: { address: string; contractInformation: ContractInformation }) => {
+		submitted.push({ address, contract: `${contractInformation.sourceName}:${contractInformation.contractName}` });
+		return true;
+	}
+);
+
+// the Etherscan plugin downloads the list of solc releases to find the long version of the compiler
+const solcReleases: {
+	getLongVersion(version: string): Promise<string>;
+} = require("@nomiclabs/hardhat-etherscan/dist/src/solc/version");
+
+describe("rental:verify", () => {
+	let rp: RentalProtocol;
+	let lentNFT: LentNFT;
+	let borrowedNFT: BorrowedNFT;
+	let subLentNFT: SubLentNFT;
+	let verified: VerifyArgs[];
+
+	beforeEach(async () => {
+		const [admin] = await ethers.getSigners();
+		({ rp, lentNFT, borrowedNFT, subLentNFT } = await deployRentalFixture(admin.address));
+		verified = [];
+		verify = async (args) => {
+			verified.push(args);
+		};
+	});
+
+	const resultOf = (results: VerificationResult[], address: string) =>
+		results.find((result) => result.address === address) as VerificationResult;
+
+	it("should verify every implementation, proxy and the proxy admin", async () => {
+		const results: VerificationResult[] = await run("rental:verify");
+		expect(results.map((result) => result.address)).to.deep.equal(verified.map((args) => args.address));
+		expect(results.every((result) => result.status === "verified")).to.be.true;
+		expect(verified.map((args) => args.contract)).to.include.members([
+			"contracts/LentNFT.sol:LentNFT",
+			"openzeppelin-contracts-4.1/proxy/transparent/TransparentUpgradeableProxy.sol:TransparentUpgradeableProxy",
+			"openzeppelin-contracts-4.1/proxy/transparent/ProxyAdmin.sol:ProxyAdmin",
+		]);
+
+		const implementation = await upgrades.erc1967.getImplementationAddress(lentNFT.address);
+		const admin = await upgrades.erc1967.getAdminAddress(lentNFT.address);
+		expect(resultOf(results, implementation)).to.include({ name: "LentNFT implementation" });
+		expect(resultOf(results, admin)).to.include({ name: "ProxyAdmin" });
+		const proxy = resultOf(results, lentNFT.address);
+		expect(proxy.name).to.equal("LentNFT proxy");
+		expect(proxy.constructorArguments.slice(0, 2)).to.deep.equal([implementation, admin]);
+		expect(
+			lentNFT.interface.decodeFunctionData("initialize", proxy.constructorArguments[2] as string)
+		).to.have.property("_uriPrefix", "https://ipfs.io/");
+
+		const implementations: VerificationResult[] = await run("rental:verify", { skipProxies: true });
+		expect(implementations.every((result) => / implementation$/.test(result.name))).to.be.true;
+		expect(resultOf(implementations, rp.address)).to.be.undefined;
+	});
+
+	it("should match every contract with its local artifact", async () => {
+		const { apiKey } = config.etherscan;
+		const { getLongVersion } = solcReleases;
+		config.etherscan.apiKey = "test";
+		solcReleases.getLongVersion = async (version) => version;
+		// only the contracts of the fixture, the manifest also has those deployed by the other tests
+		const proxies = [rp, lentNFT, borrowedNFT, subLentNFT].map((proxy) => proxy.address);
+		const deployed = proxies.concat(
+			await Promise.all(proxies.map((proxy) => upgrades.erc1967.getImplementationAddress(proxy))),
+			await upgrades.erc1967.getAdminAddress(rp.address)
+		);
+		verify = async (args, runSuper) => {
+			if (deployed.indexOf(args.address) !== -1) {
+				await runSuper(args);
+			}
+		};
+		submitted = [];
+		try {
+			const results: VerificationResult[] = (await run("rental:verify")).filter(
+				(result: VerificationResult) => deployed.indexOf(result.address) !== -1
+			);
+			expect(results.every((result) => result.status === "verified")).to.be.true;
+			expect(submitted.map((args) => args.address)).to.deep.equal(results.map((result) => result.address));
+			// the plugin matched the deployed bytecode with the given contract
+			results.forEach(({ contract }, i) => expect(submitted[i].contract).to.equal(contract ?? submitted[i].contract));
+		} finally {
+			config.etherscan.apiKey = apiKey;
+			solcReleases.getLongVersion = getLongVersion;
+		}
+		const admin = await upgrades.erc1967.getAdminAddress(rp.address);
+		expect(submitted).to.deep.include({
+			address: admin,
+			contract: "openzeppelin-contracts-4.1/proxy/transparent/ProxyAdmin.sol:ProxyAdmin",
+		});
+	});
+
+	it("should report the already verified and failed contracts", async () => {
+		const implementation = await upgrades.erc1967.getImplementationAddress(rp.address);
+		verify = async ({ address }) => {
+			if (address === implementation) {
+				throw new Error("Contract source code already verified");
+			}
+			if (address === rp.address) {
+				throw new Error("The contract verification failed.\nReason: Fail - Unable to verify");
+			}
+		};
+
+		const error = await run("rental:verify").catch((err) => err);
+		expect(error)
+			.to.be.instanceOf(Error)
+			.with.property("message")
+			.that.contains(`RentalProtocol proxy "${rp.address}"`);
+		expect(error.message).to.contain("The contract verification failed. Reason: Fail - Unable to verify");
+
+		verify = async ({ address }) => {
+			if (address === implementation) {
+				throw new Error("Contract source code already verified");
+			}
+		};
+		const results: VerificationResult[] = await run("rental:verify");
+		expect(resultOf(results, implementation)).to.include({ status: "already verified" });
+		expect(resultOf(results, rp.address)).to.include({ status: "verified" });
+	});
+});